@@ -0,0 +1,31 @@
+#!/usr/bin/env npx tsx
+/**
+ * Run the stand-in Focusmate API used by the test suite.
+ *
+ * Point the MCP server at it to exercise list_sessions offline:
+ *   FOCUSMATE_API_BASE_URL=http://127.0.0.1:4010/v1 npm run dev
+ * and use "test-api-key" as the API key in ~/.focusmate-mcp/config.json.
+ *
+ * Usage: PORT=4010 npx tsx scripts/fake-api.ts
+ */
+
+import { startFakeApi } from '../tests/fake-api/server.js';
+import { FAKE_API_KEY } from '../tests/fake-api/fixtures.js';
+
+async function main() {
+  const port = parseInt(process.env.PORT || '4010');
+  const api = await startFakeApi({ port });
+
+  console.log(`Fake Focusmate API listening at ${api.baseUrl}`);
+  console.log(`API key: ${FAKE_API_KEY}`);
+
+  process.on('SIGINT', async () => {
+    await api.close();
+    process.exit(0);
+  });
+}
+
+main().catch(error => {
+  console.error('Fatal:', error);
+  process.exit(1);
+});
@@ -3,9 +3,23 @@ import * as path from 'path';
 import { getConfigDir } from '../automation/config.js';
 
 const CONFIG_FILE = 'config.json';
+const CREDENTIALS_FILE = 'credentials.json';
+const DEFAULT_API_BASE_URL = 'https://api.focusmate.com/v1';
+const MIN_KEEP_ALIVE_MINUTES = 15;
+
+export type BookingMode = 'ui' | 'network';
 
 interface Config {
   apiKey?: string;
+  apiBaseUrl?: string;
+  timeZone?: string;
+  bookingMode?: BookingMode;
+  keepAliveMinutes?: number;
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
 }
 
 function loadConfig(): Config {
@@ -24,3 +38,68 @@ function loadConfig(): Config {
 export function getApiKey(): string | undefined {
   return loadConfig().apiKey;
 }
+
+/**
+ * Base URL for the Focusmate API. FOCUSMATE_API_BASE_URL takes precedence over
+ * config.json, so a local stand-in server can be used without editing config.
+ */
+export function getApiBaseUrl(): string {
+  const baseUrl = process.env.FOCUSMATE_API_BASE_URL || loadConfig().apiBaseUrl || DEFAULT_API_BASE_URL;
+  return baseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * IANA time zone to use instead of the Focusmate profile's, from
+ * FOCUSMATE_TIME_ZONE or `timeZone` in config.json. The environment wins.
+ */
+export function getTimeZoneOverride(): string | undefined {
+  return process.env.FOCUSMATE_TIME_ZONE || loadConfig().timeZone || undefined;
+}
+
+/**
+ * How bookings and cancellations are made, from FOCUSMATE_BOOKING_MODE or
+ * `bookingMode` in config.json: 'ui' clicks through the dashboard, 'network'
+ * replays the app's own requests where it has learned them. Defaults to 'ui'.
+ */
+export function getBookingMode(): BookingMode {
+  const mode = process.env.FOCUSMATE_BOOKING_MODE || loadConfig().bookingMode;
+  return mode === 'network' ? 'network' : 'ui';
+}
+
+/**
+ * Minutes between background dashboard visits that keep the login fresh, from
+ * FOCUSMATE_KEEP_ALIVE_MINUTES or `keepAliveMinutes` in config.json. Undefined
+ * (the default) or 0 turns the keep-alive off; intervals under 15 minutes are
+ * raised to 15.
+ */
+export function getKeepAliveMinutes(): number | undefined {
+  const minutes = Number(process.env.FOCUSMATE_KEEP_ALIVE_MINUTES || loadConfig().keepAliveMinutes || 0);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    return undefined;
+  }
+  return Math.max(minutes, MIN_KEEP_ALIVE_MINUTES);
+}
+
+/**
+ * Email and password for logging in without a browser window, from
+ * FOCUSMATE_EMAIL and FOCUSMATE_PASSWORD or a JSON file holding both:
+ * FOCUSMATE_CREDENTIALS_FILE, else credentials.json in the config directory.
+ * Undefined if neither source has both.
+ */
+export function getLoginCredentials(): LoginCredentials | undefined {
+  const { FOCUSMATE_EMAIL: email, FOCUSMATE_PASSWORD: password } = process.env;
+  if (email && password) {
+    return { email, password };
+  }
+
+  const credentialsPath = process.env.FOCUSMATE_CREDENTIALS_FILE || path.join(getConfigDir(), CREDENTIALS_FILE);
+  if (!fs.existsSync(credentialsPath)) {
+    return undefined;
+  }
+  try {
+    const stored = JSON.parse(fs.readFileSync(credentialsPath, 'utf-8')) as Partial<LoginCredentials>;
+    return stored.email && stored.password ? { email: stored.email, password: stored.password } : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -1,9 +1,8 @@
-import { getApiKey } from './config.js';
-import type { Session, SessionStatus } from '../schemas/session.js';
+import { getApiKey, getApiBaseUrl } from './config.js';
+import type { Session, SessionParticipant, SessionStatus } from '../schemas/session.js';
+import { ApiError, ApiKeyMissingError, InvalidApiKeyError, RateLimitedError } from '../utils/errors.js';
 
-const API_BASE_URL = 'https://api.focusmate.com/v1';
-
-interface ApiSession {
+export interface ApiSession {
   sessionId: string;
   duration: number; // milliseconds
   startTime: string; // ISO 8601 UTC
@@ -16,11 +15,11 @@ interface ApiSession {
   }>;
 }
 
-interface ApiSessionsResponse {
+export interface ApiSessionsResponse {
   sessions: ApiSession[];
 }
 
-interface ApiProfileResponse {
+export interface ApiProfileResponse {
   user: {
     userId: string;
     name: string;
@@ -30,45 +29,109 @@ interface ApiProfileResponse {
   };
 }
 
+export interface ApiUserResponse {
+  user: {
+    userId: string;
+    name: string;
+    totalSessionCount?: number;
+    timeZone?: string;
+    photoUrl?: string;
+  };
+}
+
+type ApiSessionUser = ApiSession['users'][number];
+
+// Longest range requested from /sessions in one call
+const MAX_WINDOW_DAYS = 28;
+const MAX_CONCURRENT_REQUESTS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The key owner's /me profile keyed by base URL and API key, so it is fetched once per process
+const currentUsers = new Map<string, ApiProfileResponse['user']>();
+
+function toParticipant(user: ApiSessionUser): SessionParticipant {
+  return {
+    userId: user.userId,
+    requestedAt: user.requestedAt,
+    joinedAt: user.joinedAt ?? null,
+    completed: user.completed
+  };
+}
+
+/** Split `[start, end)` into consecutive windows of at most `maxDays`. */
+export function splitRange(start: Date, end: Date, maxDays: number): Array<[Date, Date]> {
+  const windows: Array<[Date, Date]> = [];
+  let cursor = start.getTime();
+  while (cursor < end.getTime()) {
+    const windowEnd = Math.min(cursor + maxDays * DAY_MS, end.getTime());
+    windows.push([new Date(cursor), new Date(windowEnd)]);
+    cursor = windowEnd;
+  }
+  return windows;
+}
+
+/** Like Promise.all over `items.map(fn)`, with at most `limit` calls in flight. */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 export class FocusmateClient {
   private apiKey: string;
+  private baseUrl: string;
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, baseUrl?: string) {
     const key = apiKey || getApiKey();
     if (!key) {
-      throw new Error(
-        'Focusmate API key not configured. ' +
-        'Generate one at https://www.focusmate.com/profile/edit-p ' +
-        'and store it in ~/.focusmate-mcp/config.json as {"apiKey": "your-key"}'
-      );
+      throw new ApiKeyMissingError();
     }
     this.apiKey = key;
+    this.baseUrl = (baseUrl || getApiBaseUrl()).replace(/\/+$/, '');
   }
 
   private async request<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
-    const url = new URL(`${API_BASE_URL}${endpoint}`);
+    const url = new URL(`${this.baseUrl}${endpoint}`);
     if (params) {
       for (const [key, value] of Object.entries(params)) {
         url.searchParams.append(key, value);
       }
     }
 
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'X-API-Key': this.apiKey,
-        'Content-Type': 'application/json'
-      }
-    });
+    let response: Response;
+    try {
+      response = await fetch(url.toString(), {
+        method: 'GET',
+        headers: {
+          'X-API-Key': this.apiKey,
+          'Content-Type': 'application/json'
+        }
+      });
+    } catch (error) {
+      throw new ApiError(`Could not reach the Focusmate API: ${error instanceof Error ? error.message : String(error)}`);
+    }
 
     if (!response.ok) {
       if (response.status === 401) {
-        throw new Error('Invalid Focusmate API key. Check ~/.focusmate-mcp/config.json');
+        throw new InvalidApiKeyError();
       }
       if (response.status === 429) {
-        throw new Error('Focusmate API rate limit exceeded. Wait before retrying.');
+        throw new RateLimitedError();
       }
-      throw new Error(`Focusmate API error: ${response.status} ${response.statusText}`);
+      throw new ApiError(`Focusmate API error: ${response.status} ${response.statusText}`, response.status);
     }
 
     return response.json() as Promise<T>;
@@ -78,24 +141,72 @@ export class FocusmateClient {
     return this.request<ApiProfileResponse>('/me');
   }
 
+  /** Public profile of another Focusmate user, e.g. a session partner. */
+  async getUser(userId: string): Promise<ApiUserResponse> {
+    return this.request<ApiUserResponse>(`/users/${encodeURIComponent(userId)}`);
+  }
+
+  /** The API key owner's profile, fetched from /me once per key and base URL. */
+  private async getCurrentUser(): Promise<ApiProfileResponse['user']> {
+    const cacheKey = `${this.baseUrl}|${this.apiKey}`;
+    let user = currentUsers.get(cacheKey);
+    if (!user) {
+      ({ user } = await this.getProfile());
+      currentUsers.set(cacheKey, user);
+    }
+    return user;
+  }
+
+  async getCurrentUserId(): Promise<string> {
+    return (await this.getCurrentUser()).userId;
+  }
+
+  /** The IANA time zone set on the key owner's Focusmate profile. */
+  async getTimeZone(): Promise<string> {
+    return (await this.getCurrentUser()).timeZone;
+  }
+
+  /**
+   * Sessions overlapping `[startDate, endDate)`. Long ranges are split into
+   * windows the API accepts, fetched a few at a time, then de-duplicated by
+   * session ID and sorted by start time.
+   */
   async getSessions(startDate: string, endDate: string): Promise<Session[]> {
-    const response = await this.request<ApiSessionsResponse>('/sessions', {
-      start: startDate,
-      end: endDate
-    });
+    const windows = splitRange(new Date(startDate), new Date(endDate), MAX_WINDOW_DAYS);
+
+    const [responses, currentUserId] = await Promise.all([
+      mapWithConcurrency(windows, MAX_CONCURRENT_REQUESTS, ([start, end]) =>
+        this.request<ApiSessionsResponse>('/sessions', {
+          start: start.toISOString(),
+          end: end.toISOString()
+        })
+      ),
+      this.getCurrentUserId()
+    ]);
+
+    const byId = new Map<string, ApiSession>();
+    for (const response of responses) {
+      for (const session of response.sessions) {
+        byId.set(session.sessionId, session);
+      }
+    }
 
-    return response.sessions.map(session => this.mapApiSession(session));
+    return [...byId.values()]
+      .map(session => this.mapApiSession(session, currentUserId))
+      .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
   }
 
-  private mapApiSession(apiSession: ApiSession): Session {
+  private mapApiSession(apiSession: ApiSession, currentUserId: string): Session {
     const durationMinutes = Math.round(apiSession.duration / 60000);
     const startTime = new Date(apiSession.startTime);
     const endTime = new Date(startTime.getTime() + apiSession.duration);
 
-    const currentUser = apiSession.users[0];
-    const partner = apiSession.users[1];
+    // The API doesn't guarantee participant order, so match on user ID
+    const currentUser = apiSession.users.find(user => user.userId === currentUserId);
+    const partner = apiSession.users.find(user => user.userId !== currentUserId);
 
     let status: SessionStatus = 'pending';
+    let noShowBy: Session['noShowBy'];
     const now = new Date();
 
     if (startTime > now) {
@@ -103,7 +214,13 @@ export class FocusmateClient {
     } else if (endTime > now) {
       status = 'in_progress';
     } else {
-      status = currentUser?.completed ? 'completed' : 'no_show';
+      const iMissed = !currentUser?.completed;
+      const partnerMissed = partner ? !partner.completed : false;
+      noShowBy = iMissed && partnerMissed ? 'both'
+        : iMissed ? 'me'
+        : partnerMissed ? 'partner'
+        : undefined;
+      status = noShowBy ? 'no_show' : 'completed';
     }
 
     return {
@@ -112,9 +229,12 @@ export class FocusmateClient {
       endTime: endTime.toISOString(),
       duration: durationMinutes,
       status,
+      noShowBy,
       partnerId: partner?.userId ?? null,
       partnerName: null,
-      title: currentUser?.sessionTitle
+      title: currentUser?.sessionTitle,
+      me: currentUser ? toParticipant(currentUser) : undefined,
+      partner: partner ? toParticipant(partner) : null
     };
   }
 }
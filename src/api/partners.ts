@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfigDir } from '../automation/config.js';
+import { PartnerProfile, type Session } from '../schemas/session.js';
+import { RateLimitedError } from '../utils/errors.js';
+import type { FocusmateClient } from './focusmate-client.js';
+
+const CACHE_FILE = 'partner-cache.json';
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type PartnerCache = Record<string, PartnerProfile>;
+
+function getCachePath(): string {
+  return path.join(getConfigDir(), CACHE_FILE);
+}
+
+function loadCache(): PartnerCache {
+  const cachePath = getCachePath();
+  if (!fs.existsSync(cachePath)) {
+    return {};
+  }
+  try {
+    const content = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+    const cache: PartnerCache = {};
+    for (const [userId, entry] of Object.entries(content)) {
+      const parsed = PartnerProfile.safeParse(entry);
+      if (parsed.success) cache[userId] = parsed.data;
+    }
+    return cache;
+  } catch {
+    return {};
+  }
+}
+
+function saveCache(cache: PartnerCache): void {
+  fs.writeFileSync(getCachePath(), JSON.stringify(cache, null, 2), { mode: 0o600 });
+}
+
+function isFresh(profile: PartnerProfile, now: Date): boolean {
+  return now.getTime() - new Date(profile.fetchedAt).getTime() < CACHE_TTL_MS;
+}
+
+async function fetchProfile(client: FocusmateClient, userId: string, now: Date): Promise<PartnerProfile> {
+  const { user } = await client.getUser(userId);
+  return {
+    userId: user.userId,
+    name: user.name,
+    photoUrl: user.photoUrl,
+    timeZone: user.timeZone,
+    totalSessionCount: user.totalSessionCount,
+    fetchedAt: now.toISOString()
+  };
+}
+
+/** Look up a partner's profile, answering from the on-disk cache while it is fresh. */
+export async function getPartnerProfile(
+  client: FocusmateClient,
+  userId: string,
+  options: { refresh?: boolean } = {}
+): Promise<{ profile: PartnerProfile; cached: boolean }> {
+  const now = new Date();
+  const cache = loadCache();
+  const cachedProfile = cache[userId];
+
+  if (cachedProfile && !options.refresh && isFresh(cachedProfile, now)) {
+    return { profile: cachedProfile, cached: true };
+  }
+
+  const profile = await fetchProfile(client, userId, now);
+  saveCache({ ...cache, [userId]: profile });
+  return { profile, cached: false };
+}
+
+/**
+ * Fill in partner name, photo and time zone for every session with a partner.
+ * Lookups that fail leave the fields unset rather than failing the listing.
+ */
+export async function resolvePartners(client: FocusmateClient, sessions: Session[]): Promise<Session[]> {
+  const now = new Date();
+  const cache = loadCache();
+  const partnerIds = [...new Set(sessions.map(s => s.partnerId).filter((id): id is string => Boolean(id)))];
+  let updated = false;
+
+  // Sequential to stay well inside the API's rate limit
+  for (const userId of partnerIds) {
+    if (cache[userId] && isFresh(cache[userId], now)) continue;
+
+    try {
+      cache[userId] = await fetchProfile(client, userId, now);
+      updated = true;
+    } catch (error) {
+      console.error(`Could not resolve partner ${userId}:`, error);
+      // A rate limit will fail every remaining lookup too; stale entries still beat nothing
+      if (error instanceof RateLimitedError) break;
+    }
+  }
+
+  if (updated) {
+    saveCache(cache);
+  }
+
+  return sessions.map(session => {
+    const profile = session.partnerId ? cache[session.partnerId] : undefined;
+    if (!profile) return session;
+    return {
+      ...session,
+      partnerName: profile.name,
+      partnerPhotoUrl: profile.photoUrl,
+      partnerTimeZone: profile.timeZone
+    };
+  });
+}
@@ -0,0 +1,47 @@
+import { getApiKey, getTimeZoneOverride } from './config.js';
+import { FocusmateClient } from './focusmate-client.js';
+import type { Session } from '../schemas/session.js';
+import { formatZonedDateTime, getSystemTimeZone, isValidTimeZone } from '../utils/time.js';
+
+export interface ResolvedTimeZone {
+  timeZone: string;
+  source: 'override' | 'profile' | 'system';
+}
+
+/**
+ * The time zone Focusmate shows the account's calendar in. An override from
+ * FOCUSMATE_TIME_ZONE or config.json wins; otherwise the profile's zone from
+ * the API is used, falling back to the server's own zone without an API key
+ * or when the profile can't be fetched.
+ */
+export async function resolveTimeZone(): Promise<ResolvedTimeZone> {
+  const override = getTimeZoneOverride();
+  if (override) {
+    if (isValidTimeZone(override)) {
+      return { timeZone: override, source: 'override' };
+    }
+    console.error(`Ignoring unknown time zone override "${override}"`);
+  }
+
+  if (getApiKey()) {
+    try {
+      const timeZone = await new FocusmateClient().getTimeZone();
+      if (timeZone && isValidTimeZone(timeZone)) {
+        return { timeZone, source: 'profile' };
+      }
+    } catch (error) {
+      console.error('Could not read the profile time zone, using the system zone:', error);
+    }
+  }
+
+  return { timeZone: getSystemTimeZone(), source: 'system' };
+}
+
+/** Add wall-clock start and end times in `timeZone` alongside the UTC ones. */
+export function withLocalTimes(session: Session, timeZone: string): Session {
+  return {
+    ...session,
+    startTimeLocal: formatZonedDateTime(new Date(session.startTime), timeZone),
+    endTimeLocal: formatZonedDateTime(new Date(session.endTime), timeZone)
+  };
+}
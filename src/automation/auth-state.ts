@@ -0,0 +1,148 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { browserPool } from './browser-pool.js';
+import { hasAuthData, navigateToDashboard, replaceAuthData } from './browser.js';
+import { importLoginState } from './login.js';
+import { parseStorageState, type StorageState } from './storage-state.js';
+import { AuthRequiredError } from '../utils/errors.js';
+
+const FORMAT = 'focusmate-mcp-auth-state';
+const VERSION = 1;
+const FOCUSMATE_DOMAIN = 'focusmate.com';
+// Firebase keeps the signed-in user here; other databases are app caches
+const AUTH_DATABASES = ['firebaseLocalStorageDb'];
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// scrypt cost parameters; N = 2^15 takes about 100ms and 32MB
+const SCRYPT_OPTIONS = { N: 32768, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+interface EncryptedAuthState {
+  format: typeof FORMAT;
+  version: number;
+  kdf: 'scrypt';
+  salt: string; // base64
+  iv: string; // base64
+  tag: string; // base64 GCM auth tag
+  data: string; // base64 ciphertext of the StorageState JSON
+  exportedAt: string;
+}
+
+function isFocusmateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\./, '');
+  return host === FOCUSMATE_DOMAIN || host.endsWith(`.${FOCUSMATE_DOMAIN}`);
+}
+
+/** Only the Focusmate cookies, storage and Firebase auth records from `state`. */
+export function pickAuthRecords(state: StorageState): StorageState {
+  return {
+    cookies: state.cookies.filter(cookie => isFocusmateHost(cookie.domain)),
+    origins: state.origins
+      .filter(origin => isFocusmateHost(new URL(origin.origin).hostname))
+      .map(origin => ({
+        origin: origin.origin,
+        localStorage: origin.localStorage,
+        indexedDB: origin.indexedDB?.filter(database => AUTH_DATABASES.includes(database.name))
+      }))
+  };
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32, SCRYPT_OPTIONS);
+}
+
+/** Throw if `passphrase` is too short to protect an exported login. */
+export function checkPassphrase(passphrase: string): void {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+}
+
+/** Encrypt `state` with AES-256-GCM under a key derived from `passphrase`. */
+export function encryptAuthState(state: StorageState, passphrase: string): string {
+  checkPassphrase(passphrase);
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(state), 'utf-8'), cipher.final()]);
+
+  const file: EncryptedAuthState = {
+    format: FORMAT,
+    version: VERSION,
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+    exportedAt: new Date().toISOString()
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Decrypt a file written by encryptAuthState. Throws on a wrong passphrase or a damaged file. */
+export function decryptAuthState(contents: string, passphrase: string): StorageState {
+  let file: EncryptedAuthState;
+  try {
+    file = JSON.parse(contents) as EncryptedAuthState;
+  } catch {
+    throw new Error('Not an exported Focusmate login.');
+  }
+  if (file.format !== FORMAT) {
+    throw new Error('Not an exported Focusmate login.');
+  }
+  if (file.version !== VERSION) {
+    throw new Error(`Unsupported auth state version ${file.version}.`);
+  }
+
+  let json: string;
+  try {
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      deriveKey(passphrase, Buffer.from(file.salt, 'base64')),
+      Buffer.from(file.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    json = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error('Could not decrypt the auth state. Check the passphrase.');
+  }
+  return parseStorageState(JSON.parse(json));
+}
+
+/**
+ * Save the current Focusmate login to `filePath`, encrypted with
+ * `passphrase`. The dashboard is loaded first, so only a working login is
+ * exported and its token is fresh. Throws AuthRequiredError if there's none.
+ */
+export async function exportAuthState(filePath: string, passphrase: string): Promise<void> {
+  checkPassphrase(passphrase);
+  if (!hasAuthData()) {
+    throw new AuthRequiredError();
+  }
+
+  const state = await browserPool.withPage(undefined, async page => {
+    await navigateToDashboard(page);
+    return await page.context().storageState({ indexedDB: true }) as StorageState;
+  });
+
+  fs.writeFileSync(filePath, encryptAuthState(pickAuthRecords(state), passphrase), { mode: 0o600 });
+}
+
+/** Read and decrypt a file written by exportAuthState. Throws on a wrong passphrase or an unreadable file. */
+export function readAuthStateFile(filePath: string, passphrase: string): StorageState {
+  let contents: string;
+  try {
+    contents = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Could not read ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return decryptAuthState(contents, passphrase);
+}
+
+/**
+ * Replace the saved login with `state` once the dashboard loads with it.
+ * Throws AuthExpiredError if the restored login doesn't work, keeping the
+ * saved one.
+ */
+export async function restoreAuthState(state: StorageState): Promise<void> {
+  await browserPool.withProfile(() => replaceAuthData(userDataDir => importLoginState(state, userDataDir)));
+}
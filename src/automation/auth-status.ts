@@ -0,0 +1,93 @@
+import { getApiKey } from '../api/config.js';
+import { FocusmateClient } from '../api/focusmate-client.js';
+import { browserPool } from './browser-pool.js';
+import {
+  FOCUSMATE_APP_URL,
+  hasAuthData,
+  navigateToDashboard,
+  readFirebaseAuth,
+  type FirebaseAuthUser
+} from './browser.js';
+import { AuthExpiredError, InvalidApiKeyError } from '../utils/errors.js';
+
+// Treat tokens this close to expiry as expired; Firebase refreshes them about then
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+export interface BrowserAuthStatus {
+  // valid: logged in; expired: the app sends us to log in; missing: never logged in;
+  // unknown: the check itself failed
+  state: 'valid' | 'expired' | 'missing' | 'unknown';
+  // How the state was established: the stored token alone, or loading the dashboard
+  checkedBy: 'none' | 'token' | 'probe';
+  user?: FirebaseAuthUser;
+  error?: string;
+}
+
+export interface ApiKeyStatus {
+  state: 'valid' | 'invalid' | 'missing' | 'unknown';
+  user?: { userId: string; name: string; timeZone: string };
+  error?: string;
+}
+
+/** Whether `user`'s ID token is missing an expiry or expires within the margin. */
+export function isTokenExpired(user: FirebaseAuthUser, now: Date = new Date()): boolean {
+  return !user.expiresAt || new Date(user.expiresAt).getTime() - EXPIRY_MARGIN_MS <= now.getTime();
+}
+
+/**
+ * Check the saved browser login. The persisted Firebase token answers most of
+ * the time; the dashboard is only loaded when the token has expired, is
+ * missing, or `probe` asks for it, since Firebase may still refresh it.
+ */
+export async function checkBrowserAuth(options: { probe?: boolean } = {}): Promise<BrowserAuthStatus> {
+  if (!hasAuthData()) {
+    return { state: 'missing', checkedBy: 'none' };
+  }
+
+  try {
+    return await browserPool.withPage(undefined, async page => {
+      if (!page.url().startsWith(FOCUSMATE_APP_URL)) {
+        await page.goto(FOCUSMATE_APP_URL, { waitUntil: 'domcontentloaded' });
+      }
+
+      const stored = await readFirebaseAuth(page);
+      if (stored && !isTokenExpired(stored) && !options.probe) {
+        return { state: 'valid', checkedBy: 'token', user: stored } satisfies BrowserAuthStatus;
+      }
+
+      try {
+        await navigateToDashboard(page);
+      } catch (error) {
+        if (error instanceof AuthExpiredError) {
+          return { state: 'expired', checkedBy: 'probe', user: stored ?? undefined } satisfies BrowserAuthStatus;
+        }
+        throw error;
+      }
+
+      // Loading the app refreshes the token, so read it again for the new expiry
+      const refreshed = await readFirebaseAuth(page).catch(() => null);
+      return { state: 'valid', checkedBy: 'probe', user: refreshed ?? stored ?? undefined } satisfies BrowserAuthStatus;
+    });
+  } catch (error) {
+    return {
+      state: 'unknown',
+      checkedBy: 'none',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/** Check the API key in config.json by fetching its owner's profile. */
+export async function checkApiKey(): Promise<ApiKeyStatus> {
+  if (!getApiKey()) {
+    return { state: 'missing' };
+  }
+
+  try {
+    const { user } = await new FocusmateClient().getProfile();
+    return { state: 'valid', user: { userId: user.userId, name: user.name, timeZone: user.timeZone } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { state: error instanceof InvalidApiKeyError ? 'invalid' : 'unknown', error: message };
+  }
+}
@@ -0,0 +1,302 @@
+import type { BrowserContext, Page } from 'playwright';
+import { BrowserBusyError } from '../utils/errors.js';
+import { launchPersistentContext, type BrowserOptions } from './browser.js';
+import { acquireProfileLock, isProfileWanted, releaseProfileLock } from './profile-lock.js';
+
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_WAIT_TIMEOUT_MS = 60 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+// How often an idle context checks whether another process wants the profile
+const WANTED_POLL_INTERVAL_MS = 500;
+
+export type ContextLauncher = (options: BrowserOptions) => Promise<BrowserContext>;
+
+export interface BrowserPoolOptions {
+  launch?: ContextLauncher;
+  // Close the context after this long without a caller
+  idleTimeoutMs?: number;
+  // Give up with BrowserBusyError after waiting this long for the browser
+  waitTimeoutMs?: number;
+}
+
+/** Why a caller is waiting for the browser, for progress feedback. */
+export interface BrowserWait {
+  message: string;
+  // Operations ahead in this process
+  position?: number;
+  // Another server process holding the browser profile
+  pid?: number;
+}
+
+interface PooledContext {
+  context: BrowserContext;
+  page: Page;
+  timeZone?: string;
+  crashed: boolean;
+}
+
+/**
+ * Keeps one headless persistent context and its page warm between tool calls,
+ * so each call doesn't pay for launching Chromium and loading the profile.
+ * Callers take turns on the page. The context is relaunched if it crashed,
+ * stopped responding or was opened for a different time zone, and closed
+ * after sitting idle.
+ *
+ * Chromium allows one process per profile directory, so an open context also
+ * holds a lock file that other server processes wait on. The context is
+ * closed after the current call when another process is waiting, or as soon
+ * as one starts waiting while it sits idle.
+ */
+export class BrowserPool {
+  private current?: PooledContext;
+  private idleTimer?: NodeJS.Timeout;
+  private wantedTimer?: NodeJS.Timeout;
+  // Resolves once the last queued caller is done with the page
+  private queue: Promise<void> = Promise.resolve();
+  // Callers using or waiting for the page
+  private queued = 0;
+  private readonly waitListeners = new Set<(wait: BrowserWait) => void>();
+
+  private readonly launch: ContextLauncher;
+  private readonly idleTimeoutMs: number;
+  private readonly waitTimeoutMs: number;
+
+  constructor(options: BrowserPoolOptions = {}) {
+    this.launch = options.launch ?? launchPersistentContext;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.waitTimeoutMs = options.waitTimeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+  }
+
+  /**
+   * Run `action` on the warm page, launching a context first if needed. Pass
+   * `timeZone` to render the app in that zone; undefined accepts any context.
+   * Throws BrowserBusyError if the browser doesn't free up in time. Calls
+   * must not nest, as the inner one would wait for the outer forever.
+   */
+  async withPage<T>(timeZone: string | undefined, action: (page: Page) => Promise<T>): Promise<T> {
+    const deadline = Date.now() + this.waitTimeoutMs;
+    const release = await this.takeTurn(deadline);
+    try {
+      this.clearIdleTimer();
+      const page = await this.ensurePage(timeZone, deadline);
+      return await action(page);
+    } finally {
+      if (this.current && isProfileWanted()) {
+        await this.closeCurrent();
+      } else {
+        this.scheduleIdleClose();
+      }
+      release();
+    }
+  }
+
+  /**
+   * Run `action` with the browser profile to itself and no warm context, for
+   * flows that launch their own browser on it, like logging in.
+   */
+  async withProfile<T>(action: () => Promise<T>): Promise<T> {
+    const deadline = Date.now() + this.waitTimeoutMs;
+    const release = await this.takeTurn(deadline);
+    try {
+      this.clearIdleTimer();
+      await this.closeCurrent();
+      await this.lockProfile(deadline);
+      try {
+        return await action();
+      } finally {
+        releaseProfileLock();
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /** Subscribe to wait notifications. Returns a function that unsubscribes. */
+  onWait(listener: (wait: BrowserWait) => void): () => void {
+    this.waitListeners.add(listener);
+    return () => { this.waitListeners.delete(listener); };
+  }
+
+  /** Whether a context is currently open. */
+  isWarm(): boolean {
+    return this.current !== undefined;
+  }
+
+  /** Close the context now, without waiting for callers, as on server exit. */
+  async shutdown(): Promise<void> {
+    this.clearIdleTimer();
+    await this.closeCurrent();
+  }
+
+  private notifyWait(wait: BrowserWait): void {
+    console.error(wait.message);
+    for (const listener of this.waitListeners) {
+      listener(wait);
+    }
+  }
+
+  /**
+   * Wait for the callers ahead to finish. Returns the function that hands the
+   * page to the next caller; without a deadline, waits as long as it takes.
+   */
+  private takeTurn(deadline?: number): Promise<() => void> {
+    const position = this.queued++;
+    let release!: () => void;
+    const turn = new Promise<void>(resolve => {
+      release = () => {
+        this.queued--;
+        resolve();
+      };
+    });
+    const previous = this.queue;
+    this.queue = previous.then(() => turn);
+
+    if (position > 0 && deadline !== undefined) {
+      this.notifyWait({
+        message: `Waiting for the browser: ${position} operation${position === 1 ? '' : 's'} ahead.`,
+        position
+      });
+    }
+    if (deadline === undefined) {
+      return previous.then(() => release);
+    }
+
+    return new Promise((resolve, reject) => {
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        reject(new BrowserBusyError(
+          `The browser is still busy with ${position} earlier operation${position === 1 ? '' : 's'} ` +
+          `after ${Math.round(this.waitTimeoutMs / 1000)}s. Try again shortly.`
+        ));
+      }, Math.max(0, deadline - Date.now()));
+
+      void previous.then(() => {
+        clearTimeout(timer);
+        // A caller that gave up passes its turn straight on
+        if (timedOut) {
+          release();
+        } else {
+          resolve(release);
+        }
+      });
+    });
+  }
+
+  private async lockProfile(deadline: number): Promise<void> {
+    const acquired = await acquireProfileLock(deadline, owner => this.notifyWait({
+      message: `Waiting for another Focusmate MCP server${owner ? ` (pid ${owner.pid})` : ''} ` +
+        'to finish with the browser.',
+      pid: owner?.pid
+    }));
+    if (!acquired) {
+      throw new BrowserBusyError(
+        'Another Focusmate MCP server process is using the browser profile. Try again shortly.'
+      );
+    }
+  }
+
+  private async ensurePage(timeZone: string | undefined, deadline: number): Promise<Page> {
+    const current = this.current;
+    if (current && (timeZone === undefined || current.timeZone === timeZone) && await this.isHealthy(current)) {
+      return current.page;
+    }
+
+    await this.closeCurrent();
+    await this.lockProfile(deadline);
+
+    let context: BrowserContext;
+    let page: Page;
+    try {
+      context = await this.launch({ headless: true, timezoneId: timeZone });
+      page = context.pages()[0] || await context.newPage();
+    } catch (error) {
+      releaseProfileLock();
+      throw error;
+    }
+    const pooled: PooledContext = { context, page, timeZone, crashed: false };
+
+    // A crashed or externally closed browser is replaced on the next call
+    context.on('close', () => {
+      if (this.current === pooled) {
+        this.current = undefined;
+        releaseProfileLock();
+      }
+    });
+    page.on('crash', () => { pooled.crashed = true; });
+
+    this.current = pooled;
+    return page;
+  }
+
+  private async isHealthy(pooled: PooledContext): Promise<boolean> {
+    if (pooled.crashed || pooled.page.isClosed()) {
+      return false;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        pooled.page.evaluate('1'),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error('Health check timed out')), HEALTH_CHECK_TIMEOUT_MS);
+        })
+      ]);
+      return true;
+    } catch (error) {
+      console.error('Browser context is unresponsive, relaunching:', error);
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async closeCurrent(): Promise<void> {
+    const current = this.current;
+    this.current = undefined;
+    if (current) {
+      await current.context.close().catch(error => {
+        console.error('Closing the browser context failed:', error);
+      });
+      releaseProfileLock();
+    }
+  }
+
+  private scheduleIdleClose(): void {
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => { void this.closeWhenIdle(); }, this.idleTimeoutMs);
+    // Waiters give up well before the idle timeout, so hand the profile over as soon as one appears
+    this.wantedTimer = setInterval(() => {
+      if (isProfileWanted()) {
+        this.clearIdleTimer();
+        void this.closeWhenIdle();
+      }
+    }, WANTED_POLL_INTERVAL_MS);
+    // An idle browser shouldn't keep the process alive
+    this.idleTimer.unref();
+    this.wantedTimer.unref();
+  }
+
+  private async closeWhenIdle(): Promise<void> {
+    const release = await this.takeTurn();
+    try {
+      await this.closeCurrent();
+    } finally {
+      release();
+    }
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+    if (this.wantedTimer) {
+      clearInterval(this.wantedTimer);
+      this.wantedTimer = undefined;
+    }
+  }
+}
+
+/** The pool shared by every tool that drives the dashboard. */
+export const browserPool = new BrowserPool();
@@ -2,7 +2,7 @@ import { chromium, BrowserContext, Page } from 'playwright';
 import * as path from 'path';
 import * as fs from 'fs';
 import { getConfigDir } from './config.js';
-import { AuthExpiredError, AutomationFailedError } from '../utils/errors.js';
+import { AuthExpiredError, AutomationFailedError, FocusmateError } from '../utils/errors.js';
 
 const FOCUSMATE_BASE_URL = 'https://www.focusmate.com';
 const FOCUSMATE_APP_URL = 'https://app.focusmate.com';
@@ -16,6 +16,11 @@ const USER_DATA_DIR = path.join(getConfigDir(), 'browser-data');
 export interface BrowserOptions {
   headless?: boolean;
   slowMo?: number;
+  // Render the app in this IANA zone rather than the host's, so the calendar
+  // grid matches the account's time zone
+  timezoneId?: string;
+  // Profile to open instead of the saved one, e.g. one being built by replaceAuthData
+  userDataDir?: string;
 }
 
 function ensureUserDataDir(): void {
@@ -30,20 +35,44 @@ export function hasAuthData(): boolean {
   return fs.existsSync(defaultDir);
 }
 
-export function clearAuthData(): void {
+/**
+ * Replace the saved login with one `login` builds in a fresh profile, passed
+ * as its directory. The new profile is swapped in only if `login` resolves;
+ * if it throws, the saved login is left as it was. Run it inside
+ * browserPool.withProfile, since the saved profile must not be open.
+ */
+export async function replaceAuthData<T>(login: (userDataDir: string) => Promise<T>): Promise<T> {
+  const staging = `${USER_DATA_DIR}.new`;
+  const previous = `${USER_DATA_DIR}.old`;
+  fs.rmSync(staging, { recursive: true, force: true });
+  fs.mkdirSync(staging, { recursive: true, mode: 0o700 });
+
+  let result: T;
+  try {
+    result = await login(staging);
+  } catch (error) {
+    fs.rmSync(staging, { recursive: true, force: true });
+    throw error;
+  }
+
+  fs.rmSync(previous, { recursive: true, force: true });
   if (fs.existsSync(USER_DATA_DIR)) {
-    fs.rmSync(USER_DATA_DIR, { recursive: true, force: true });
+    fs.renameSync(USER_DATA_DIR, previous);
   }
+  fs.renameSync(staging, USER_DATA_DIR);
+  fs.rmSync(previous, { recursive: true, force: true });
+  return result;
 }
 
 export async function launchPersistentContext(options: BrowserOptions = {}): Promise<BrowserContext> {
-  const { headless = true, slowMo = 0 } = options;
+  const { headless = true, slowMo = 0, timezoneId, userDataDir = USER_DATA_DIR } = options;
   ensureUserDataDir();
 
   // Launch with persistent context - this preserves ALL browser state including IndexedDB
-  const context = await chromium.launchPersistentContext(USER_DATA_DIR, {
+  const context = await chromium.launchPersistentContext(userDataDir, {
     headless,
-    slowMo
+    slowMo,
+    timezoneId
   });
 
   return context;
@@ -68,6 +97,82 @@ export async function isLoggedIn(page: Page): Promise<boolean> {
   }
 }
 
+/** The signed-in user Firebase persisted for the app, with its ID token's expiry. */
+export interface FirebaseAuthUser {
+  uid: string;
+  email?: string;
+  displayName?: string;
+  expiresAt?: string;
+}
+
+/**
+ * Read the Firebase user the app persisted on the current origin, from
+ * IndexedDB or, for older builds, localStorage. Null if there is none.
+ */
+export async function readFirebaseAuth(page: Page): Promise<FirebaseAuthUser | null> {
+  // Use string-based evaluate to avoid transpilation issues with page.evaluate
+  return await page.evaluate(`
+    (function () {
+      var PREFIX = 'firebase:authUser:';
+
+      function toUser(value) {
+        if (typeof value === 'string') {
+          try { value = JSON.parse(value); } catch (e) { return null; }
+        }
+        if (!value || !value.uid) return null;
+        var expiration = value.stsTokenManager && value.stsTokenManager.expirationTime;
+        return {
+          uid: value.uid,
+          email: value.email || undefined,
+          displayName: value.displayName || undefined,
+          expiresAt: expiration ? new Date(expiration).toISOString() : undefined
+        };
+      }
+
+      function fromLocalStorage() {
+        for (var i = 0; i < localStorage.length; i++) {
+          var key = localStorage.key(i);
+          if (key && key.indexOf(PREFIX) === 0) {
+            var user = toUser(localStorage.getItem(key));
+            if (user) return user;
+          }
+        }
+        return null;
+      }
+
+      return new Promise(function (resolve) {
+        var request = indexedDB.open('firebaseLocalStorageDb');
+        request.onupgradeneeded = function () {
+          // The database didn't exist; don't leave an empty one behind
+          request.transaction.abort();
+        };
+        request.onerror = function () { resolve(fromLocalStorage()); };
+        request.onsuccess = function () {
+          var db = request.result;
+          if (!db.objectStoreNames.contains('firebaseLocalStorage')) {
+            db.close();
+            return resolve(fromLocalStorage());
+          }
+          var all = db.transaction('firebaseLocalStorage', 'readonly').objectStore('firebaseLocalStorage').getAll();
+          all.onerror = function () { db.close(); resolve(fromLocalStorage()); };
+          all.onsuccess = function () {
+            db.close();
+            var entries = all.result || [];
+            for (var i = 0; i < entries.length; i++) {
+              var key = entries[i].fbase_key;
+              if (typeof key === 'string' && key.indexOf(PREFIX) === 0) {
+                var user = toUser(entries[i].value);
+                if (user) return resolve(user);
+              }
+            }
+            resolve(fromLocalStorage());
+          };
+        };
+      });
+    })()
+  `) as FirebaseAuthUser | null;
+}
+
 async function checkAuthAndNavigate(page: Page, targetUrl: string): Promise<void> {
   await page.goto(targetUrl, { waitUntil: 'domcontentloaded' });
 
@@ -91,6 +196,14 @@ async function checkAuthAndNavigate(page: Page, targetUrl: string): Promise<void
 
   // Wait for the page to be interactive
   await page.waitForLoadState('networkidle');
+
+  // The app refreshes an expired ID token while it loads, so one still expired
+  // now won't be. No record at all proves nothing (the app may keep it
+  // somewhere we don't read), so then the login redirect above decides.
+  const user = page.url().startsWith(FOCUSMATE_APP_URL) ? await readFirebaseAuth(page).catch(() => null) : null;
+  if (user?.expiresAt && new Date(user.expiresAt).getTime() <= Date.now()) {
+    throw new AuthExpiredError('Session expired. Please run focusmate_auth to log in again.');
+  }
 }
 
 export async function navigateToDashboard(page: Page): Promise<void> {
@@ -132,7 +245,8 @@ export async function withErrorScreenshot<T>(
   } catch (error) {
     const screenshotPath = await captureScreenshotOnError(page, operationName);
 
-    if (error instanceof AuthExpiredError) {
+    // Domain errors (auth expiry, slot conflicts, ...) already say what went wrong
+    if (error instanceof FocusmateError) {
       throw error;
     }
 
@@ -144,4 +258,4 @@ export async function withErrorScreenshot<T>(
   }
 }
 
-export { FOCUSMATE_BASE_URL, LOGIN_URL, DASHBOARD_URL };
+export { FOCUSMATE_BASE_URL, FOCUSMATE_APP_URL, LOGIN_URL, DASHBOARD_URL };
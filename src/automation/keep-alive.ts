@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { browserPool } from './browser-pool.js';
+import { hasAuthData, navigateToDashboard, readFirebaseAuth, type FirebaseAuthUser } from './browser.js';
+import { getConfigDir } from './config.js';
+import { AuthExpiredError, BrowserBusyError } from '../utils/errors.js';
+
+const STATE_FILE = 'keep-alive.json';
+
+export interface KeepAliveState {
+  lastRefreshAt?: string; // Last visit that found the login working
+  lastCheckAt?: string;
+  tokenExpiresAt?: string; // The ID token's expiry after the last refresh
+  reauthRequired: boolean; // The last visit was sent to the login page
+  lastError?: string;
+}
+
+export interface KeepAliveOptions {
+  // Load the dashboard and return the refreshed Firebase user; throws AuthExpiredError if logged out
+  refresh?: () => Promise<FirebaseAuthUser | null>;
+}
+
+const REAUTH_MESSAGE = 'The saved Focusmate login has expired. Run focusmate_auth (or import a login) to log in again.';
+
+function statePath(): string {
+  return path.join(getConfigDir(), STATE_FILE);
+}
+
+export function loadKeepAliveState(): KeepAliveState | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(statePath(), 'utf-8')) as KeepAliveState;
+  } catch {
+    return undefined;
+  }
+}
+
+function saveKeepAliveState(state: KeepAliveState): void {
+  fs.writeFileSync(statePath(), JSON.stringify(state, null, 2), { mode: 0o600 });
+}
+
+async function refreshInPool(): Promise<FirebaseAuthUser | null> {
+  return await browserPool.withPage(undefined, async page => {
+    await navigateToDashboard(page);
+    return await readFirebaseAuth(page).catch(() => null);
+  });
+}
+
+/**
+ * Loads the dashboard in the background every so often, so Firebase refreshes
+ * the saved login before it goes stale. Listeners hear once when the login
+ * turns out to need an interactive login again.
+ */
+export class KeepAlive {
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<KeepAliveState | undefined>;
+  // Whether listeners have heard about the current need to log in again
+  private notified = false;
+  private readonly reauthListeners = new Set<(message: string) => void>();
+  private readonly refreshLogin: () => Promise<FirebaseAuthUser | null>;
+
+  constructor(options: KeepAliveOptions = {}) {
+    this.refreshLogin = options.refresh ?? refreshInPool;
+  }
+
+  /** Refresh every `intervalMs`, replacing any earlier schedule. */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => { void this.refresh(); }, intervalMs);
+    // The keep-alive shouldn't keep the process alive
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /** Subscribe to re-auth notifications. Returns a function that unsubscribes. */
+  onReauthRequired(listener: (message: string) => void): () => void {
+    this.reauthListeners.add(listener);
+    return () => { this.reauthListeners.delete(listener); };
+  }
+
+  /**
+   * Visit the dashboard once and record the outcome. Skipped, resolving to
+   * undefined, without a saved login or while the browser is busy, since
+   * whatever is using it refreshes the login too.
+   */
+  refresh(): Promise<KeepAliveState | undefined> {
+    this.running ??= this.visit().finally(() => { this.running = undefined; });
+    return this.running;
+  }
+
+  private async visit(): Promise<KeepAliveState | undefined> {
+    if (!hasAuthData()) {
+      return undefined;
+    }
+
+    const previous = loadKeepAliveState() ?? { reauthRequired: false };
+    const now = new Date().toISOString();
+    let state: KeepAliveState;
+
+    try {
+      const user = await this.refreshLogin();
+      state = { lastRefreshAt: now, lastCheckAt: now, tokenExpiresAt: user?.expiresAt, reauthRequired: false };
+    } catch (error) {
+      if (error instanceof BrowserBusyError) {
+        return undefined;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      state = {
+        ...previous,
+        lastCheckAt: now,
+        // Other failures, like a network error, say nothing about the login
+        reauthRequired: error instanceof AuthExpiredError || previous.reauthRequired,
+        lastError: message
+      };
+      console.error('Keep-alive visit to the dashboard failed:', message);
+    }
+
+    saveKeepAliveState(state);
+    if (state.reauthRequired && !this.notified) {
+      for (const listener of this.reauthListeners) {
+        listener(REAUTH_MESSAGE);
+      }
+    }
+    this.notified = state.reauthRequired;
+    return state;
+  }
+}
+
+/** The keep-alive the server starts when FOCUSMATE_KEEP_ALIVE_MINUTES is set. */
+export const keepAlive = new KeepAlive();
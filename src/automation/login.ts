@@ -0,0 +1,56 @@
+import type { BrowserContext } from 'playwright';
+import type { LoginCredentials } from '../api/config.js';
+import { launchPersistentContext, navigateToDashboard } from './browser.js';
+import { LoginPage } from './pages/login.js';
+import { applyStorageState, type StorageState } from './storage-state.js';
+import { AuthExpiredError } from '../utils/errors.js';
+
+// Both flows launch their own headless browser on `userDataDir`, the saved profile unless
+// given; pass the one replaceAuthData builds to keep the saved login if they fail
+
+async function withHeadlessContext<T>(
+  userDataDir: string | undefined,
+  action: (context: BrowserContext) => Promise<T>
+): Promise<T> {
+  const context = await launchPersistentContext({ headless: true, userDataDir });
+  try {
+    return await action(context);
+  } finally {
+    // Data is persisted in the user data directory
+    await context.close();
+  }
+}
+
+/**
+ * Log in with email and password without a browser window, then confirm the
+ * dashboard loads. Throws LoginFailedError if Focusmate rejects the login.
+ */
+export async function loginWithCredentials(credentials: LoginCredentials, userDataDir?: string): Promise<void> {
+  await withHeadlessContext(userDataDir, async context => {
+    const page = context.pages()[0] || await context.newPage();
+    const loginPage = new LoginPage(page);
+    await loginPage.goto();
+    await loginPage.login(credentials.email, credentials.password);
+    await navigateToDashboard(page);
+  });
+}
+
+/**
+ * Restore a login exported from another machine into the profile, then
+ * confirm the dashboard loads. Throws AuthExpiredError if it doesn't.
+ */
+export async function importLoginState(state: StorageState, userDataDir?: string): Promise<void> {
+  await withHeadlessContext(userDataDir, async context => {
+    await applyStorageState(context, state);
+    const page = context.pages()[0] || await context.newPage();
+    try {
+      await navigateToDashboard(page);
+    } catch (error) {
+      if (error instanceof AuthExpiredError) {
+        throw new AuthExpiredError('The imported login is not valid, or has expired. Export it again, or run ' +
+          'focusmate_auth on a machine with a display.');
+      }
+      throw error;
+    }
+  });
+}
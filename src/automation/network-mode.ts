@@ -0,0 +1,422 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Page, Request, Response } from 'playwright';
+import { getBookingMode } from '../api/config.js';
+import { getConfigDir } from './config.js';
+
+const TEMPLATES_FILE = 'network-requests.json';
+
+// Set by the browser for each request, so never replayed
+const BROWSER_HEADERS = /^(:.*|host|content-length|connection|accept-encoding|cookie|sec-.*)$/i;
+// Credentials the app adds itself; kept in memory only, never written to disk
+const SECRET_HEADERS = /^(authorization|x-.*(token|auth|appcheck).*)$/i;
+
+export interface CapturedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string | null;
+  responseStatus?: number;
+  responseBody?: string;
+}
+
+/** Records the app's mutations and API calls made by a page. */
+export class RequestRecorder {
+  private captured: CapturedRequest[] = [];
+  private onRequest?: (request: Request) => void;
+  private onResponse?: (response: Response) => Promise<void>;
+
+  constructor(private readonly page: Page) {}
+
+  get requests(): CapturedRequest[] {
+    return this.captured;
+  }
+
+  /** Start recording, dropping anything recorded before. Pair with stop, since the page may be reused. */
+  start(): void {
+    this.stop();
+    this.captured = [];
+
+    this.onRequest = (request: Request) => {
+      const url = request.url();
+      const method = request.method();
+      // Capture mutations and API calls
+      if (method !== 'GET' || url.includes('api.focusmate.com') || url.includes('/api/')) {
+        this.captured.push({
+          url,
+          method,
+          headers: request.headers(),
+          body: request.postData() || null
+        });
+      }
+    };
+
+    this.onResponse = async (response: Response) => {
+      const url = response.url();
+      const captured = this.captured.find(r => r.url === url && !r.responseStatus);
+      if (captured) {
+        captured.responseStatus = response.status();
+        try {
+          captured.responseBody = await response.text();
+        } catch {
+          // Response body not available
+        }
+      }
+    };
+
+    this.page.on('request', this.onRequest);
+    this.page.on('response', this.onResponse);
+  }
+
+  /** Stop recording. Recorded requests are kept. */
+  stop(): void {
+    if (this.onRequest) this.page.off('request', this.onRequest);
+    if (this.onResponse) this.page.off('response', this.onResponse);
+    this.onRequest = undefined;
+    this.onResponse = undefined;
+  }
+}
+
+type FieldPath = Array<string | number>;
+type TimeEncoding = 'iso' | 'epoch-ms' | 'epoch-s';
+type DurationEncoding = 'minutes' | 'minutes-string' | 'seconds' | 'milliseconds';
+
+/** A booking request learned from the app, with where the slot's start and duration go. */
+export interface BookingTemplate {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: unknown;
+  startTimePath: FieldPath;
+  startTimeEncoding: TimeEncoding;
+  durationPath?: FieldPath;
+  durationEncoding?: DurationEncoding;
+}
+
+/** A cancel request learned from the app, with `{sessionId}` where the ID goes. */
+export interface CancelTemplate {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string | null;
+}
+
+interface StoredTemplates {
+  booking?: BookingTemplate;
+  cancel?: CancelTemplate;
+}
+
+// Credentials captured with each template in this process
+const secretHeaders: { booking?: Record<string, string>; cancel?: Record<string, string> } = {};
+
+export function isNetworkModeEnabled(): boolean {
+  return getBookingMode() === 'network';
+}
+
+function templatesPath(): string {
+  return path.join(getConfigDir(), TEMPLATES_FILE);
+}
+
+function loadTemplates(): StoredTemplates {
+  try {
+    return JSON.parse(fs.readFileSync(templatesPath(), 'utf-8')) as StoredTemplates;
+  } catch {
+    return {};
+  }
+}
+
+function saveTemplate<K extends keyof StoredTemplates>(kind: K, template: StoredTemplates[K]): void {
+  const templates = { ...loadTemplates(), [kind]: template };
+  fs.writeFileSync(templatesPath(), JSON.stringify(templates, null, 2), { mode: 0o600 });
+}
+
+/** Split captured headers into ones safe to store and credentials to keep in memory. */
+function splitHeaders(headers: Record<string, string>): { stored: Record<string, string>; secret: Record<string, string> } {
+  const stored: Record<string, string> = {};
+  const secret: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (BROWSER_HEADERS.test(name)) continue;
+    (SECRET_HEADERS.test(name) ? secret : stored)[name] = value;
+  }
+  return { stored, secret };
+}
+
+function isSuccess(request: CapturedRequest): boolean {
+  return request.responseStatus !== undefined && request.responseStatus >= 200 && request.responseStatus < 300;
+}
+
+/** Every leaf of a JSON value with its path. */
+function leaves(value: unknown, at: FieldPath = []): Array<{ path: FieldPath; value: unknown }> {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => leaves(item, [...at, i]));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => leaves(item, [...at, key]));
+  }
+  return [{ path: at, value }];
+}
+
+function timeEncodingOf(value: unknown, startTime: Date): TimeEncoding | undefined {
+  const ms = startTime.getTime();
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value) && Date.parse(value) === ms) return 'iso';
+  if (value === ms) return 'epoch-ms';
+  if (value === ms / 1000) return 'epoch-s';
+  return undefined;
+}
+
+function durationEncodingOf(value: unknown, minutes: number): DurationEncoding | undefined {
+  if (value === minutes) return 'minutes';
+  if (value === String(minutes)) return 'minutes-string';
+  if (value === minutes * 60) return 'seconds';
+  if (value === minutes * 60 * 1000) return 'milliseconds';
+  return undefined;
+}
+
+function encodeTime(startTime: Date, encoding: TimeEncoding): string | number {
+  return encoding === 'iso' ? startTime.toISOString()
+    : encoding === 'epoch-ms' ? startTime.getTime()
+    : startTime.getTime() / 1000;
+}
+
+function encodeDuration(minutes: number, encoding: DurationEncoding): string | number {
+  return encoding === 'minutes' ? minutes
+    : encoding === 'minutes-string' ? String(minutes)
+    : encoding === 'seconds' ? minutes * 60
+    : minutes * 60 * 1000;
+}
+
+function setAt(target: unknown, at: FieldPath, value: unknown): void {
+  let node = target as Record<string | number, unknown>;
+  for (const key of at.slice(0, -1)) {
+    node = node[key] as Record<string | number, unknown>;
+  }
+  node[at[at.length - 1]] = value;
+}
+
+/**
+ * The booking request for one slot among `requests`: a successful JSON
+ * request with exactly one field holding the slot's start. Returns undefined
+ * if no request has that shape, such as one booking several slots.
+ */
+export function learnBookingTemplate(
+  requests: CapturedRequest[],
+  startTime: Date,
+  durationMinutes: number
+): { template: BookingTemplate; secret: Record<string, string> } | undefined {
+  for (const request of requests) {
+    if (request.method === 'GET' || !isSuccess(request) || !request.body) continue;
+
+    let body: unknown;
+    try {
+      body = JSON.parse(request.body);
+    } catch {
+      continue;
+    }
+
+    const fields = leaves(body);
+    const times = fields.flatMap(field => {
+      const encoding = timeEncodingOf(field.value, startTime);
+      return encoding ? [{ path: field.path, encoding }] : [];
+    });
+    if (times.length !== 1) continue;
+
+    const duration = fields.flatMap(field => {
+      const encoding = durationEncodingOf(field.value, durationMinutes);
+      return encoding ? [{ path: field.path, encoding }] : [];
+    })[0];
+
+    const { stored, secret } = splitHeaders(request.headers);
+    return {
+      template: {
+        url: request.url,
+        method: request.method,
+        headers: stored,
+        body,
+        startTimePath: times[0].path,
+        startTimeEncoding: times[0].encoding,
+        durationPath: duration?.path,
+        durationEncoding: duration?.encoding
+      },
+      secret
+    };
+  }
+  return undefined;
+}
+
+/**
+ * The cancel request for `sessionId` among `requests`: a successful mutation
+ * naming the session in its URL or body.
+ */
+export function learnCancelTemplate(
+  requests: CapturedRequest[],
+  sessionId: string
+): { template: CancelTemplate; secret: Record<string, string> } | undefined {
+  for (const request of requests) {
+    if (request.method === 'GET' || !isSuccess(request)) continue;
+    if (!request.url.includes(sessionId) && !request.body?.includes(sessionId)) continue;
+
+    const { stored, secret } = splitHeaders(request.headers);
+    return {
+      template: {
+        url: request.url.split(sessionId).join('{sessionId}'),
+        method: request.method,
+        headers: stored,
+        body: request.body?.split(sessionId).join('{sessionId}') ?? null
+      },
+      secret
+    };
+  }
+  return undefined;
+}
+
+/** Remember the booking request found among `requests`, if any, for later replays. */
+export function rememberBookingRequest(requests: CapturedRequest[], startTime: Date, durationMinutes: number): void {
+  const learned = learnBookingTemplate(requests, startTime, durationMinutes);
+  if (learned) {
+    saveTemplate('booking', learned.template);
+    secretHeaders.booking = learned.secret;
+  }
+}
+
+/** Remember the cancel request found among `requests`, if any, for later replays. */
+export function rememberCancelRequest(requests: CapturedRequest[], sessionId: string): void {
+  const learned = learnCancelTemplate(requests, sessionId);
+  if (learned) {
+    saveTemplate('cancel', learned.template);
+    secretHeaders.cancel = learned.secret;
+  }
+}
+
+/** Fill a booking template in for one slot. */
+export function buildBookingRequest(
+  template: BookingTemplate,
+  startTime: Date,
+  durationMinutes: number
+): { url: string; method: string; body: string } {
+  const body = structuredClone(template.body);
+  setAt(body, template.startTimePath, encodeTime(startTime, template.startTimeEncoding));
+  if (template.durationPath && template.durationEncoding) {
+    setAt(body, template.durationPath, encodeDuration(durationMinutes, template.durationEncoding));
+  }
+  return { url: template.url, method: template.method, body: JSON.stringify(body) };
+}
+
+async function send(
+  page: Page,
+  request: { url: string; method: string; body: string | null },
+  headers: Record<string, string>
+): Promise<{ status: number; body: string } | undefined> {
+  try {
+    // page.request shares the browser context's cookies
+    const response = await page.request.fetch(request.url, {
+      method: request.method,
+      headers,
+      data: request.body ?? undefined,
+      failOnStatusCode: false
+    });
+    return { status: response.status(), body: await response.text() };
+  } catch (error) {
+    console.error('Replaying a learned request failed:', error);
+    return undefined;
+  }
+}
+
+/** Session IDs, with start times where given, in a booking response. */
+export function extractBookedSessions(value: unknown): Array<{ sessionId: string; startTime?: string }> {
+  const booked: Array<{ sessionId: string; startTime?: string }> = [];
+
+  const collect = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(collect);
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    const record = node as Record<string, unknown>;
+    if (Array.isArray(record.sessions)) {
+      collect(record.sessions);
+      return;
+    }
+    if (record.session) {
+      collect(record.session);
+      return;
+    }
+
+    const sessionId = record.sessionId ?? record.id;
+    if (typeof sessionId === 'string' && !booked.some(b => b.sessionId === sessionId)) {
+      booked.push({
+        sessionId,
+        startTime: typeof record.startTime === 'string' ? record.startTime : undefined
+      });
+    }
+  };
+
+  collect(value);
+  return booked;
+}
+
+/**
+ * Book one slot by replaying the learned booking request. Resolves to
+ * undefined, meaning the UI flow should be used, only when the request was
+ * never sent or the server rejected it: without a learned request, before a
+ * booking in this process captured fresh credentials, or on a non-2xx status.
+ * A 2xx response that doesn't name exactly the booked session has still
+ * booked the slot, so it resolves without a session ID.
+ */
+export async function replayBooking(
+  page: Page,
+  startTime: Date,
+  durationMinutes: number
+): Promise<{ sessionId?: string } | undefined> {
+  const template = loadTemplates().booking;
+  // Credentials aren't stored, so a template from an earlier process would go out without them
+  if (!template || !secretHeaders.booking) return undefined;
+
+  const response = await send(
+    page,
+    buildBookingRequest(template, startTime, durationMinutes),
+    { ...template.headers, ...secretHeaders.booking }
+  );
+  if (!response || response.status < 200 || response.status >= 300) {
+    console.error(`Network booking got status ${response?.status ?? 'none'}, falling back to the calendar`);
+    return undefined;
+  }
+
+  let booked: Array<{ sessionId: string; startTime?: string }>;
+  try {
+    booked = extractBookedSessions(JSON.parse(response.body));
+  } catch {
+    booked = [];
+  }
+  const match = booked.find(b => b.startTime === undefined || Date.parse(b.startTime) === startTime.getTime());
+  if (booked.length !== 1 || !match) {
+    console.error('Network booking succeeded but the response did not name the session; its ID is unknown');
+    return {};
+  }
+  return { sessionId: match.sessionId };
+}
+
+/**
+ * Cancel a session by replaying the learned cancel request. Returns false if
+ * nothing was learned yet, no cancel in this process captured fresh
+ * credentials, or the request failed, in which case the UI flow should be used.
+ */
+export async function replayCancel(page: Page, sessionId: string): Promise<boolean> {
+  const template = loadTemplates().cancel;
+  if (!template || !secretHeaders.cancel) return false;
+
+  const response = await send(
+    page,
+    {
+      url: template.url.split('{sessionId}').join(encodeURIComponent(sessionId)),
+      method: template.method,
+      body: template.body?.split('{sessionId}').join(sessionId) ?? null
+    },
+    { ...template.headers, ...secretHeaders.cancel }
+  );
+  if (!response || response.status < 200 || response.status >= 300) {
+    console.error(`Network cancel got status ${response?.status ?? 'none'}, falling back to the dashboard`);
+    return false;
+  }
+  return true;
+}
@@ -1,13 +1,31 @@
-import type { Page, Locator, Request, Response } from 'playwright';
-import type { SessionDuration } from '../../schemas/session.js';
-
-interface CapturedBookingRequest {
-  url: string;
-  method: string;
-  headers: Record<string, string>;
-  body: string | null;
-  responseStatus?: number;
-  responseBody?: string;
+import type { Page, Locator } from 'playwright';
+import type { SessionDuration, SlotAvailability } from '../../schemas/session.js';
+import {
+  FocusmateError,
+  SessionConflictError,
+  SlotUnavailableError
+} from '../../utils/errors.js';
+import { formatZonedDate, getSystemTimeZone, getZonedParts, zonedTimeToUtc } from '../../utils/time.js';
+import {
+  RequestRecorder,
+  extractBookedSessions,
+  isNetworkModeEnabled,
+  rememberBookingRequest,
+  replayBooking,
+  type CapturedRequest
+} from '../network-mode.js';
+
+/** A 15-minute cell of the calendar grid as read for the selected duration. */
+export interface GridSlot {
+  startTime: Date;
+  availability: SlotAvailability;
+  partnersWaiting: number;
+}
+
+interface GridCell {
+  time: string;
+  disabled: boolean;
+  partners: number;
 }
 
 export class BookingPage {
@@ -21,11 +39,16 @@ export class BookingPage {
   // The "Book" button that appears in-slot after clicking an empty calendar cell
   readonly confirmBookingButton: Locator;
 
+  // Zone the calendar grid is rendered in; slot times and day headers are read in it
+  readonly timeZone: string;
+
   // Captured API calls during booking
-  private capturedRequests: CapturedBookingRequest[] = [];
+  private readonly recorder: RequestRecorder;
 
-  constructor(page: Page) {
+  constructor(page: Page, timeZone: string = getSystemTimeZone()) {
     this.page = page;
+    this.timeZone = timeZone;
+    this.recorder = new RequestRecorder(page);
 
     // Duration buttons - match exact label text "25 min", "50 min", "75 min"
     this.duration25Button = page.getByRole('button', { name: '25 min', exact: true });
@@ -37,40 +60,21 @@ export class BookingPage {
       .or(page.getByRole('button', { name: 'Book', exact: true }));
   }
 
-  /** Start capturing API requests to understand the booking flow. */
+  /**
+   * Start capturing API requests to understand the booking flow. Pair with
+   * stopRequestCapture, since the page may be reused by later calls.
+   */
   async startRequestCapture(): Promise<void> {
-    this.capturedRequests = [];
-
-    this.page.on('request', (request: Request) => {
-      const url = request.url();
-      const method = request.method();
-      // Capture mutations and API calls
-      if (method !== 'GET' || url.includes('api.focusmate.com') || url.includes('/api/')) {
-        this.capturedRequests.push({
-          url,
-          method,
-          headers: request.headers(),
-          body: request.postData() || null
-        });
-      }
-    });
+    this.recorder.start();
+  }
 
-    this.page.on('response', async (response: Response) => {
-      const url = response.url();
-      const captured = this.capturedRequests.find(r => r.url === url && !r.responseStatus);
-      if (captured) {
-        captured.responseStatus = response.status();
-        try {
-          captured.responseBody = await response.text();
-        } catch {
-          // Response body not available
-        }
-      }
-    });
+  /** Remove the listeners added by startRequestCapture. Captured requests are kept. */
+  stopRequestCapture(): void {
+    this.recorder.stop();
   }
 
-  getCapturedRequests(): CapturedBookingRequest[] {
-    return this.capturedRequests;
+  getCapturedRequests(): CapturedRequest[] {
+    return this.recorder.requests;
   }
 
   async selectDuration(duration: SessionDuration): Promise<void> {
@@ -85,10 +89,55 @@ export class BookingPage {
   }
 
   async selectTimeSlot(targetDate: Date): Promise<void> {
+    await this.clickTimeSlot(targetDate);
+
+    // Wait for the "Book" button to appear (indicates slot was selected)
+    try {
+      await this.confirmBookingButton.waitFor({ timeout: 5000 });
+    } catch {
+      throw new Error(
+        `Failed to select time slot for ${formatSlotLabel(targetDate, this.timeZone)}. ` +
+        `The "Book" button did not appear after clicking.`
+      );
+    }
+  }
+
+  /**
+   * Add a slot to the current selection without booking it, so several slots
+   * can be confirmed together with a single "Book N sessions" click.
+   */
+  async addTimeSlot(targetDate: Date): Promise<void> {
+    const before = await this.getSelectedSlotCount();
+
+    await this.clickTimeSlot(targetDate);
+
+    // The bottom bar counter only increments once the slot is actually selected
+    const deadline = Date.now() + 5000;
+    while (Date.now() < deadline) {
+      if (await this.getSelectedSlotCount() > before) return;
+      await this.page.waitForTimeout(200);
+    }
+
+    throw new Error(
+      `Failed to select time slot for ${formatSlotLabel(targetDate, this.timeZone)}. ` +
+      `The selected session count did not increase after clicking.`
+    );
+  }
+
+  /** Number of slots currently selected, read from the "Book N sessions" button. */
+  async getSelectedSlotCount(): Promise<number> {
+    const isVisible = await this.confirmBookingButton.isVisible().catch(() => false);
+    if (!isVisible) return 0;
+
+    const label = await this.confirmBookingButton.first().innerText().catch(() => '');
+    const match = label.match(/Book\s+(\d+)\s+session/i);
+    return match ? parseInt(match[1]) : 1;
+  }
+
+  private async clickTimeSlot(targetDate: Date): Promise<void> {
     await this.navigateToDate(targetDate);
 
-    const hours = targetDate.getHours();
-    const minutes = targetDate.getMinutes();
+    const { hours, minutes } = getZonedParts(targetDate, this.timeZone);
 
     // Format for 12-hour display
     const hour12 = hours > 12 ? hours - 12 : (hours === 0 ? 12 : hours);
@@ -115,17 +164,134 @@ export class BookingPage {
       // Strategy 2: Coordinate-based clicking with improved measurement
       await this.clickSlotByCoordinates(targetDate, hourLabel, slotIndex);
     }
+  }
 
-    // Wait for the "Book" button to appear (indicates slot was selected)
-    try {
-      await this.confirmBookingButton.waitFor({ timeout: 5000 });
-    } catch {
-      // Take a diagnostic screenshot
-      throw new Error(
-        `Failed to select time slot for ${hourLabel}:${minutes.toString().padStart(2, '0')}. ` +
-        `The "Book" button did not appear after clicking.`
-      );
+  /**
+   * Read the availability of every slot starting in [from, to) for `duration`,
+   * navigating forward through the calendar a day at a time. Cells carrying
+   * partner avatars have someone waiting to be matched.
+   */
+  async readSlots(from: Date, to: Date, duration: SessionDuration): Promise<GridSlot[]> {
+    await this.selectDuration(duration);
+
+    const slots = new Map<number, GridSlot>();
+    for (let day = from; day < to; day = this.nextDay(day)) {
+      await this.navigateToDate(day);
+
+      let cells = await this.readVisibleCells();
+      if (cells.length === 0) {
+        cells = await this.readDayCellsByPosition(day);
+      }
+      if (cells.length === 0) {
+        throw new Error('Could not read the calendar grid: found neither slot cells with times nor day and hour labels.');
+      }
+
+      for (const cell of cells) {
+        const startTime = new Date(cell.time);
+        if (isNaN(startTime.getTime()) || startTime < from || startTime >= to || slots.has(startTime.getTime())) {
+          continue;
+        }
+        slots.set(startTime.getTime(), {
+          startTime,
+          availability: cell.disabled ? 'unavailable' : cell.partners > 0 ? 'partner_waiting' : 'open',
+          partnersWaiting: cell.disabled ? 0 : cell.partners
+        });
+      }
     }
+
+    return [...slots.values()].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  /** Cells with a data-time attribute across the visible days. */
+  private async readVisibleCells(): Promise<GridCell[]> {
+    // Use string-based evaluate to avoid transpilation issues with page.evaluate
+    return await this.page.evaluate(`
+      Array.prototype.map.call(document.querySelectorAll('[data-time]'), function (cell) {
+        var label = (String(cell.className) + ' ' + (cell.getAttribute('aria-label') || '')).toLowerCase();
+        return {
+          time: cell.getAttribute('data-time'),
+          disabled: cell.getAttribute('aria-disabled') === 'true' || /unavailable|disabled|blocked|past/.test(label),
+          partners: cell.querySelectorAll('img, [class*="avatar"]').length
+        };
+      })
+    `) as GridCell[];
+  }
+
+  /**
+   * The cells of `date`'s column, found by position like clickSlotByCoordinates
+   * does: the column under its day header, and each quarter hour measured from
+   * the hour labels. Empty if the header or labels can't be found.
+   */
+  private async readDayCellsByPosition(date: Date): Promise<GridCell[]> {
+    const { dayOfMonth, dayName } = this.dayHeaderParts(date);
+
+    // Use string-based evaluate to avoid transpilation issues with page.evaluate
+    const cells = await this.page.evaluate(`
+      (function (headerText) {
+        function labelled(matches) {
+          var found = [];
+          var walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+          for (var node = walker.nextNode(); node; node = walker.nextNode()) {
+            var text = node.textContent.trim();
+            if (node.parentElement && matches(text)) found.push({ text: text, box: node.parentElement.getBoundingClientRect() });
+          }
+          return found;
+        }
+
+        var header = labelled(function (text) { return text === headerText; })[0];
+        var hours = labelled(function (text) { return /^(1[0-2]|[1-9])(am|pm)$/.test(text); }).map(function (l) {
+          var h = parseInt(l.text) % 12 + (l.text.slice(-2) === 'pm' ? 12 : 0);
+          return { hour: h, top: l.box.top };
+        }).sort(function (a, b) { return a.hour - b.hour; });
+        if (!header || hours.length < 2) return [];
+
+        var pixelsPerHour = (hours[hours.length - 1].top - hours[0].top) / (hours[hours.length - 1].hour - hours[0].hour);
+        var x = header.box.left + header.box.width / 2;
+        var boxes = Array.prototype.map.call(document.querySelectorAll('body *'), function (el) {
+          return { el: el, box: el.getBoundingClientRect() };
+        }).filter(function (b) { return b.box.width > 0 && b.box.height > 0; });
+
+        var cells = [];
+        hours.forEach(function (h) {
+          for (var quarter = 0; quarter < 4; quarter++) {
+            // A little way into the cell, as when clicking it
+            var y = h.top + (quarter / 4) * pixelsPerHour + pixelsPerHour / 8;
+            var cell = null;
+            var area = Infinity;
+            boxes.forEach(function (b) {
+              var r = b.box;
+              if (r.left <= x && x < r.right && r.top <= y && y < r.bottom && r.width * r.height < area) {
+                cell = b.el;
+                area = r.width * r.height;
+              }
+            });
+            if (cell && cell.matches('img, [class*="avatar"]') && cell.parentElement) cell = cell.parentElement;
+
+            var label = cell ? (String(cell.className) + ' ' + (cell.getAttribute('aria-label') || '')).toLowerCase() : '';
+            cells.push({
+              hour: h.hour,
+              minute: quarter * 15,
+              disabled: Boolean(cell && cell.closest('[aria-disabled="true"]')) || /unavailable|disabled|blocked|past/.test(label),
+              partners: cell ? cell.querySelectorAll('img, [class*="avatar"]').length : 0
+            });
+          }
+        });
+        return cells;
+      })("${dayName} ${dayOfMonth}")
+    `) as Array<{ hour: number; minute: number; disabled: boolean; partners: number }>;
+
+    const { year, month, day } = getZonedParts(date, this.timeZone);
+    return cells.map(({ hour, minute, disabled, partners }) => ({
+      time: zonedTimeToUtc(year, month, day, hour, minute, this.timeZone).toISOString(),
+      disabled,
+      partners
+    }));
+  }
+
+  /** Midnight in the grid's zone on the calendar day after `date`. */
+  private nextDay(date: Date): Date {
+    const { year, month, day } = getZonedParts(date, this.timeZone);
+    return zonedTimeToUtc(year, month, day + 1, 0, 0, this.timeZone);
   }
 
   private async scrollToTime(hourLabel: string): Promise<void> {
@@ -158,8 +324,7 @@ export class BookingPage {
     hourLabel: string,
     slotIndex: number
   ): Promise<boolean> {
-    const dayOfMonth = targetDate.getDate();
-    const dayName = targetDate.toLocaleDateString('en-US', { weekday: 'short' });
+    const { dayOfMonth, dayName } = this.dayHeaderParts(targetDate);
 
     // Try to find the column index from headers
     // Look for column headers like "Mon 30", "Tue 31", etc.
@@ -201,17 +366,15 @@ export class BookingPage {
       const cellCount = await slotCells.count();
       if (cellCount === 0) return false;
 
-      // Look for a cell near our target time
-      const targetMinutes = targetDate.getHours() * 60 + targetDate.getMinutes();
-
+      // Look for the cell for our target day and time
       for (let i = 0; i < cellCount; i++) {
         const cell = slotCells.nth(i);
         const timeAttr = await cell.getAttribute('data-time');
         if (timeAttr) {
-          // If cells have data-time attributes, use them directly
+          // If cells have data-time attributes, use them directly. Compare the
+          // full timestamp: every visible day has a cell at the same time of day.
           const cellTime = new Date(timeAttr);
-          const cellMinutes = cellTime.getHours() * 60 + cellTime.getMinutes();
-          if (cellMinutes === targetMinutes) {
+          if (cellTime.getTime() === targetDate.getTime()) {
             await cell.click();
             return true;
           }
@@ -229,8 +392,7 @@ export class BookingPage {
     hourLabel: string,
     slotIndex: number
   ): Promise<void> {
-    const dayOfMonth = targetDate.getDate();
-    const dayName = targetDate.toLocaleDateString('en-US', { weekday: 'short' });
+    const { dayOfMonth, dayName } = this.dayHeaderParts(targetDate);
 
     // Find the hour label element
     const timeLabel = this.page.locator(`text="${hourLabel}"`).first();
@@ -241,7 +403,7 @@ export class BookingPage {
     }
 
     // Find the next hour label to measure pixels-per-hour
-    const hours = targetDate.getHours();
+    const { hours } = getZonedParts(targetDate, this.timeZone);
     let pixelsPerHour = 192; // Default based on observed UI
 
     // Try next hour, then previous hour for measurement
@@ -294,19 +456,21 @@ export class BookingPage {
     await this.page.waitForTimeout(600);
   }
 
-  private async navigateToDate(targetDate: Date): Promise<void> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const target = new Date(targetDate);
-    target.setHours(0, 0, 0, 0);
+  /** Day-of-month and short weekday name shown in the grid's column header for `date`. */
+  private dayHeaderParts(date: Date): { dayOfMonth: number; dayName: string } {
+    return {
+      dayOfMonth: getZonedParts(date, this.timeZone).day,
+      dayName: date.toLocaleDateString('en-US', { weekday: 'short', timeZone: this.timeZone })
+    };
+  }
 
-    const daysDiff = Math.floor((target.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-    if (daysDiff < 0) {
+  private async navigateToDate(targetDate: Date): Promise<void> {
+    // Calendar dates compare correctly as YYYY-MM-DD strings
+    if (formatZonedDate(targetDate, this.timeZone) < formatZonedDate(new Date(), this.timeZone)) {
       throw new Error('Cannot book sessions in the past');
     }
 
-    const dayOfMonth = targetDate.getDate();
-    const dayName = targetDate.toLocaleDateString('en-US', { weekday: 'short' });
+    const { dayOfMonth, dayName } = this.dayHeaderParts(targetDate);
     const headerText = `${dayName} ${dayOfMonth}`;
 
     // Check if target date is already visible
@@ -347,7 +511,7 @@ export class BookingPage {
 
   async getConfirmationDetails(): Promise<{ sessionId?: string }> {
     // Try to extract session ID from captured API requests
-    for (const req of this.capturedRequests) {
+    for (const req of this.recorder.requests) {
       if (req.responseBody) {
         try {
           const body = JSON.parse(req.responseBody);
@@ -375,6 +539,91 @@ export class BookingPage {
     return {};
   }
 
+  /**
+   * Collect the IDs of every session created by the last confirmation, keyed by
+   * start time where the API response includes one.
+   */
+  getBookedSessions(): Array<{ sessionId: string; startTime?: string }> {
+    const booked: Array<{ sessionId: string; startTime?: string }> = [];
+
+    for (const req of this.recorder.requests) {
+      if (req.method === 'GET' || !req.responseBody) continue;
+      try {
+        for (const session of extractBookedSessions(JSON.parse(req.responseBody))) {
+          if (!booked.some(b => b.sessionId === session.sessionId)) {
+            booked.push(session);
+          }
+        }
+      } catch {
+        // Not JSON
+      }
+    }
+
+    return booked;
+  }
+
+  /**
+   * Book a single slot: select the duration and time, check the UI for
+   * conflicts, then confirm. Throws SessionConflictError or SlotUnavailableError
+   * when the calendar rejects the slot.
+   */
+  async bookSlot(targetDate: Date, duration: SessionDuration): Promise<{ sessionId?: string }> {
+    const replayed = await this.bookViaNetwork(targetDate, duration);
+    if (replayed) {
+      return replayed;
+    }
+
+    await this.selectDuration(duration);
+
+    try {
+      await this.selectTimeSlot(targetDate);
+    } catch (error) {
+      // A rejected slot never shows the "Book" button; report why if the UI says
+      throw await this.getSlotRejection() ?? error;
+    }
+
+    const rejection = await this.getSlotRejection();
+    if (rejection) {
+      throw rejection;
+    }
+
+    await this.confirmBooking();
+    const details = await this.getConfirmationDetails();
+    this.learnBookingRequest(targetDate, duration);
+    return details;
+  }
+
+  /**
+   * In network mode, book the slot by replaying the app's booking request
+   * learned from an earlier booking through the calendar. Returns undefined
+   * when network mode is off or the replay wasn't accepted, and no session
+   * ID when it was accepted but the response didn't name the session.
+   */
+  async bookViaNetwork(targetDate: Date, duration: SessionDuration): Promise<{ sessionId?: string } | undefined> {
+    if (!isNetworkModeEnabled()) {
+      return undefined;
+    }
+    return replayBooking(this.page, targetDate, parseInt(duration));
+  }
+
+  /** In network mode, learn the booking request from a single-slot booking made through the calendar. */
+  learnBookingRequest(targetDate: Date, duration: SessionDuration): void {
+    if (isNetworkModeEnabled()) {
+      rememberBookingRequest(this.recorder.requests, targetDate, parseInt(duration));
+    }
+  }
+
+  /** The error matching any conflict or unavailability message the calendar is showing. */
+  async getSlotRejection(): Promise<FocusmateError | undefined> {
+    if (await this.hasConflict()) {
+      return new SessionConflictError();
+    }
+    if (!await this.isSlotAvailable()) {
+      return new SlotUnavailableError();
+    }
+    return undefined;
+  }
+
   async isSlotAvailable(): Promise<boolean> {
     const unavailableIndicator = this.page.getByText(/not available/i)
       .or(this.page.getByText(/fully booked/i));
@@ -399,3 +648,10 @@ export class BookingPage {
     }
   }
 }
+
+function formatSlotLabel(targetDate: Date, timeZone: string): string {
+  const { hours, minutes } = getZonedParts(targetDate, timeZone);
+  const hour12 = hours > 12 ? hours - 12 : (hours === 0 ? 12 : hours);
+  const ampm = hours >= 12 ? 'pm' : 'am';
+  return `${hour12}${ampm}:${minutes.toString().padStart(2, '0')}`;
+}
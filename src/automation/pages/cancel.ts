@@ -0,0 +1,193 @@
+import type { Page, Locator } from 'playwright';
+import type { SessionCandidate } from '../../schemas/session.js';
+import { FOCUSMATE_APP_URL } from '../browser.js';
+import { RequestRecorder, isNetworkModeEnabled, rememberCancelRequest, replayCancel } from '../network-mode.js';
+import { DashboardPage } from './dashboard.js';
+import { AmbiguousSessionError, AuthExpiredError, SessionNotFoundError } from '../../utils/errors.js';
+import { formatZonedDateTime, getSystemTimeZone } from '../../utils/time.js';
+
+interface CardMatch {
+  card: Locator;
+  candidate: SessionCandidate;
+}
+
+export class CancelSessionPage {
+  readonly page: Page;
+
+  // Confirmation dialog button shown after choosing to cancel
+  readonly confirmButton: Locator;
+
+  // Zone the dashboard shows times in; card times are read in it
+  readonly timeZone: string;
+
+  private readonly appUrl: string;
+
+  constructor(page: Page, appUrl: string = FOCUSMATE_APP_URL, timeZone: string = getSystemTimeZone()) {
+    this.page = page;
+    this.appUrl = appUrl;
+    this.timeZone = timeZone;
+
+    this.confirmButton = page.getByRole('button', { name: /cancel/i }).last()
+      .or(page.getByRole('button', { name: /confirm/i }))
+      .or(page.getByRole('button', { name: /yes/i }));
+  }
+
+  sessionLink(sessionId: string): Locator {
+    return this.page.locator(`a[href*="${sessionId}"]`);
+  }
+
+  /**
+   * Cancel a session from the dashboard currently loaded in the page, falling
+   * back to the session's own page if no upcoming card links to it.
+   */
+  async cancelSession(sessionId: string): Promise<void> {
+    if (isNetworkModeEnabled() && await replayCancel(this.page, sessionId)) {
+      return;
+    }
+
+    await this.withLearning(sessionId, async () => {
+      const hasLink = await this.sessionLink(sessionId).count() > 0;
+
+      if (hasLink) {
+        await this.clickCancelOnCard(this.sessionLink(sessionId).locator('..').locator('..'));
+      } else {
+        await this.clickCancelOnSessionPage(sessionId);
+      }
+
+      await this.confirmCancellation();
+    });
+  }
+
+  /** In network mode, learn the app's cancel request for `sessionId` from what `cancel` does. */
+  private async withLearning(sessionId: string | undefined, cancel: () => Promise<void>): Promise<void> {
+    if (!sessionId || !isNetworkModeEnabled()) {
+      await cancel();
+      return;
+    }
+
+    const recorder = new RequestRecorder(this.page);
+    recorder.start();
+    try {
+      await cancel();
+      await this.page.waitForLoadState('networkidle').catch(() => {});
+      rememberCancelRequest(recorder.requests, sessionId);
+    } finally {
+      recorder.stop();
+    }
+  }
+
+  /**
+   * Cancel the upcoming session starting at `startTime`, optionally only one
+   * lasting `duration` minutes. Throws SessionNotFoundError if no card matches
+   * and AmbiguousSessionError, listing the candidates, if several do.
+   */
+  async cancelSessionAt(startTime: Date, duration?: number, now: Date = new Date()): Promise<SessionCandidate> {
+    const matches = await this.findCardsAt(startTime, duration, now);
+    const when = formatZonedDateTime(startTime, this.timeZone);
+
+    if (matches.length === 0) {
+      throw new SessionNotFoundError(`starting ${when}`);
+    }
+    if (matches.length > 1) {
+      throw new AmbiguousSessionError(
+        `${matches.length} upcoming sessions could start at ${when}. ` +
+        'Cancel by sessionId, or pass a duration to tell them apart.',
+        matches.map(match => match.candidate)
+      );
+    }
+
+    const { card, candidate } = matches[0];
+    if (candidate.sessionId && isNetworkModeEnabled() && await replayCancel(this.page, candidate.sessionId)) {
+      return candidate;
+    }
+
+    await this.withLearning(candidate.sessionId, async () => {
+      await this.clickCancelOnCard(card);
+      await this.confirmCancellation();
+    });
+    return candidate;
+  }
+
+  /**
+   * Upcoming session cards starting at `startTime`. Cards without a day label
+   * are dated as readUpcomingCards does, to the next occurrence of their time
+   * after `now`, so they never match a request for a later day.
+   */
+  async findCardsAt(startTime: Date, duration?: number, now: Date = new Date()): Promise<CardMatch[]> {
+    const cards = await new DashboardPage(this.page, this.timeZone).readUpcomingCards(now);
+
+    return cards
+      .filter(card =>
+        card.startTime.getTime() === startTime.getTime() &&
+        (duration === undefined || card.duration === duration)
+      )
+      .map(card => ({
+        card: card.card,
+        candidate: {
+          sessionId: card.sessionId,
+          date: card.date,
+          timeRange: card.timeRange,
+          duration: card.duration,
+          label: card.lines.join(' · ')
+        }
+      }));
+  }
+
+  private async clickCancelOnCard(sessionCard: Locator): Promise<void> {
+    // Find the cancel button on the card
+    const cancelBtn = sessionCard.getByRole('button', { name: /cancel|clear|×/i }).first();
+
+    if (await cancelBtn.isVisible()) {
+      await cancelBtn.click();
+      return;
+    }
+
+    // Try clicking a menu/options button first
+    const menuBtn = sessionCard.getByRole('button').first();
+    await menuBtn.click();
+    await this.page.waitForTimeout(300);
+
+    const cancelOption = this.page.getByRole('menuitem', { name: /cancel/i })
+      .or(this.page.getByRole('button', { name: /cancel/i }))
+      .first();
+    await cancelOption.click();
+  }
+
+  private async clickCancelOnSessionPage(sessionId: string): Promise<void> {
+    await this.page.goto(`${this.appUrl}/session/${sessionId}`, {
+      waitUntil: 'networkidle'
+    });
+
+    if (this.page.url().includes('/login')) {
+      throw new AuthExpiredError();
+    }
+
+    // Check for 404
+    const notFound = await this.page.getByText(/not found/i)
+      .or(this.page.getByText(/doesn't exist/i))
+      .first()
+      .isVisible()
+      .catch(() => false);
+
+    if (notFound) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    // Find cancel button on session page
+    const cancelButton = this.page.getByRole('button', { name: /cancel/i }).first();
+    await cancelButton.waitFor({ timeout: 5000 });
+    await cancelButton.click();
+  }
+
+  private async confirmCancellation(): Promise<void> {
+    try {
+      await this.confirmButton.waitFor({ timeout: 3000 });
+      await this.confirmButton.click();
+    } catch {
+      // No confirmation needed
+    }
+
+    // Wait for success indication
+    await this.page.waitForTimeout(1500);
+  }
+}
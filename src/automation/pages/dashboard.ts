@@ -1,4 +1,42 @@
 import type { Page, Locator } from 'playwright';
+import { parseDayLabel } from '../../utils/natural-time.js';
+import { getSystemTimeZone, getZonedParts, zonedTimeToUtc } from '../../utils/time.js';
+
+// Time range shown on upcoming session cards, e.g. "3:00pm - 3:50pm"
+const CARD_TIME_RANGE = /(\d{1,2}):(\d{2})\s*([ap]m)\s*-\s*(\d{1,2}):(\d{2})\s*([ap]m)/i;
+
+// Shown on cards still waiting for a partner
+const PENDING_MATCH = /pending match|matching|finding (a )?partner|waiting for (a )?partner/i;
+
+// Card lines that are controls or session details rather than the partner's name
+const NON_NAME_LINE = /^(25|50|75|Join|Clear|Starts in.*|≋|…|×|[.]{3})$/i;
+
+const DAY_MINUTES = 24 * 60;
+
+/** An upcoming session card on the dashboard, as read by `readUpcomingCards`. */
+export interface UpcomingCard {
+  card: Locator;
+  // From the card's /session/ link, if it has one
+  sessionId?: string;
+  // Calendar date from the card's day label, e.g. "2026-04-01", if it shows one
+  date?: string;
+  timeRange: string;
+  // Minutes after midnight the session starts at, in the dashboard's zone
+  startMinutes: number;
+  duration: number;
+  startTime: Date;
+  endTime: Date;
+  partnerName: string | null;
+  pendingMatch: boolean;
+  title?: string;
+  lines: string[];
+}
+
+/** Minutes after midnight for a 12-hour time like 3, 30, "pm". */
+function minuteOfDay(hours: string, minutes: string, meridiem: string): number {
+  const hour = parseInt(hours) % 12 + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  return hour * 60 + parseInt(minutes);
+}
 
 export class DashboardPage {
   readonly page: Page;
@@ -6,9 +44,14 @@ export class DashboardPage {
   readonly scheduleButton: Locator;
   readonly upcomingSessions: Locator;
   readonly sessionList: Locator;
+  readonly upcomingCards: Locator;
+
+  // Zone the dashboard shows times in; card times are read in it
+  readonly timeZone: string;
 
-  constructor(page: Page) {
+  constructor(page: Page, timeZone: string = getSystemTimeZone()) {
     this.page = page;
+    this.timeZone = timeZone;
     // These selectors may need refinement based on actual Focusmate UI
     this.bookButton = page.getByRole('button', { name: /book/i });
     this.scheduleButton = page.getByRole('button', { name: /schedule/i });
@@ -16,6 +59,7 @@ export class DashboardPage {
       .or(page.getByRole('region', { name: /upcoming/i }))
       .or(page.locator('.upcoming-sessions'));
     this.sessionList = page.getByRole('list').filter({ hasText: /session/i });
+    this.upcomingCards = page.getByLabel('Upcoming session', { exact: true });
   }
 
   async goto(): Promise<void> {
@@ -50,4 +94,79 @@ export class DashboardPage {
   async clickSchedule(): Promise<void> {
     await this.scheduleButton.click();
   }
+
+  /**
+   * Read every upcoming session card. Cards with a day label ("Today",
+   * "Wed, Apr 1") are dated by it; cards without one are taken to be the
+   * next occurrence of their time that hasn't ended by `now`.
+   */
+  async readUpcomingCards(now: Date = new Date()): Promise<UpcomingCard[]> {
+    const count = await this.upcomingCards.count();
+    const cards: UpcomingCard[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const card = this.upcomingCards.nth(i);
+      const text = await card.innerText().catch(() => '');
+      const range = text.match(CARD_TIME_RANGE);
+      if (!range) continue;
+
+      const startMinutes = minuteOfDay(range[1], range[2], range[3]);
+      // Sessions can run past midnight
+      const duration = (minuteOfDay(range[4], range[5], range[6]) - startMinutes + DAY_MINUTES) % DAY_MINUTES;
+
+      const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+      // The day label may share a line with the time range, as in "Tomorrow 3:00pm - 3:50pm"
+      const dayLabels = lines.map(line => parseDayLabel(line.replace(range[0], ''), now, this.timeZone));
+      const date = dayLabels.find(Boolean);
+
+      const titleElement = card.locator('[data-testid="session-title"], [class*="title"]');
+      const title = await titleElement.count() > 0
+        ? (await titleElement.first().innerText()).trim() || undefined
+        : undefined;
+
+      const pendingMatch = PENDING_MATCH.test(text);
+      const nameLine = pendingMatch ? undefined : lines.find((line, j) =>
+        !dayLabels[j] && !line.includes(range[0]) && line !== title &&
+        !NON_NAME_LINE.test(line) && /[a-z]/i.test(line) && line.length > 1
+      );
+
+      const link = card.locator('a[href*="/session/"]');
+      const href = await link.count() > 0 ? await link.first().getAttribute('href') : null;
+
+      const startTime = this.cardStart(startMinutes, duration, date, now);
+      cards.push({
+        card,
+        sessionId: href?.match(/\/session\/([^/?#]+)/)?.[1],
+        date,
+        timeRange: range[0],
+        startMinutes,
+        duration,
+        startTime,
+        endTime: new Date(startTime.getTime() + duration * 60 * 1000),
+        partnerName: nameLine ?? null,
+        pendingMatch,
+        title,
+        lines
+      });
+    }
+
+    return cards;
+  }
+
+  private cardStart(startMinutes: number, duration: number, date: string | undefined, now: Date): Date {
+    const hours = Math.floor(startMinutes / 60);
+    const minutes = startMinutes % 60;
+
+    if (date) {
+      const [year, month, day] = date.split('-').map(Number);
+      return zonedTimeToUtc(year, month, day, hours, minutes, this.timeZone);
+    }
+
+    const today = getZonedParts(now, this.timeZone);
+    const start = zonedTimeToUtc(today.year, today.month, today.day, hours, minutes, this.timeZone);
+    if (start.getTime() + duration * 60 * 1000 > now.getTime()) {
+      return start;
+    }
+    return zonedTimeToUtc(today.year, today.month, today.day + 1, hours, minutes, this.timeZone);
+  }
 }
@@ -1,15 +1,23 @@
 import type { Page, Locator } from 'playwright';
+import { FOCUSMATE_APP_URL } from '../browser.js';
+import { LoginFailedError } from '../../utils/errors.js';
+
+const LOGIN_TIMEOUT_MS = 30000;
 
 export class LoginPage {
   readonly page: Page;
   readonly emailInput: Locator;
   readonly passwordInput: Locator;
   readonly signInButton: Locator;
+  readonly continueButton: Locator;
   readonly googleSignInButton: Locator;
   readonly errorMessage: Locator;
 
-  constructor(page: Page) {
+  private readonly loginUrl: string;
+
+  constructor(page: Page, loginUrl: string = `${FOCUSMATE_APP_URL}/login`) {
     this.page = page;
+    this.loginUrl = loginUrl;
 
     // Email input
     this.emailInput = page.getByLabel(/email/i)
@@ -21,10 +29,15 @@ export class LoginPage {
       .or(page.getByPlaceholder(/password/i))
       .or(page.locator('input[type="password"]'));
 
-    // Sign in button
+    // Sign in button, not "Sign in with Google"
     this.signInButton = page.getByRole('button', { name: /sign in/i })
       .or(page.getByRole('button', { name: /log in/i }))
-      .or(page.locator('button[type="submit"]'));
+      .or(page.locator('button[type="submit"]'))
+      .filter({ hasNotText: /google/i });
+
+    // Shown instead of the password field when the form asks for the email first
+    this.continueButton = page.getByRole('button', { name: /continue|next/i })
+      .filter({ hasNotText: /google/i });
 
     // Google OAuth button
     this.googleSignInButton = page.getByRole('button', { name: /google/i })
@@ -37,17 +50,52 @@ export class LoginPage {
   }
 
   async goto(): Promise<void> {
-    await this.page.goto('https://app.focusmate.com/login');
+    await this.page.goto(this.loginUrl);
     await this.page.waitForLoadState('networkidle');
   }
 
   async waitForLoginForm(): Promise<void> {
     // Wait for either email input or Google button to appear
-    await this.emailInput.or(this.googleSignInButton).waitFor({ timeout: 10000 });
+    await this.emailInput.or(this.googleSignInButton).first().waitFor({ timeout: 10000 });
   }
 
   async isOnLoginPage(): Promise<boolean> {
     const url = this.page.url();
     return url.includes('/login') || url.includes('/signin');
   }
+
+  /**
+   * Sign in with email and password on the loaded login form, resolving once
+   * the app leaves the login page. Throws LoginFailedError with the form's
+   * error message if the login is rejected, or if there's no email form.
+   */
+  async login(email: string, password: string, timeoutMs: number = LOGIN_TIMEOUT_MS): Promise<void> {
+    await this.waitForLoginForm().catch(() => {});
+    if (!await this.emailInput.first().isVisible()) {
+      throw new LoginFailedError('The Focusmate login page has no email form. Accounts that sign in with Google ' +
+        'need focusmate_auth with a browser window, or an imported storage state.');
+    }
+
+    await this.emailInput.first().fill(email);
+    if (!await this.passwordInput.first().isVisible() && await this.continueButton.first().isVisible()) {
+      await this.continueButton.first().click();
+      await this.passwordInput.first().waitFor({ timeout: 10000 });
+    }
+    await this.passwordInput.first().fill(password);
+    await this.signInButton.first().click();
+
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      if (!await this.isOnLoginPage()) {
+        return;
+      }
+      if (await this.errorMessage.first().isVisible().catch(() => false)) {
+        const text = (await this.errorMessage.first().textContent())?.trim();
+        throw new LoginFailedError(`Focusmate rejected the login${text ? `: ${text}` : '.'}`);
+      }
+      await this.page.waitForTimeout(250);
+    }
+
+    throw new LoginFailedError('Focusmate did not finish logging in. Check the credentials, or log in with a browser window.');
+  }
 }
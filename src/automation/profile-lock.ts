@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfigDir } from './config.js';
+
+const LOCK_FILE = 'browser-data.lock';
+const WAITING_FILE = 'browser-data.waiting';
+const POLL_INTERVAL_MS = 250;
+// Waiters touch the marker on every poll, so an older one was left by a waiter that gave up
+const WAITING_FRESH_MS = 2000;
+// A lock file without a readable owner is only mid-write for a moment
+const UNREADABLE_STALE_MS = 10000;
+
+export interface ProfileLockOwner {
+  pid: number;
+  acquiredAt: string;
+}
+
+let exitHookInstalled = false;
+
+function lockPath(): string {
+  return path.join(getConfigDir(), LOCK_FILE);
+}
+
+function waitingPath(): string {
+  return path.join(getConfigDir(), WAITING_FILE);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function readOwner(file: string): ProfileLockOwner | undefined {
+  try {
+    const owner = JSON.parse(fs.readFileSync(file, 'utf-8')) as ProfileLockOwner;
+    return Number.isInteger(owner.pid) ? owner : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The process holding the browser profile lock, if any. */
+export function getProfileLockOwner(): ProfileLockOwner | undefined {
+  return readOwner(lockPath());
+}
+
+function isStale(file: string): boolean {
+  const owner = readOwner(file);
+  if (owner) {
+    return !isProcessAlive(owner.pid);
+  }
+  try {
+    return Date.now() - fs.statSync(file).mtimeMs > UNREADABLE_STALE_MS;
+  } catch {
+    // Removed in the meantime
+    return true;
+  }
+}
+
+/**
+ * Take the lock if it's free or was left by a process that died. A stale lock
+ * is moved aside before it's removed, so only one process takes it over, and
+ * one that turns out to be fresh, i.e. taken by another process since the
+ * check, is put back.
+ */
+function tryAcquire(): boolean {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const owner: ProfileLockOwner = { pid: process.pid, acquiredAt: new Date().toISOString() };
+      fs.writeFileSync(lockPath(), JSON.stringify(owner), { flag: 'wx', mode: 0o600 });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    if (getProfileLockOwner()?.pid === process.pid) return true;
+    if (!isStale(lockPath())) return false;
+
+    const aside = `${lockPath()}.${process.pid}-${Date.now()}`;
+    try {
+      fs.renameSync(lockPath(), aside);
+    } catch (error) {
+      // Another process moved it first
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      continue;
+    }
+    if (!isStale(aside)) {
+      try {
+        fs.linkSync(aside, lockPath());
+      } catch {
+        // Someone took the free lock in the meantime; theirs stands
+      }
+      fs.rmSync(aside, { force: true });
+      return false;
+    }
+    fs.rmSync(aside, { force: true });
+  }
+  return false;
+}
+
+function markWaiting(): void {
+  fs.writeFileSync(waitingPath(), String(process.pid), { mode: 0o600 });
+}
+
+/**
+ * Take the cross-process lock on the browser profile, waiting until `deadline`
+ * (ms since the epoch) for another server process to release it. Returns
+ * false if it's still held then. `onWait` is called once with the holder if
+ * the lock is taken.
+ */
+export async function acquireProfileLock(
+  deadline: number,
+  onWait?: (owner: ProfileLockOwner | undefined) => void
+): Promise<boolean> {
+  let notified = false;
+
+  while (!tryAcquire()) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    if (!notified) {
+      onWait?.(getProfileLockOwner());
+      notified = true;
+    }
+    markWaiting();
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  if (notified) {
+    fs.rmSync(waitingPath(), { force: true });
+  }
+  if (!exitHookInstalled) {
+    // Don't leave the lock behind for others to time out on
+    process.on('exit', releaseProfileLock);
+    exitHookInstalled = true;
+  }
+  return true;
+}
+
+/** Release the lock if this process holds it. */
+export function releaseProfileLock(): void {
+  if (getProfileLockOwner()?.pid === process.pid) {
+    fs.rmSync(lockPath(), { force: true });
+  }
+}
+
+/** Whether another process is waiting for the browser profile. */
+export function isProfileWanted(): boolean {
+  try {
+    const fresh = Date.now() - fs.statSync(waitingPath()).mtimeMs < WAITING_FRESH_MS;
+    return fresh && fs.readFileSync(waitingPath(), 'utf-8') !== String(process.pid);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import type { BrowserContext } from 'playwright';
+
+type SameSite = 'Strict' | 'Lax' | 'None';
+
+export interface StorageCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number; // Unix seconds; -1 for session cookies
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: SameSite;
+}
+
+// IndexedDB as `context.storageState({ indexedDB: true })` exports it
+export interface StorageIndexedDB {
+  name: string;
+  version: number;
+  stores: Array<{
+    name: string;
+    autoIncrement: boolean;
+    keyPath?: string;
+    records: Array<{ key?: unknown; value?: unknown }>;
+  }>;
+}
+
+export interface StorageOrigin {
+  origin: string;
+  localStorage: Array<{ name: string; value: string }>;
+  indexedDB?: StorageIndexedDB[];
+}
+
+/** Cookies and per-origin storage, in Playwright's storageState format. */
+export interface StorageState {
+  cookies: StorageCookie[];
+  origins: StorageOrigin[];
+}
+
+// Cookie fields as browser cookie-export extensions write them
+interface ExportedCookie {
+  name?: unknown;
+  value?: unknown;
+  domain?: unknown;
+  path?: unknown;
+  expires?: unknown;
+  expirationDate?: unknown;
+  httpOnly?: unknown;
+  secure?: unknown;
+  sameSite?: unknown;
+}
+
+function toSameSite(value: unknown): SameSite {
+  switch (String(value).toLowerCase()) {
+    case 'strict': return 'Strict';
+    case 'none':
+    case 'no_restriction': return 'None';
+    default: return 'Lax';
+  }
+}
+
+function toCookie(raw: ExportedCookie): StorageCookie {
+  if (typeof raw.name !== 'string' || typeof raw.value !== 'string' || typeof raw.domain !== 'string') {
+    throw new Error('Every cookie needs a name, value and domain.');
+  }
+  const expires = typeof raw.expires === 'number' ? raw.expires
+    : typeof raw.expirationDate === 'number' ? raw.expirationDate
+    : -1;
+  return {
+    name: raw.name,
+    value: raw.value,
+    domain: raw.domain,
+    path: typeof raw.path === 'string' ? raw.path : '/',
+    expires: Math.floor(expires),
+    httpOnly: raw.httpOnly === true,
+    secure: raw.secure === true,
+    sameSite: toSameSite(raw.sameSite)
+  };
+}
+
+/**
+ * Read a Playwright storageState file, or a plain cookie array as exported by
+ * browser extensions. Throws if the JSON is neither.
+ */
+export function parseStorageState(json: unknown): StorageState {
+  if (Array.isArray(json)) {
+    return { cookies: json.map(cookie => toCookie(cookie as ExportedCookie)), origins: [] };
+  }
+
+  const state = json as Partial<StorageState> | null;
+  if (!state || typeof state !== 'object' || !Array.isArray(state.cookies)) {
+    throw new Error('Expected a Playwright storageState file or a JSON array of cookies.');
+  }
+  return {
+    cookies: state.cookies.map(cookie => toCookie(cookie as ExportedCookie)),
+    origins: Array.isArray(state.origins) ? state.origins.filter(origin => typeof origin?.origin === 'string') : []
+  };
+}
+
+export function loadStorageState(filePath: string): StorageState {
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return parseStorageState(json);
+}
+
+/**
+ * Write `state` into `context`: cookies directly, and each origin's
+ * localStorage and IndexedDB from a blank page on that origin, so the app's
+ * own scripts don't run while the records are restored.
+ */
+export async function applyStorageState(context: BrowserContext, state: StorageState): Promise<void> {
+  if (state.cookies.length > 0) {
+    await context.addCookies(state.cookies);
+  }
+
+  const origins = state.origins.filter(origin => origin.localStorage.length > 0 || origin.indexedDB?.length);
+  if (origins.length === 0) {
+    return;
+  }
+
+  const page = await context.newPage();
+  try {
+    await page.route('**/*', route => route.fulfill({ contentType: 'text/html', body: '<!DOCTYPE html><html></html>' }));
+    for (const origin of origins) {
+      await page.goto(origin.origin);
+      // Use string-based evaluate to avoid transpilation issues with page.evaluate
+      await page.evaluate(`
+        (function (localItems, databases) {
+          localItems.forEach(function (item) { localStorage.setItem(item.name, item.value); });
+
+          return Promise.all(databases.map(function (database) {
+            return new Promise(function (resolve, reject) {
+              var request = indexedDB.open(database.name, database.version);
+              request.onupgradeneeded = function () {
+                database.stores.forEach(function (store) {
+                  if (!request.result.objectStoreNames.contains(store.name)) {
+                    request.result.createObjectStore(store.name, store.keyPath
+                      ? { keyPath: store.keyPath, autoIncrement: store.autoIncrement }
+                      : { autoIncrement: store.autoIncrement });
+                  }
+                });
+              };
+              request.onerror = function () { reject(request.error); };
+              request.onsuccess = function () {
+                var db = request.result;
+                var names = database.stores.map(function (store) { return store.name; })
+                  .filter(function (name) { return db.objectStoreNames.contains(name); });
+                if (names.length === 0) { db.close(); return resolve(); }
+                var tx = db.transaction(names, 'readwrite');
+                database.stores.forEach(function (store) {
+                  if (names.indexOf(store.name) === -1) return;
+                  store.records.forEach(function (record) {
+                    if (record.value === undefined) return;
+                    if (store.keyPath || record.key === undefined) {
+                      tx.objectStore(store.name).put(record.value);
+                    } else {
+                      tx.objectStore(store.name).put(record.value, record.key);
+                    }
+                  });
+                });
+                tx.oncomplete = function () { db.close(); resolve(); };
+                tx.onerror = function () { db.close(); reject(tx.error); };
+              };
+            });
+          }));
+        })(${JSON.stringify(origin.localStorage)}, ${JSON.stringify(origin.indexedDB ?? [])})
+      `);
+    }
+  } finally {
+    await page.close();
+  }
+}
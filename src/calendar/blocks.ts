@@ -0,0 +1,44 @@
+import type { SessionDuration } from '../schemas/session.js';
+
+const SLOT_MS = 15 * 60 * 1000;
+
+// Longest first, so a block gets as few sessions as possible
+const DURATIONS: SessionDuration[] = ['75', '50', '25'];
+
+export interface PlannedSession {
+  startTime: Date;
+  duration: SessionDuration;
+}
+
+/** Round up to the next 15-minute boundary. */
+export function snapUp(date: Date): Date {
+  return new Date(Math.ceil(date.getTime() / SLOT_MS) * SLOT_MS);
+}
+
+/** Round down to the previous 15-minute boundary. */
+export function snapDown(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / SLOT_MS) * SLOT_MS);
+}
+
+/**
+ * Fill `[start, end)` with back-to-back sessions. The block is shrunk onto
+ * 15-minute boundaries, then filled greedily with the longest session that
+ * fits. Each session after the first starts at the next boundary after the
+ * previous one ends, so a 25-minute session takes up a 30-minute slot.
+ */
+export function planBlockSessions(start: Date, end: Date): PlannedSession[] {
+  const sessions: PlannedSession[] = [];
+  const blockEnd = snapDown(end).getTime();
+  let cursor = snapUp(start).getTime();
+
+  while (cursor < blockEnd) {
+    const remainingMinutes = (blockEnd - cursor) / 60000;
+    const duration = DURATIONS.find(d => parseInt(d) <= remainingMinutes);
+    if (!duration) break;
+
+    sessions.push({ startTime: new Date(cursor), duration });
+    cursor = snapUp(new Date(cursor + parseInt(duration) * 60000)).getTime();
+  }
+
+  return sessions;
+}
@@ -0,0 +1,277 @@
+import { FOCUSMATE_APP_URL } from '../automation/browser.js';
+import type { Session } from '../schemas/session.js';
+import { getSystemTimeZone, zonedTimeToUtc } from '../utils/time.js';
+
+const PRODID = '-//focusmate-mcp//Focusmate sessions//EN';
+const UID_DOMAIN = 'focusmate-mcp';
+const MAX_LINE_OCTETS = 75;
+// SEQUENCE counts seconds from here, so it fits RFC 5545's 32-bit integers for decades
+const SEQUENCE_EPOCH_MS = Date.UTC(2026, 0, 1);
+
+/** A VEVENT read from an .ics file. */
+export interface IcsEvent {
+  uid?: string;
+  summary: string;
+  categories: string[];
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  status?: string;
+  recurring: boolean;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Format a Date as an RFC 5545 UTC date-time, e.g. "20260401T140000Z". */
+export function formatIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Escape a TEXT value: backslashes, semicolons, commas and newlines. */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, continuation lines
+ * starting with a space. Never splits a multi-byte UTF-8 character.
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+export function sessionUid(session: Session): string {
+  return `${session.id}@${UID_DOMAIN}`;
+}
+
+export function sessionUrl(session: Session): string {
+  return `${FOCUSMATE_APP_URL}/session/${encodeURIComponent(session.id)}`;
+}
+
+function sessionSummary(session: Session): string {
+  let summary = session.partnerName ? `Focusmate with ${session.partnerName}` : 'Focusmate session';
+  if (session.title) {
+    summary += `: ${session.title}`;
+  }
+  return summary;
+}
+
+function eventStatus(session: Session): string {
+  switch (session.status) {
+    case 'cancelled': return 'CANCELLED';
+    case 'pending': return 'TENTATIVE';
+    default: return 'CONFIRMED';
+  }
+}
+
+/**
+ * The SEQUENCE for events exported at `now`. Calendars ignore an update whose
+ * sequence isn't higher than the copy they have, so every export gets a
+ * higher one than the last.
+ */
+function sequenceAt(now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - SEQUENCE_EPOCH_MS) / 1000));
+}
+
+function sessionEvent(session: Session, stamp: string, sequence: number): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${sessionUid(session)}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatIcsDateTime(new Date(session.startTime))}`,
+    `DTEND:${formatIcsDateTime(new Date(session.endTime))}`,
+    `SUMMARY:${escapeText(sessionSummary(session))}`,
+    `DESCRIPTION:${escapeText(`${session.duration}-minute Focusmate session (${session.status})`)}`,
+    `URL:${sessionUrl(session)}`,
+    `STATUS:${eventStatus(session)}`,
+    `SEQUENCE:${sequence}`,
+    'END:VEVENT'
+  ];
+}
+
+/**
+ * Render sessions as an RFC 5545 calendar. UIDs are derived from session IDs
+ * and sequences from `now`, so importing a later export updates events rather
+ * than duplicating them.
+ */
+export function sessionsToIcs(sessions: Session[], now: Date = new Date()): string {
+  const stamp = formatIcsDateTime(now);
+  const sequence = sequenceAt(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...sessions.flatMap(session => sessionEvent(session, stamp, sequence)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+/** Split on commas that aren't escaped, e.g. in CATEGORIES. */
+function splitList(value: string): string[] {
+  return value.split(/(?<!\\),/).map(item => unescapeText(item).trim()).filter(Boolean);
+}
+
+function parseContentLine(line: string): ContentLine | undefined {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return undefined;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq !== -1) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Parse a DATE or DATE-TIME value. UTC and TZID times are converted exactly;
+ * dates, floating times and unknown zones are read in `timeZone`.
+ */
+function parseIcsDate(line: ContentLine, timeZone: string): { date: Date; allDay: boolean } | undefined {
+  const dateOnly = line.value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly) {
+    const [, y, m, d] = dateOnly.map(Number);
+    return { date: zonedTimeToUtc(y, m, d, 0, 0, timeZone), allDay: true };
+  }
+
+  const match = line.value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return undefined;
+
+  const [y, mo, d, h, mi, sec] = match.slice(1, 7).map(Number);
+  if (match[7]) {
+    return { date: new Date(Date.UTC(y, mo - 1, d, h, mi, sec)), allDay: false };
+  }
+  if (line.params.TZID) {
+    try {
+      return { date: zonedTimeToUtc(y, mo, d, h, mi, line.params.TZID, sec), allDay: false };
+    } catch {
+      // Unknown zone name, e.g. a Windows zone; fall back to the default zone
+    }
+  }
+  return { date: zonedTimeToUtc(y, mo, d, h, mi, timeZone, sec), allDay: false };
+}
+
+/** Parse a DURATION value like "PT1H30M" into milliseconds. */
+function parseIcsDuration(value: string): number | undefined {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+
+  const [weeks, days, hours, minutes, seconds] = match.slice(2).map(n => Number(n ?? 0));
+  const ms = ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+  return match[1] === '-' ? -ms : ms;
+}
+
+function toEvent(lines: ContentLine[], timeZone: string): IcsEvent | undefined {
+  const get = (name: string): ContentLine | undefined => lines.find(line => line.name === name);
+
+  const dtStart = get('DTSTART');
+  const start = dtStart && parseIcsDate(dtStart, timeZone);
+  if (!start) return undefined;
+
+  // All-day events without an end last one day; close enough across DST changes
+  let end = start.allDay ? new Date(start.date.getTime() + 24 * 60 * 60 * 1000) : start.date;
+  const dtEnd = get('DTEND');
+  const duration = get('DURATION');
+  if (dtEnd) {
+    end = parseIcsDate(dtEnd, timeZone)?.date ?? end;
+  } else if (duration) {
+    const ms = parseIcsDuration(duration.value);
+    if (ms !== undefined) end = new Date(start.date.getTime() + ms);
+  }
+
+  return {
+    uid: get('UID')?.value,
+    summary: unescapeText(get('SUMMARY')?.value ?? ''),
+    categories: lines.filter(line => line.name === 'CATEGORIES').flatMap(line => splitList(line.value)),
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    status: get('STATUS')?.value.toUpperCase(),
+    recurring: Boolean(get('RRULE') || get('RDATE'))
+  };
+}
+
+/**
+ * Read the VEVENTs from an RFC 5545 calendar. Events without a usable start
+ * are dropped. Recurring events are returned as their first occurrence only.
+ * Dates and floating times are read in `timeZone`.
+ */
+export function parseIcsEvents(text: string, timeZone: string = getSystemTimeZone()): IcsEvent[] {
+  const unfolded = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: ContentLine[] | undefined;
+  // Nested components such as VALARM don't belong to the event itself
+  let nested = 0;
+
+  for (const raw of unfolded) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT') {
+        current = [];
+      } else if (current) {
+        nested++;
+      }
+    } else if (line.name === 'END') {
+      if (line.value.toUpperCase() === 'VEVENT' && current) {
+        const event = toEvent(current, timeZone);
+        if (event) events.push(event);
+        current = undefined;
+      } else if (current && nested > 0) {
+        nested--;
+      }
+    } else if (current && nested === 0) {
+      current.push(line);
+    }
+  }
+
+  return events;
+}
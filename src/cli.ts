@@ -0,0 +1,85 @@
+import { checkPassphrase, exportAuthState, readAuthStateFile, restoreAuthState } from './automation/auth-state.js';
+import { browserPool } from './automation/browser-pool.js';
+
+const USAGE = `Usage:
+  focusmate-mcp                       Run the MCP server on stdio
+  focusmate-mcp export-auth <file>    Save the current login to an encrypted file
+  focusmate-mcp import-auth <file>    Replace the saved login with one from export-auth
+
+The passphrase is read from FOCUSMATE_AUTH_PASSPHRASE, or asked for on the terminal.`;
+
+export const CLI_COMMANDS = ['export-auth', 'import-auth'];
+
+/** Ask for a passphrase on the terminal without echoing it. */
+function promptPassphrase(prompt: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error('Set FOCUSMATE_AUTH_PASSPHRASE, or run this in a terminal to be asked for it.'));
+  }
+
+  process.stderr.write(prompt);
+  stdin.setRawMode(true);
+  stdin.resume();
+  stdin.setEncoding('utf-8');
+
+  return new Promise((resolve, reject) => {
+    let input = '';
+    const done = (error?: Error): void => {
+      stdin.setRawMode(false);
+      stdin.pause();
+      stdin.removeListener('data', onData);
+      process.stderr.write('\n');
+      if (error) reject(error); else resolve(input);
+    };
+    const onData = (chunk: string): void => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') return done();
+        if (char === '\u0003') return done(new Error('Cancelled.'));
+        if (char === '\u007f') input = input.slice(0, -1);
+        else input += char;
+      }
+    };
+    stdin.on('data', onData);
+  });
+}
+
+async function getPassphrase(confirm: boolean): Promise<string> {
+  const fromEnv = process.env.FOCUSMATE_AUTH_PASSPHRASE;
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  const passphrase = await promptPassphrase('Passphrase: ');
+  if (confirm && await promptPassphrase('Repeat passphrase: ') !== passphrase) {
+    throw new Error('The passphrases do not match.');
+  }
+  return passphrase;
+}
+
+/** Run a CLI command from `args` (argv without node and the script). Resolves to the exit code. */
+export async function runCli(args: string[]): Promise<number> {
+  const [command, file] = args;
+  if (!CLI_COMMANDS.includes(command) || !file) {
+    console.error(USAGE);
+    return command === '--help' ? 0 : 2;
+  }
+
+  try {
+    if (command === 'export-auth') {
+      const passphrase = await getPassphrase(true);
+      checkPassphrase(passphrase);
+      await exportAuthState(file, passphrase);
+      console.error(`Saved the encrypted login to ${file}.`);
+    } else {
+      const state = readAuthStateFile(file, await getPassphrase(false));
+      await restoreAuthState(state);
+      console.error(`Restored the login from ${file}.`);
+    }
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  } finally {
+    await browserPool.shutdown();
+  }
+}
@@ -1,6 +1,16 @@
 #!/usr/bin/env node
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createServer } from './server.js';
+import { browserPool } from './automation/browser-pool.js';
+import { keepAlive } from './automation/keep-alive.js';
+import { getKeepAliveMinutes } from './api/config.js';
+import { CLI_COMMANDS, runCli } from './cli.js';
+
+async function shutdown(exitCode = 0): Promise<never> {
+  keepAlive.stop();
+  await browserPool.shutdown();
+  process.exit(exitCode);
+}
 
 async function main(): Promise<void> {
   const server = createServer();
@@ -9,11 +19,32 @@ async function main(): Promise<void> {
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
+  // Close the warm browser when the client goes away, so Chromium isn't left running
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    onclose?.();
+    void shutdown();
+  };
+  process.stdin.on('end', () => { void shutdown(); });
+  process.on('SIGINT', () => { void shutdown(); });
+  process.on('SIGTERM', () => { void shutdown(); });
+
+  // Visit the dashboard now and then so the login doesn't go stale between uses
+  const keepAliveMinutes = getKeepAliveMinutes();
+  if (keepAliveMinutes) {
+    keepAlive.start(keepAliveMinutes * 60 * 1000);
+  }
+
   // Log to stderr so it doesn't interfere with MCP communication
   console.error('Focusmate MCP server running on stdio');
 }
 
-main().catch((error) => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-});
+const [command] = process.argv.slice(2);
+if (command && (CLI_COMMANDS.includes(command) || command === '--help')) {
+  runCli(process.argv.slice(2)).then(code => process.exit(code));
+} else {
+  main().catch(async (error) => {
+    console.error('Fatal error:', error);
+    await shutdown(1);
+  });
+}
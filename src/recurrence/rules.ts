@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { getConfigDir } from '../automation/config.js';
+import {
+  RecurrenceRule,
+  type CreateRecurrenceRuleInput,
+  type Weekday
+} from '../schemas/recurrence.js';
+import type { SessionDuration } from '../schemas/session.js';
+import {
+  formatLocalDate,
+  formatZonedDate,
+  getSystemTimeZone,
+  parseLocalDate,
+  zonedTimeToUtc
+} from '../utils/time.js';
+
+const RULES_FILE = 'recurrence-rules.json';
+
+// Indexed by Date.getDay()
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface Occurrence {
+  ruleId: string;
+  startTime: Date;
+  duration: SessionDuration;
+}
+
+function getRulesPath(): string {
+  return path.join(getConfigDir(), RULES_FILE);
+}
+
+export function loadRules(): RecurrenceRule[] {
+  const rulesPath = getRulesPath();
+  if (!fs.existsSync(rulesPath)) {
+    return [];
+  }
+  try {
+    const content = JSON.parse(fs.readFileSync(rulesPath, 'utf-8'));
+    return RecurrenceRule.array().parse(content.rules ?? []);
+  } catch (error) {
+    // Keep the unreadable file for the user to recover rather than overwriting it on the next save
+    const aside = `${rulesPath}.corrupt-${Date.now()}`;
+    fs.renameSync(rulesPath, aside);
+    console.error(`Could not read ${rulesPath}, moved it to ${aside}:`, error);
+    return [];
+  }
+}
+
+function saveRules(rules: RecurrenceRule[]): void {
+  fs.writeFileSync(getRulesPath(), JSON.stringify({ rules }, null, 2), { mode: 0o600 });
+}
+
+export function createRule(
+  input: CreateRecurrenceRuleInput,
+  now: Date = new Date(),
+  timeZone: string = getSystemTimeZone()
+): RecurrenceRule {
+  const rule: RecurrenceRule = {
+    id: `rule-${randomUUID().slice(0, 8)}`,
+    name: input.name,
+    weekdays: [...new Set(input.weekdays)],
+    times: [...new Set(input.times)].sort(),
+    duration: input.duration,
+    startDate: input.startDate ?? formatZonedDate(now, timeZone),
+    endDate: input.endDate,
+    exceptions: [...new Set(input.exceptions)].sort(),
+    createdAt: now.toISOString()
+  };
+
+  if (rule.endDate && rule.endDate < rule.startDate) {
+    throw new Error(`Rule end date ${rule.endDate} is before its start date ${rule.startDate}.`);
+  }
+
+  saveRules([...loadRules(), rule]);
+  return rule;
+}
+
+/** Delete a rule by ID. Returns false if no such rule exists. */
+export function deleteRule(ruleId: string): boolean {
+  const rules = loadRules();
+  const remaining = rules.filter(rule => rule.id !== ruleId);
+  if (remaining.length === rules.length) {
+    return false;
+  }
+  saveRules(remaining);
+  return true;
+}
+
+/**
+ * Expand a rule into concrete session start times in `[from, to)`.
+ * Dates and times are interpreted in `timeZone`, normally the account's.
+ */
+export function expandRule(
+  rule: RecurrenceRule,
+  from: Date,
+  to: Date,
+  timeZone: string = getSystemTimeZone()
+): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  const exceptions = new Set(rule.exceptions);
+
+  // A calendar-day counter; only its date fields are used, so the host's zone doesn't matter
+  const fromDate = formatZonedDate(from, timeZone);
+  const day = parseLocalDate(rule.startDate > fromDate ? rule.startDate : fromDate);
+  const lastDate = formatZonedDate(to, timeZone);
+
+  for (let dateKey = formatLocalDate(day);
+    dateKey <= lastDate && (!rule.endDate || dateKey <= rule.endDate);
+    day.setDate(day.getDate() + 1), dateKey = formatLocalDate(day)) {
+    if (!rule.weekdays.includes(WEEKDAYS[day.getDay()]) || exceptions.has(dateKey)) continue;
+
+    for (const time of rule.times) {
+      const [hours, minutes] = time.split(':').map(Number);
+      const startTime = zonedTimeToUtc(day.getFullYear(), day.getMonth() + 1, day.getDate(), hours, minutes, timeZone);
+      if (startTime >= from && startTime < to) {
+        occurrences.push({ ruleId: rule.id, startTime, duration: rule.duration });
+      }
+    }
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { ErrorDetails } from './error.js';
+import { OccurrenceStatus } from './recurrence.js';
+import { SessionDuration } from './session.js';
+
+export const ExportSessionsIcsInput = z.object({
+  startDate: z.string().datetime().optional().describe('Start of date range (ISO 8601). Defaults to now'),
+  endDate: z.string().datetime().optional().describe('End of date range (ISO 8601). Defaults to 28 days from startDate'),
+  outputPath: z.string().optional()
+    .describe('File to write the calendar to. If omitted, the calendar is returned in the response')
+});
+export type ExportSessionsIcsInput = z.infer<typeof ExportSessionsIcsInput>;
+
+export const ExportSessionsIcsOutput = z.object({
+  success: z.boolean(),
+  sessionCount: z.number().optional(),
+  path: z.string().optional(),
+  ics: z.string().optional(),
+  error: z.string().optional(),
+  ...ErrorDetails.shape
+});
+export type ExportSessionsIcsOutput = z.infer<typeof ExportSessionsIcsOutput>;
+
+export const ImportIcsBlocksInput = z.object({
+  path: z.string().describe('Path to a local .ics file'),
+  pattern: z.string().default('focus')
+    .describe('Case-insensitive regular expression matched against event summaries and categories'),
+  startDate: z.string().datetime().optional().describe('Only book events after this time (ISO 8601). Defaults to now'),
+  endDate: z.string().datetime().optional()
+    .describe('Only book events before this time (ISO 8601). Defaults to 14 days from startDate'),
+  dryRun: z.boolean().default(false).describe('Report the sessions that would be booked without booking them')
+});
+export type ImportIcsBlocksInput = z.infer<typeof ImportIcsBlocksInput>;
+
+export const IcsBlockStatus = z.enum([
+  'planned',    // Sessions would be booked (dry run)
+  'booked',     // Every missing session was booked
+  'partial',    // Some sessions were booked, others failed
+  'covered',    // Existing sessions already cover the block
+  'failed',     // No session could be booked
+  'skipped',    // Not bookable, see reason
+  'unsupported' // Recurring, and recurrences aren't expanded
+]);
+export type IcsBlockStatus = z.infer<typeof IcsBlockStatus>;
+
+export const IcsSessionStatus = z.enum([
+  ...OccurrenceStatus.options,
+  'duplicate'  // Overlaps a session planned for an earlier event
+]);
+export type IcsSessionStatus = z.infer<typeof IcsSessionStatus>;
+
+export const IcsBlockReport = z.object({
+  uid: z.string().optional(),
+  summary: z.string(),
+  start: z.string().datetime(),
+  end: z.string().datetime(),
+  startLocal: z.string().optional(),
+  endLocal: z.string().optional(),
+  status: IcsBlockStatus,
+  reason: z.string().optional(),
+  sessions: z.array(z.object({
+    startTime: z.string().datetime(),
+    startTimeLocal: z.string().optional(),
+    duration: SessionDuration,
+    status: IcsSessionStatus,
+    sessionId: z.string().optional(),
+    error: z.string().optional(),
+    ...ErrorDetails.shape
+  }))
+});
+export type IcsBlockReport = z.infer<typeof IcsBlockReport>;
+
+export const ImportIcsBlocksOutput = z.object({
+  success: z.boolean(),
+  windowStart: z.string().datetime(),
+  windowEnd: z.string().datetime(),
+  timeZone: z.string().optional(),
+  events: z.array(IcsBlockReport),
+  bookedCount: z.number(),
+  existingCount: z.number(),
+  duplicateCount: z.number(),
+  failedCount: z.number(),
+  error: z.string().optional(),
+  ...ErrorDetails.shape
+});
+export type ImportIcsBlocksOutput = z.infer<typeof ImportIcsBlocksOutput>;
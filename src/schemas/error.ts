@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// How a failed call (or a failed item in a batch) went wrong, shared by every tool output
+export const ErrorDetails = z.object({
+  errorCode: z.string().optional(), // FocusmateError code, or a tool-specific one like INVALID_TIME
+  retryable: z.boolean().optional(), // Repeating the same call unchanged may succeed
+  retryAfterSeconds: z.number().optional(), // How long to wait before retrying, when known
+  screenshotPath: z.string().optional() // Screenshot of the page when browser automation failed
+});
+export type ErrorDetails = z.infer<typeof ErrorDetails>;
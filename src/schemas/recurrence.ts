@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { ErrorDetails } from './error.js';
+import { SessionDuration } from './session.js';
+
+// RRULE BYDAY codes
+export const Weekday = z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']);
+export type Weekday = z.infer<typeof Weekday>;
+
+const LocalDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date like 2026-04-01');
+
+const LocalTime = z.string()
+  .regex(/^([01]\d|2[0-3]):(00|15|30|45)$/, 'Expected a 24-hour time on a 15-minute boundary, like 09:00 or 14:45');
+
+export const RecurrenceRule = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  weekdays: z.array(Weekday).min(1),
+  times: z.array(LocalTime).min(1),
+  duration: SessionDuration,
+  startDate: LocalDate,
+  endDate: LocalDate.optional(),
+  exceptions: z.array(LocalDate),
+  createdAt: z.string().datetime()
+});
+export type RecurrenceRule = z.infer<typeof RecurrenceRule>;
+
+export const CreateRecurrenceRuleInput = z.object({
+  name: z.string().optional().describe('Optional label, e.g. "Morning deep work"'),
+  weekdays: z.array(Weekday).min(1).describe('Days the rule applies to, as RRULE codes (MO, TU, WE, TH, FR, SA, SU)'),
+  times: z.array(LocalTime).min(1).describe('Local start times in 24-hour HH:MM format on 15-minute boundaries'),
+  duration: SessionDuration.default('50').describe('Session duration in minutes (25, 50, or 75)'),
+  startDate: LocalDate.optional().describe('First date the rule applies (YYYY-MM-DD). Defaults to today'),
+  endDate: LocalDate.optional().describe('Last date the rule applies (YYYY-MM-DD). Open-ended if omitted'),
+  exceptions: z.array(LocalDate).default([]).describe('Dates (YYYY-MM-DD) to skip, e.g. holidays')
+});
+export type CreateRecurrenceRuleInput = z.infer<typeof CreateRecurrenceRuleInput>;
+
+export const CreateRecurrenceRuleOutput = z.object({
+  success: z.boolean(),
+  rule: RecurrenceRule.optional(),
+  timeZone: z.string().optional(), // Zone rule times are interpreted in
+  error: z.string().optional(),
+  ...ErrorDetails.shape
+});
+export type CreateRecurrenceRuleOutput = z.infer<typeof CreateRecurrenceRuleOutput>;
+
+export const ListRecurrenceRulesOutput = z.object({
+  rules: z.array(RecurrenceRule),
+  totalCount: z.number()
+});
+export type ListRecurrenceRulesOutput = z.infer<typeof ListRecurrenceRulesOutput>;
+
+export const DeleteRecurrenceRuleInput = z.object({
+  ruleId: z.string().describe('The ID of the rule to delete')
+});
+export type DeleteRecurrenceRuleInput = z.infer<typeof DeleteRecurrenceRuleInput>;
+
+export const DeleteRecurrenceRuleOutput = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  ...ErrorDetails.shape
+});
+export type DeleteRecurrenceRuleOutput = z.infer<typeof DeleteRecurrenceRuleOutput>;
+
+export const MaterializeRulesInput = z.object({
+  horizonDays: z.number().int().min(1).max(28).default(14)
+    .describe('How many days ahead to book occurrences for'),
+  ruleIds: z.array(z.string()).optional().describe('Only materialize these rules. Defaults to all rules'),
+  dryRun: z.boolean().default(false).describe('Report the occurrences that would be booked without booking them')
+});
+export type MaterializeRulesInput = z.infer<typeof MaterializeRulesInput>;
+
+export const OccurrenceStatus = z.enum([
+  'planned',   // Would be booked (dry run)
+  'booked',    // Booked by this run
+  'existing',  // Already covered by an existing session
+  'failed'     // Booking attempted but failed
+]);
+export type OccurrenceStatus = z.infer<typeof OccurrenceStatus>;
+
+export const MaterializedOccurrence = z.object({
+  ruleId: z.string(),
+  startTime: z.string().datetime(),
+  startTimeLocal: z.string().optional(),
+  duration: SessionDuration,
+  status: OccurrenceStatus,
+  sessionId: z.string().optional(),
+  error: z.string().optional(),
+  ...ErrorDetails.shape
+});
+export type MaterializedOccurrence = z.infer<typeof MaterializedOccurrence>;
+
+export const MaterializeRulesOutput = z.object({
+  success: z.boolean(),
+  horizonStart: z.string().datetime(),
+  horizonEnd: z.string().datetime(),
+  timeZone: z.string().optional(), // Zone rule times are interpreted in
+  occurrences: z.array(MaterializedOccurrence),
+  bookedCount: z.number(),
+  existingCount: z.number(),
+  failedCount: z.number(),
+  error: z.string().optional(),
+  ...ErrorDetails.shape
+});
+export type MaterializeRulesOutput = z.infer<typeof MaterializeRulesOutput>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { ErrorDetails } from './error.js';
 
 export const SessionDuration = z.enum(['25', '50', '75']);
 export type SessionDuration = z.infer<typeof SessionDuration>;
@@ -13,20 +14,52 @@ export const SessionStatus = z.enum([
 ]);
 export type SessionStatus = z.infer<typeof SessionStatus>;
 
+export const SessionParticipant = z.object({
+  userId: z.string(),
+  requestedAt: z.string().datetime(),
+  joinedAt: z.string().datetime().nullable(),
+  completed: z.boolean()
+});
+export type SessionParticipant = z.infer<typeof SessionParticipant>;
+
 export const Session = z.object({
   id: z.string(),
   startTime: z.string().datetime(),
   endTime: z.string().datetime(),
+  // Wall-clock times with UTC offset in the account's time zone, e.g. 2026-04-01T09:00:00-04:00
+  startTimeLocal: z.string().optional(),
+  endTimeLocal: z.string().optional(),
   duration: z.number(), // minutes
   status: SessionStatus,
+  noShowBy: z.enum(['me', 'partner', 'both']).optional(), // Set when status is no_show
   partnerId: z.string().nullable(),
   partnerName: z.string().nullable(),
-  title: z.string().optional()
+  partnerPhotoUrl: z.string().optional(),
+  partnerTimeZone: z.string().optional(),
+  title: z.string().optional(),
+  // Attendance details, only available from the API
+  me: SessionParticipant.optional(),
+  partner: SessionParticipant.nullable().optional()
 });
 export type Session = z.infer<typeof Session>;
 
+// How a natural-language or offset-less time was read, returned for confirmation
+export const TimeInterpretation = z.object({
+  input: z.string(),
+  startTime: z.string().datetime(),
+  startTimeLocal: z.string(),
+  endTime: z.string().datetime().optional(),
+  endTimeLocal: z.string().optional(),
+  weekdays: z.array(z.string()).optional(), // Only sessions on these days
+  timeOfDay: z.object({ start: z.string(), end: z.string() }).optional(), // Only sessions starting in this window
+  description: z.string()
+});
+export type TimeInterpretation = z.infer<typeof TimeInterpretation>;
+
 export const BookSessionInput = z.object({
-  startTime: z.string().datetime().describe('ISO 8601 datetime for session start'),
+  startTime: z.string().min(1).describe(
+    'Session start: an ISO 8601 datetime, or a phrase in your time zone like "tomorrow 9am" or "next Tuesday at 14:30"'
+  ),
   duration: SessionDuration.default('50').describe('Session duration in minutes (25, 50, or 75)')
 });
 export type BookSessionInput = z.infer<typeof BookSessionInput>;
@@ -34,38 +67,252 @@ export type BookSessionInput = z.infer<typeof BookSessionInput>;
 export const BookSessionOutput = z.object({
   success: z.boolean(),
   session: Session.optional(),
+  timeZone: z.string().optional(),
+  interpretation: TimeInterpretation.optional(),
   error: z.string().optional(),
-  errorCode: z.string().optional()
+  ...ErrorDetails.shape
 });
 export type BookSessionOutput = z.infer<typeof BookSessionOutput>;
 
+export const BookSessionsInput = z.object({
+  sessions: z.array(z.object({
+    startTime: z.string().datetime().describe('ISO 8601 datetime for session start'),
+    duration: BookSessionInput.shape.duration
+  }))
+    .min(1)
+    .max(30)
+    .describe('Sessions to book in a single browser pass')
+});
+export type BookSessionsInput = z.infer<typeof BookSessionsInput>;
+
+export const BookSlotResult = z.object({
+  startTime: z.string(),
+  startTimeLocal: z.string().optional(),
+  duration: SessionDuration,
+  success: z.boolean(),
+  session: Session.optional(),
+  error: z.string().optional(),
+  ...ErrorDetails.shape
+});
+export type BookSlotResult = z.infer<typeof BookSlotResult>;
+
+export const BookSessionsOutput = z.object({
+  results: z.array(BookSlotResult),
+  bookedCount: z.number(),
+  failedCount: z.number(),
+  timeZone: z.string().optional()
+});
+export type BookSessionsOutput = z.infer<typeof BookSessionsOutput>;
+
+export const SlotAvailability = z.enum([
+  'partner_waiting', // Someone is already booked and waiting; booking matches you right away
+  'open',            // Bookable, but you'll wait for a partner to be matched
+  'unavailable'      // The calendar won't accept a booking here
+]);
+export type SlotAvailability = z.infer<typeof SlotAvailability>;
+
+export const AvailableSlot = z.object({
+  startTime: z.string().datetime(),
+  startTimeLocal: z.string(),
+  endTime: z.string().datetime(),
+  availability: SlotAvailability,
+  partnersWaiting: z.number().optional()
+});
+export type AvailableSlot = z.infer<typeof AvailableSlot>;
+
+export const FindAvailableSlotsInput = z.object({
+  startDate: z.string().min(1).describe(
+    'Start of the range to search, as ISO 8601 or a phrase like "tomorrow", "tomorrow 9am-noon" or ' +
+    '"weekdays 8-11am". Phrases naming a span also set the end'
+  ),
+  endDate: z.string().min(1).optional()
+    .describe('End of the range, ISO 8601 or a phrase. Defaults to 24 hours after startDate; at most 14 days'),
+  duration: SessionDuration.default('50').describe('Session duration in minutes (25, 50, or 75)')
+});
+export type FindAvailableSlotsInput = z.infer<typeof FindAvailableSlotsInput>;
+
+export const FindAvailableSlotsOutput = z.object({
+  success: z.boolean(),
+  slots: z.array(AvailableSlot),
+  skippedCount: z.number(), // Slots left out because they overlap your own sessions
+  duration: SessionDuration,
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  timeZone: z.string().optional(),
+  interpretation: TimeInterpretation.optional(),
+  error: z.string().optional(),
+  ...ErrorDetails.shape
+});
+export type FindAvailableSlotsOutput = z.infer<typeof FindAvailableSlotsOutput>;
+
 export const CancelSessionInput = z.object({
-  sessionId: z.string().describe('The ID of the session to cancel')
+  sessionId: z.string().optional().describe('The ID of the session to cancel'),
+  startTime: z.string().min(1).optional().describe(
+    'Instead of sessionId: start of the session to cancel, as ISO 8601 or a phrase like "tomorrow 3pm"'
+  ),
+  duration: SessionDuration.optional().describe('With startTime: only match a session of this duration')
 });
 export type CancelSessionInput = z.infer<typeof CancelSessionInput>;
 
+// An upcoming session card on the dashboard that matched a cancellation by time
+export const SessionCandidate = z.object({
+  sessionId: z.string().optional(),
+  date: z.string().optional(), // YYYY-MM-DD in the account's zone, when the card shows one
+  timeRange: z.string(), // As shown on the card, e.g. "3:00pm - 3:50pm"
+  duration: z.number(),
+  label: z.string() // The card's text on one line
+});
+export type SessionCandidate = z.infer<typeof SessionCandidate>;
+
 export const CancelSessionOutput = z.object({
   success: z.boolean(),
   message: z.string(),
-  errorCode: z.string().optional()
+  sessionId: z.string().optional(),
+  candidates: z.array(SessionCandidate).optional(), // Set when a time matched more than one session
+  timeZone: z.string().optional(),
+  interpretation: TimeInterpretation.optional(),
+  ...ErrorDetails.shape
 });
 export type CancelSessionOutput = z.infer<typeof CancelSessionOutput>;
 
+export const RescheduleSessionInput = z.object({
+  sessionId: z.string().describe('The ID of the session to move'),
+  newStartTime: z.string().min(1).describe(
+    'New start: an ISO 8601 datetime, or a phrase in your time zone like "tomorrow 9am"'
+  ),
+  duration: SessionDuration.optional()
+    .describe('Duration of the new session in minutes. Defaults to the current session\'s, or 50 if unknown')
+});
+export type RescheduleSessionInput = z.infer<typeof RescheduleSessionInput>;
+
+export const RescheduleStep = z.enum([
+  'validate', // Checking the new time; nothing was changed
+  'book',     // Booking the new slot; the original session is untouched
+  'cancel'    // Cancelling the original after the new slot was booked
+]);
+export type RescheduleStep = z.infer<typeof RescheduleStep>;
+
+export const RescheduleSessionOutput = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  originalSessionId: z.string(),
+  newSession: Session.optional(),
+  failedStep: RescheduleStep.optional(),
+  // When cancelling the original failed: whether the new booking was cancelled again
+  rolledBack: z.boolean().optional(),
+  timeZone: z.string().optional(),
+  interpretation: TimeInterpretation.optional(),
+  error: z.string().optional(),
+  ...ErrorDetails.shape
+});
+export type RescheduleSessionOutput = z.infer<typeof RescheduleSessionOutput>;
+
 export const ListSessionsInput = z.object({
-  startDate: z.string().datetime().describe('Start of date range (ISO 8601)'),
-  endDate: z.string().datetime().optional().describe('End of date range (ISO 8601). Defaults to 7 days from startDate')
+  startDate: z.string().min(1).describe(
+    'Start of date range as ISO 8601, or a phrase in your time zone like "today", "this week", ' +
+    '"next 14 days" or "weekdays 8-11am". Phrases naming a span also set the end'
+  ),
+  endDate: z.string().min(1).optional()
+    .describe('End of date range, ISO 8601 or a phrase like "friday". Defaults to 7 days from startDate'),
+  limit: z.number().int().min(1).max(500).optional()
+    .describe('Maximum sessions to return. If more match, nextCursor fetches the next page'),
+  cursor: z.string().optional().describe('nextCursor from a previous call with the same date range'),
+  refresh: z.boolean().default(false)
+    .describe('Re-fetch the whole range from Focusmate instead of only what changed since the last sync')
 });
 export type ListSessionsInput = z.infer<typeof ListSessionsInput>;
 
 export const ListSessionsOutput = z.object({
   sessions: z.array(Session),
-  totalCount: z.number()
+  totalCount: z.number(), // All sessions in the range, not just this page
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  nextCursor: z.string().optional(),
+  interpretation: TimeInterpretation.optional(),
+  timeZone: z.string().optional(), // Zone of the startTimeLocal and endTimeLocal fields
+  source: z.enum(['api', 'cache', 'browser']).optional(), // Where the sessions were read from
+  syncedAt: z.string().datetime().optional(), // Last sync of the local store with Focusmate
+  warning: z.string().optional(),
+  error: z.string().optional(),
+  ...ErrorDetails.shape
 });
 export type ListSessionsOutput = z.infer<typeof ListSessionsOutput>;
 
+export const PartnerProfile = z.object({
+  userId: z.string(),
+  name: z.string(),
+  photoUrl: z.string().optional(),
+  timeZone: z.string().optional(),
+  totalSessionCount: z.number().optional(),
+  fetchedAt: z.string().datetime()
+});
+export type PartnerProfile = z.infer<typeof PartnerProfile>;
+
+export const GetPartnerProfileInput = z.object({
+  userId: z.string().describe('Focusmate user ID of the partner, as returned in partnerId by list_sessions'),
+  refresh: z.boolean().default(false).describe('Bypass the local cache and fetch the profile from the API')
+});
+export type GetPartnerProfileInput = z.infer<typeof GetPartnerProfileInput>;
+
+export const GetPartnerProfileOutput = z.object({
+  success: z.boolean(),
+  profile: PartnerProfile.optional(),
+  cached: z.boolean().optional(),
+  error: z.string().optional(),
+  ...ErrorDetails.shape
+});
+export type GetPartnerProfileOutput = z.infer<typeof GetPartnerProfileOutput>;
+
 export const AuthOutput = z.object({
   success: z.boolean(),
   message: z.string(),
-  errorCode: z.string().optional()
+  ...ErrorDetails.shape
 });
 export type AuthOutput = z.infer<typeof AuthOutput>;
+
+export const AuthStatusInput = z.object({
+  probe: z.boolean()
+    .default(false)
+    .describe('Load the dashboard to confirm the login even if the saved token looks valid')
+});
+export type AuthStatusInput = z.infer<typeof AuthStatusInput>;
+
+export const AuthStatusOutput = z.object({
+  authenticated: z.boolean(), // Browser automation will work without logging in again
+  message: z.string(),
+  browser: z.object({
+    state: z.enum(['valid', 'expired', 'missing', 'unknown']),
+    checkedBy: z.enum(['none', 'token', 'probe']),
+    userId: z.string().optional(), // Firebase uid
+    email: z.string().optional(),
+    name: z.string().optional(),
+    tokenExpiresAt: z.string().datetime().optional(), // ID token expiry; refreshed while the login lasts
+    error: z.string().optional()
+  }),
+  apiKey: z.object({
+    state: z.enum(['valid', 'invalid', 'missing', 'unknown']),
+    userId: z.string().optional(),
+    name: z.string().optional(),
+    timeZone: z.string().optional(),
+    error: z.string().optional()
+  }),
+  // The background keep-alive's last visit, when it has run
+  keepAlive: z.object({
+    lastRefreshAt: z.string().datetime().optional(),
+    lastCheckAt: z.string().datetime().optional(),
+    reauthRequired: z.boolean()
+  }).optional()
+});
+export type AuthStatusOutput = z.infer<typeof AuthStatusOutput>;
+
+export const ExportAuthStateInput = z.object({
+  path: z.string().describe('File to write the encrypted login to'),
+  passphrase: z.string().describe('Passphrase to encrypt the file with, at least 8 characters; needed again to import it')
+});
+export type ExportAuthStateInput = z.infer<typeof ExportAuthStateInput>;
+
+export const ImportAuthStateInput = z.object({
+  path: z.string().describe('File written by export_auth_state'),
+  passphrase: z.string().describe('Passphrase the file was exported with')
+});
+export type ImportAuthStateInput = z.infer<typeof ImportAuthStateInput>;
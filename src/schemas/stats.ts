@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { ErrorDetails } from './error.js';
+
+export const GetSessionStatsInput = z.object({
+  startDate: z.string().datetime().optional().describe('Start of date range (ISO 8601). Defaults to 30 days before endDate'),
+  endDate: z.string().datetime().optional().describe('End of date range (ISO 8601). Defaults to now')
+});
+export type GetSessionStatsInput = z.infer<typeof GetSessionStatsInput>;
+
+export const StatsBucket = z.object({
+  sessions: z.number(),
+  completed: z.number(),
+  focusMinutes: z.number()
+});
+export type StatsBucket = z.infer<typeof StatsBucket>;
+
+export const WeeklyStats = StatsBucket.extend({
+  weekStart: z.string(), // Local date of the Monday starting the week
+  focusMinutesChange: z.number().nullable(), // vs. the previous week
+  focusMinutesChangePct: z.number().nullable()
+});
+export type WeeklyStats = z.infer<typeof WeeklyStats>;
+
+export const SessionStats = z.object({
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+  timeZone: z.string(), // Zone days, weekdays and hours are bucketed in
+  totalSessions: z.number(),
+  completedSessions: z.number(),
+  noShowSessions: z.number(),
+  upcomingSessions: z.number(),
+  focusMinutes: z.number(),
+  completionRate: z.number().nullable(), // completed / finished sessions
+  noShowRate: z.number().nullable(),
+  noShowsByMe: z.number(),
+  noShowsByPartner: z.number(),
+  currentStreakDays: z.number(),
+  longestStreakDays: z.number(),
+  byWeekday: z.record(StatsBucket),
+  byHour: z.record(StatsBucket), // Keyed by local start hour, e.g. "09:00"
+  byDuration: z.record(StatsBucket),
+  weekly: z.array(WeeklyStats)
+});
+export type SessionStats = z.infer<typeof SessionStats>;
+
+export const GetSessionStatsOutput = z.object({
+  success: z.boolean(),
+  stats: SessionStats.optional(),
+  error: z.string().optional(),
+  ...ErrorDetails.shape
+});
+export type GetSessionStatsOutput = z.infer<typeof GetSessionStatsOutput>;
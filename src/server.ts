@@ -1,20 +1,69 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { browserPool } from './automation/browser-pool.js';
+import { keepAlive } from './automation/keep-alive.js';
 import { registerFocusmateAuthTool } from './tools/focusmate-auth.js';
+import { registerAuthStatusTool } from './tools/auth-status.js';
+import { registerAuthStateTools } from './tools/auth-state.js';
 import { registerBookSessionTool } from './tools/book-session.js';
+import { registerBookSessionsTool } from './tools/book-sessions.js';
 import { registerCancelSessionTool } from './tools/cancel-session.js';
+import { registerRescheduleSessionTool } from './tools/reschedule-session.js';
 import { registerListSessionsTool } from './tools/list-sessions.js';
+import { registerGetPartnerProfileTool } from './tools/get-partner-profile.js';
+import { registerGetSessionStatsTool } from './tools/get-session-stats.js';
+import { registerRecurrenceRuleTools } from './tools/recurrence-rules.js';
+import { registerMaterializeRulesTool } from './tools/materialize-rules.js';
+import { registerExportSessionsIcsTool } from './tools/export-sessions-ics.js';
+import { registerImportIcsBlocksTool } from './tools/import-ics-blocks.js';
+import { registerFindAvailableSlotsTool } from './tools/find-available-slots.js';
 
 export function createServer(): McpServer {
-  const server = new McpServer({
-    name: 'focusmate-mcp',
-    version: '1.0.0'
+  const server = new McpServer(
+    {
+      name: 'focusmate-mcp',
+      version: '1.0.0'
+    },
+    { capabilities: { logging: {} } }
+  );
+
+  // Tell the client when a tool call is queued behind another browser operation
+  const stopWaitNotices = browserPool.onWait(wait => {
+    if (!server.isConnected()) return;
+    server.sendLoggingMessage({ level: 'info', logger: 'browser', data: wait.message }).catch(() => {
+      // The client may have gone away; the wait is logged to stderr anyway
+    });
+  });
+
+  // Tell the client when the background keep-alive finds the login has expired
+  const stopReauthNotices = keepAlive.onReauthRequired(message => {
+    if (!server.isConnected()) return;
+    server.sendLoggingMessage({ level: 'warning', logger: 'auth', data: message }).catch(() => {
+      // The client may have gone away; auth_status reports it too
+    });
   });
 
+  // The pool and keep-alive outlive this server, so stop notifying it once it closes
+  server.server.onclose = () => {
+    stopWaitNotices();
+    stopReauthNotices();
+  };
+
   // Register all tools
   registerFocusmateAuthTool(server);
+  registerAuthStatusTool(server);
+  registerAuthStateTools(server);
   registerBookSessionTool(server);
+  registerBookSessionsTool(server);
   registerCancelSessionTool(server);
+  registerRescheduleSessionTool(server);
   registerListSessionsTool(server);
+  registerGetPartnerProfileTool(server);
+  registerGetSessionStatsTool(server);
+  registerRecurrenceRuleTools(server);
+  registerMaterializeRulesTool(server);
+  registerExportSessionsIcsTool(server);
+  registerImportIcsBlocksTool(server);
+  registerFindAvailableSlotsTool(server);
 
   return server;
 }
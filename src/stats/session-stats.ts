@@ -0,0 +1,159 @@
+import type { Session } from '../schemas/session.js';
+import type { SessionStats, StatsBucket, WeeklyStats } from '../schemas/stats.js';
+import {
+  formatLocalDate,
+  formatZonedDate,
+  getSystemTimeZone,
+  getZonedParts,
+  parseLocalDate
+} from '../utils/time.js';
+
+const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function emptyBucket(): StatsBucket {
+  return { sessions: 0, completed: 0, focusMinutes: 0 };
+}
+
+function addToBucket(bucket: StatsBucket, session: Session): void {
+  bucket.sessions++;
+  if (session.status === 'completed') {
+    bucket.completed++;
+    bucket.focusMinutes += session.duration;
+  }
+}
+
+/** Date in `timeZone` of the Monday on or before `date`. */
+function weekStartOf(date: Date, timeZone: string): string {
+  // Plain calendar arithmetic on the zoned date, so the host's zone doesn't matter
+  const monday = parseLocalDate(formatZonedDate(date, timeZone));
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return formatLocalDate(monday);
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole === 0 ? null : Math.round((part / whole) * 1000) / 1000;
+}
+
+/**
+ * Streaks are runs of consecutive days with at least one completed session.
+ * The current streak still counts if today has no session yet.
+ */
+function computeStreaks(
+  completedDays: Set<string>,
+  now: Date,
+  timeZone: string
+): { current: number; longest: number } {
+  const days = [...completedDays].sort();
+  let longest = 0;
+  let run = 0;
+  let previous: Date | undefined;
+
+  for (const day of days) {
+    const date = parseLocalDate(day);
+    run = previous && Math.round((date.getTime() - previous.getTime()) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  }
+
+  const cursor = parseLocalDate(formatZonedDate(now, timeZone));
+  if (!completedDays.has(formatLocalDate(cursor))) {
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  let current = 0;
+  while (completedDays.has(formatLocalDate(cursor))) {
+    current++;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+
+  return { current, longest };
+}
+
+function computeWeekly(sessions: Session[], timeZone: string): WeeklyStats[] {
+  const weeks = new Map<string, StatsBucket>();
+  for (const session of sessions) {
+    const key = weekStartOf(new Date(session.startTime), timeZone);
+    if (!weeks.has(key)) weeks.set(key, emptyBucket());
+    addToBucket(weeks.get(key)!, session);
+  }
+
+  let previous: StatsBucket | undefined;
+  return [...weeks.keys()].sort().map(weekStart => {
+    const bucket = weeks.get(weekStart)!;
+    const change = previous ? bucket.focusMinutes - previous.focusMinutes : null;
+    const week: WeeklyStats = {
+      weekStart,
+      ...bucket,
+      focusMinutesChange: change,
+      focusMinutesChangePct: previous && change !== null ? ratio(change, previous.focusMinutes) : null
+    };
+    previous = bucket;
+    return week;
+  });
+}
+
+/**
+ * Summarise sessions in `[start, end)`: totals, completion and no-show rates,
+ * daily streaks, and breakdowns by weekday, hour, duration and week.
+ * Days and hours are in `timeZone`, normally the account's.
+ */
+export function computeSessionStats(
+  sessions: Session[],
+  start: Date,
+  end: Date,
+  now: Date = new Date(),
+  timeZone: string = getSystemTimeZone()
+): SessionStats {
+  const inRange = sessions.filter(session => {
+    const startTime = new Date(session.startTime);
+    return session.status !== 'cancelled' && startTime >= start && startTime < end;
+  });
+
+  const completed = inRange.filter(s => s.status === 'completed');
+  const noShows = inRange.filter(s => s.status === 'no_show');
+  const finished = completed.length + noShows.length;
+
+  const byWeekday: Record<string, StatsBucket> = Object.fromEntries(WEEKDAY_NAMES.map(d => [d, emptyBucket()]));
+  const byHour: Record<string, StatsBucket> = {};
+  const byDuration: Record<string, StatsBucket> = { '25': emptyBucket(), '50': emptyBucket(), '75': emptyBucket() };
+
+  for (const session of inRange) {
+    const { weekday, hours } = getZonedParts(new Date(session.startTime), timeZone);
+    addToBucket(byWeekday[WEEKDAY_NAMES[(weekday + 6) % 7]], session);
+
+    const hour = `${hours.toString().padStart(2, '0')}:00`;
+    byHour[hour] ??= emptyBucket();
+    addToBucket(byHour[hour], session);
+
+    const duration = String(session.duration);
+    byDuration[duration] ??= emptyBucket();
+    addToBucket(byDuration[duration], session);
+  }
+
+  const streaks = computeStreaks(
+    new Set(completed.map(s => formatZonedDate(new Date(s.startTime), timeZone))),
+    now,
+    timeZone
+  );
+
+  return {
+    startDate: start.toISOString(),
+    endDate: end.toISOString(),
+    timeZone,
+    totalSessions: inRange.length,
+    completedSessions: completed.length,
+    noShowSessions: noShows.length,
+    upcomingSessions: inRange.filter(s => new Date(s.startTime) > now).length,
+    focusMinutes: completed.reduce((sum, s) => sum + s.duration, 0),
+    completionRate: ratio(completed.length, finished),
+    noShowRate: ratio(noShows.length, finished),
+    noShowsByMe: noShows.filter(s => s.noShowBy === 'me' || s.noShowBy === 'both').length,
+    noShowsByPartner: noShows.filter(s => s.noShowBy === 'partner' || s.noShowBy === 'both').length,
+    currentStreakDays: streaks.current,
+    longestStreakDays: streaks.longest,
+    byWeekday,
+    byHour: Object.fromEntries(Object.entries(byHour).sort(([a], [b]) => a.localeCompare(b))),
+    byDuration,
+    weekly: computeWeekly(inRange, timeZone)
+  };
+}
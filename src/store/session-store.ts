@@ -0,0 +1,194 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { getConfigDir } from '../automation/config.js';
+import { Session } from '../schemas/session.js';
+
+const STORE_FILE = 'sessions.json';
+
+// Sessions starting this long before a sync had ended (the longest is 75
+// minutes) and had their attendance recorded, so later syncs can skip them
+const SETTLE_MS = 2 * 60 * 60 * 1000;
+
+const SyncCursor = z.object({
+  // Every session starting in [from, through) is stored with its final status
+  from: z.string().datetime(),
+  through: z.string().datetime()
+});
+type SyncCursor = z.infer<typeof SyncCursor>;
+
+interface StoreData {
+  syncedAt?: string;
+  cursor?: SyncCursor;
+  sessions: Session[];
+}
+
+export interface SyncResult {
+  sessions: Session[];
+  /** Start of the range fetched from Focusmate, or undefined if the store already covered it */
+  fetchedFrom?: string;
+  syncedAt?: string;
+}
+
+type FetchSessions = (start: Date, end: Date) => Promise<Session[]>;
+
+function getStorePath(): string {
+  return path.join(getConfigDir(), STORE_FILE);
+}
+
+function loadStore(): StoreData {
+  const storePath = getStorePath();
+  if (!fs.existsSync(storePath)) {
+    return { sessions: [] };
+  }
+  try {
+    const content = JSON.parse(fs.readFileSync(storePath, 'utf-8'));
+    const cursor = SyncCursor.safeParse(content.cursor);
+    const sessions: Session[] = [];
+    for (const entry of content.sessions ?? []) {
+      const parsed = Session.safeParse(entry);
+      if (parsed.success) sessions.push(parsed.data);
+    }
+    return {
+      syncedAt: typeof content.syncedAt === 'string' ? content.syncedAt : undefined,
+      cursor: cursor.success ? cursor.data : undefined,
+      sessions
+    };
+  } catch {
+    return { sessions: [] };
+  }
+}
+
+function saveStore(store: StoreData): void {
+  const sessions = [...store.sessions].sort(byStartTime);
+  fs.writeFileSync(getStorePath(), JSON.stringify({ ...store, sessions }, null, 2), { mode: 0o600 });
+}
+
+function byStartTime(a: Session, b: Session): number {
+  return new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
+}
+
+function overlaps(session: Session, start: Date, end: Date): boolean {
+  return new Date(session.startTime) < end && new Date(session.endTime) > start;
+}
+
+/** Stored sessions overlapping `[start, end)`, oldest first. */
+export function getStoredSessions(start: Date, end: Date): Session[] {
+  return loadStore().sessions
+    .filter(session => overlaps(session, start, end))
+    .sort(byStartTime);
+}
+
+/** A stored session by ID, if it's known. */
+export function getStoredSession(sessionId: string): Session | undefined {
+  return loadStore().sessions.find(session => session.id === sessionId);
+}
+
+/** When the store was last synced with Focusmate, if ever. */
+export function getLastSyncedAt(): string | undefined {
+  return loadStore().syncedAt;
+}
+
+/** Add or update sessions, e.g. ones just booked. */
+export function recordSessions(sessions: Session[]): void {
+  if (sessions.length === 0) return;
+
+  const store = loadStore();
+  const byId = new Map(store.sessions.map(session => [session.id, session]));
+  for (const session of sessions) {
+    byId.set(session.id, session);
+  }
+  saveStore({ ...store, sessions: [...byId.values()] });
+}
+
+/** Mark a stored session as cancelled. Returns false if it isn't stored. */
+export function markCancelled(sessionId: string): boolean {
+  const store = loadStore();
+  const session = store.sessions.find(s => s.id === sessionId);
+  if (!session) {
+    return false;
+  }
+  session.status = 'cancelled';
+  saveStore(store);
+  return true;
+}
+
+/**
+ * Bring the store up to date for `[start, end)` and return its sessions.
+ *
+ * Only the part of the range after the sync cursor is fetched, since sessions
+ * before it can no longer change. `refresh` fetches the whole range. Stored
+ * sessions in the fetched range that Focusmate no longer returns are kept as
+ * cancelled, except placeholders from bookings whose real session has since
+ * appeared at the same time.
+ */
+export async function syncSessions(
+  start: Date,
+  end: Date,
+  fetchSessions: FetchSessions,
+  options: { refresh?: boolean; now?: Date } = {}
+): Promise<SyncResult> {
+  const now = options.now ?? new Date();
+  const store = loadStore();
+  const cursor = store.cursor;
+
+  let fetchStart = start;
+  if (!options.refresh && cursor && start >= new Date(cursor.from)) {
+    const through = new Date(cursor.through);
+    if (through > fetchStart) fetchStart = through;
+  }
+
+  if (fetchStart >= end) {
+    return { sessions: getStoredSessions(start, end), syncedAt: store.syncedAt };
+  }
+
+  const fetched = await fetchSessions(fetchStart, end);
+  const fetchedIds = new Set(fetched.map(session => session.id));
+  const fetchedStarts = new Set(fetched.map(session => new Date(session.startTime).getTime()));
+
+  const kept: Session[] = [];
+  for (const session of store.sessions) {
+    const startTime = new Date(session.startTime);
+    if (fetchedIds.has(session.id)) continue;
+    if (startTime < fetchStart || startTime >= end) {
+      kept.push(session);
+    } else if (!fetchedStarts.has(startTime.getTime())) {
+      kept.push({ ...session, status: 'cancelled' });
+    }
+  }
+
+  const settledEnd = new Date(Math.min(end.getTime(), now.getTime() - SETTLE_MS));
+  store.syncedAt = now.toISOString();
+  store.cursor = advanceCursor(cursor, fetchStart, settledEnd);
+  store.sessions = [...kept, ...fetched];
+  saveStore(store);
+
+  return {
+    sessions: getStoredSessions(start, end),
+    fetchedFrom: fetchStart.toISOString(),
+    syncedAt: store.syncedAt
+  };
+}
+
+/** Extend the cursor with a newly settled range, if it joins up with the old one. */
+function advanceCursor(
+  cursor: SyncCursor | undefined,
+  from: Date,
+  through: Date
+): SyncCursor | undefined {
+  if (!cursor) {
+    return through > from ? { from: from.toISOString(), through: through.toISOString() } : undefined;
+  }
+
+  const oldFrom = new Date(cursor.from);
+  const oldThrough = new Date(cursor.through);
+  if (through <= from || from > oldThrough || through < oldFrom) {
+    // Nothing settled, or a disjoint range: keep the existing cursor
+    return cursor;
+  }
+
+  return {
+    from: (from < oldFrom ? from : oldFrom).toISOString(),
+    through: (through > oldThrough ? through : oldThrough).toISOString()
+  };
+}
@@ -0,0 +1,78 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { checkPassphrase, exportAuthState, readAuthStateFile, restoreAuthState } from '../automation/auth-state.js';
+import type { StorageState } from '../automation/storage-state.js';
+import { AuthOutput, ExportAuthStateInput, ImportAuthStateInput } from '../schemas/session.js';
+import { FocusmateError } from '../utils/errors.js';
+import { describeError, toolResult } from './result.js';
+
+function respond(output: AuthOutput): CallToolResult {
+  return toolResult(output);
+}
+
+/** Report `error`, with `fallbackCode` unless it is a FocusmateError with its own code. */
+function failure(error: unknown, fallbackCode: string): CallToolResult {
+  return respond({ success: false, ...describeError(error, fallbackCode) });
+}
+
+export function registerAuthStateTools(server: McpServer): void {
+  server.registerTool(
+    'export_auth_state',
+    {
+      description: 'Save the current Focusmate login (cookies, local storage and Firebase auth records) to a ' +
+        'passphrase-encrypted file, to restore on another machine with import_auth_state. The login is checked ' +
+        'against the dashboard first.',
+      inputSchema: {
+        path: ExportAuthStateInput.shape.path,
+        passphrase: ExportAuthStateInput.shape.passphrase
+      },
+      outputSchema: AuthOutput.shape
+    },
+    async ({ path, passphrase }): Promise<CallToolResult> => {
+      try {
+        checkPassphrase(passphrase);
+      } catch (error) {
+        return failure(error, 'INVALID_INPUT');
+      }
+
+      try {
+        await exportAuthState(path, passphrase);
+      } catch (error) {
+        if (error instanceof FocusmateError) {
+          return respond({ success: false, ...describeError(error) });
+        }
+        // Anything else with an errno came from writing the file
+        return failure(error, error instanceof Error && 'errno' in error ? 'FILE_ERROR' : 'AUTOMATION_FAILED');
+      }
+      return respond({ success: true, message: `Saved the encrypted login to ${path}.` });
+    }
+  );
+
+  server.registerTool(
+    'import_auth_state',
+    {
+      description: 'Replace the saved Focusmate login with one saved by export_auth_state, then check that the ' +
+        'dashboard loads.',
+      inputSchema: {
+        path: ImportAuthStateInput.shape.path,
+        passphrase: ImportAuthStateInput.shape.passphrase
+      },
+      outputSchema: AuthOutput.shape
+    },
+    async ({ path, passphrase }): Promise<CallToolResult> => {
+      let state: StorageState;
+      try {
+        state = readAuthStateFile(path, passphrase);
+      } catch (error) {
+        return failure(error, 'INVALID_INPUT');
+      }
+
+      try {
+        await restoreAuthState(state);
+      } catch (error) {
+        return respond({ success: false, ...describeError(error) });
+      }
+      return respond({ success: true, message: `Restored the login from ${path}.` });
+    }
+  );
+}
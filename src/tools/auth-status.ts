@@ -0,0 +1,67 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { checkApiKey, checkBrowserAuth, type ApiKeyStatus, type BrowserAuthStatus } from '../automation/auth-status.js';
+import { loadKeepAliveState } from '../automation/keep-alive.js';
+import { AuthStatusInput, AuthStatusOutput } from '../schemas/session.js';
+import { toolResult } from './result.js';
+
+function describe(browser: BrowserAuthStatus, apiKey: ApiKeyStatus): string {
+  const login = browser.state === 'valid'
+    ? `Logged in${browser.user?.email ? ` as ${browser.user.email}` : ''}.`
+    : browser.state === 'expired' ? 'The saved login has expired; run focusmate_auth to log in again.'
+    : browser.state === 'missing' ? 'Not logged in; run focusmate_auth to log in.'
+    : `Could not check the saved login: ${browser.error}`;
+
+  const key = apiKey.state === 'valid' ? `The API key belongs to ${apiKey.user?.name}.`
+    : apiKey.state === 'invalid' ? 'The API key in config.json was rejected.'
+    : apiKey.state === 'missing' ? 'No API key is configured, so session lists come from the browser.'
+    : `Could not check the API key: ${apiKey.error}`;
+
+  return `${login} ${key}`;
+}
+
+export function registerAuthStatusTool(server: McpServer): void {
+  server.registerTool(
+    'auth_status',
+    {
+      description: 'Check whether the saved Focusmate login still works and whether the API key in config.json ' +
+        'is valid, without opening a login window. Reports the logged-in user and when the login token expires.',
+      inputSchema: {
+        probe: AuthStatusInput.shape.probe
+      },
+      outputSchema: AuthStatusOutput.shape
+    },
+    async ({ probe }): Promise<CallToolResult> => {
+      const [browser, apiKey] = await Promise.all([checkBrowserAuth({ probe }), checkApiKey()]);
+      const keepAlive = loadKeepAliveState();
+
+      const output: AuthStatusOutput = {
+        authenticated: browser.state === 'valid',
+        message: describe(browser, apiKey),
+        browser: {
+          state: browser.state,
+          checkedBy: browser.checkedBy,
+          userId: browser.user?.uid,
+          email: browser.user?.email,
+          name: browser.user?.displayName,
+          tokenExpiresAt: browser.user?.expiresAt,
+          error: browser.error
+        },
+        apiKey: {
+          state: apiKey.state,
+          userId: apiKey.user?.userId,
+          name: apiKey.user?.name,
+          timeZone: apiKey.user?.timeZone,
+          error: apiKey.error
+        },
+        keepAlive: keepAlive && {
+          lastRefreshAt: keepAlive.lastRefreshAt,
+          lastCheckAt: keepAlive.lastCheckAt,
+          reauthRequired: keepAlive.reauthRequired
+        }
+      };
+
+      return toolResult(output);
+    }
+  );
+}
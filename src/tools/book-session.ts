@@ -1,107 +1,115 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { resolveTimeZone, withLocalTimes } from '../api/timezone.js';
 import {
-  launchPersistentContext,
   hasAuthData,
   navigateToDashboard,
   withErrorScreenshot
 } from '../automation/browser.js';
+import { browserPool } from '../automation/browser-pool.js';
 import { BookingPage } from '../automation/pages/booking.js';
 import {
   BookSessionInput,
-  type BookSessionOutput,
+  BookSessionOutput,
   type Session,
-  type SessionDuration
+  type SessionDuration,
+  type TimeInterpretation
 } from '../schemas/session.js';
+import { recordSessions } from '../store/session-store.js';
 import {
   SlotUnavailableError,
   SessionConflictError,
-  AuthExpiredError
+  AuthExpiredError,
+  BrowserBusyError
 } from '../utils/errors.js';
+import { describeInterpretation, isAbsoluteTime, parseTimePoint } from '../utils/natural-time.js';
+import { validateSlotStart } from '../utils/time.js';
+import { describeError, errorDetails, toolResult } from './result.js';
 
 const MAX_RETRIES = 2;
 
 export function registerBookSessionTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     'book_session',
-    'Book a Focusmate accountability session for a specific date, time, and duration.',
     {
-      startTime: BookSessionInput.shape.startTime,
-      duration: BookSessionInput.shape.duration
+      description: 'Book a Focusmate accountability session for a specific date, time, and duration. ' +
+        'The start time can be a phrase like "tomorrow 9am", read in your Focusmate time zone; ' +
+        'the output then includes how it was interpreted.',
+      inputSchema: {
+        startTime: BookSessionInput.shape.startTime,
+        duration: BookSessionInput.shape.duration
+      },
+      outputSchema: BookSessionOutput.shape
     },
-    async ({ startTime, duration }): Promise<{ content: Array<{ type: 'text'; text: string }> }> => {
-      const targetDate = new Date(startTime);
+    async ({ startTime, duration }): Promise<CallToolResult> => {
+      const now = new Date();
+      const { timeZone } = await resolveTimeZone();
 
-      // Validate the time is in the future
-      if (targetDate <= new Date()) {
-        return errorResponse('Cannot book sessions in the past.', 'INVALID_TIME');
-      }
-
-      // Validate time is on a 15-minute boundary
-      const minutes = targetDate.getMinutes();
-      if (minutes % 15 !== 0) {
-        const h = targetDate.getHours();
+      const targetDate = parseTimePoint(startTime, now, timeZone);
+      if (!targetDate) {
         return errorResponse(
-          `Invalid time. Focusmate sessions start every 15 minutes. ` +
-          `Choose a time like ${h}:00, ${h}:15, ${h}:30, or ${h}:45.`,
+          `Could not understand the start time "${startTime}". ` +
+          'Use an ISO 8601 datetime or a phrase like "tomorrow 9am" or "next Tuesday at 14:30".',
           'INVALID_TIME'
         );
       }
+      const interpretation = isAbsoluteTime(startTime)
+        ? undefined
+        : describeInterpretation(startTime, targetDate, timeZone);
+
+      const invalidReason = validateSlotStart(targetDate, now, timeZone);
+      if (invalidReason) {
+        return errorResponse(invalidReason, 'INVALID_TIME', interpretation);
+      }
 
       if (!hasAuthData()) {
-        return errorResponse('Not authenticated. Please run focusmate_auth first.', 'AUTH_REQUIRED');
+        return errorResponse('Not authenticated. Please run focusmate_auth first.', 'AUTH_REQUIRED', interpretation);
       }
 
       let lastError: Error | undefined;
 
       for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-        let context;
         try {
-          context = await launchPersistentContext({ headless: true });
-          const page = context.pages()[0] || await context.newPage();
-
-          await navigateToDashboard(page);
-
-          const result = await withErrorScreenshot(page, `book-session-attempt-${attempt}`, async () => {
-            const bookingPage = new BookingPage(page);
-
-            // Start capturing API requests to extract session details
-            await bookingPage.startRequestCapture();
-
-            await bookingPage.selectDuration(duration as SessionDuration);
-            await bookingPage.selectTimeSlot(targetDate);
-
-            if (await bookingPage.hasConflict()) {
-              throw new SessionConflictError();
-            }
-
-            if (!await bookingPage.isSlotAvailable()) {
-              throw new SlotUnavailableError();
-            }
-
-            await bookingPage.confirmBooking();
-
-            const { sessionId } = await bookingPage.getConfirmationDetails();
-
-            const endTime = new Date(targetDate);
-            endTime.setMinutes(endTime.getMinutes() + parseInt(duration));
-
-            const session: Session = {
-              id: sessionId || `temp-${Date.now()}`,
-              startTime: targetDate.toISOString(),
-              endTime: endTime.toISOString(),
-              duration: parseInt(duration),
-              status: 'pending',
-              partnerId: null,
-              partnerName: null
-            };
-
-            return session;
+          const result = await browserPool.withPage(timeZone, async page => {
+            await navigateToDashboard(page);
+
+            return withErrorScreenshot(page, `book-session-attempt-${attempt}`, async () => {
+              const bookingPage = new BookingPage(page, timeZone);
+
+              // Start capturing API requests to extract session details
+              await bookingPage.startRequestCapture();
+
+              try {
+                const { sessionId } = await bookingPage.bookSlot(targetDate, duration as SessionDuration);
+
+                const endTime = new Date(targetDate);
+                endTime.setMinutes(endTime.getMinutes() + parseInt(duration));
+
+                const session: Session = {
+                  id: sessionId || `temp-${Date.now()}`,
+                  startTime: targetDate.toISOString(),
+                  endTime: endTime.toISOString(),
+                  duration: parseInt(duration),
+                  status: 'pending',
+                  partnerId: null,
+                  partnerName: null
+                };
+
+                return session;
+              } finally {
+                bookingPage.stopRequestCapture();
+              }
+            });
           });
 
-          const output: BookSessionOutput = { success: true, session: result };
-          return {
-            content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
+          recordSessions([result]);
+          const output: BookSessionOutput = {
+            success: true,
+            session: withLocalTimes(result, timeZone),
+            timeZone,
+            interpretation
           };
+          return toolResult(output);
 
         } catch (error) {
           lastError = error instanceof Error ? error : new Error(String(error));
@@ -110,7 +118,8 @@ export function registerBookSessionTool(server: McpServer): void {
           if (
             error instanceof SlotUnavailableError ||
             error instanceof SessionConflictError ||
-            error instanceof AuthExpiredError
+            error instanceof AuthExpiredError ||
+            error instanceof BrowserBusyError
           ) {
             break;
           }
@@ -119,36 +128,22 @@ export function registerBookSessionTool(server: McpServer): void {
           if (attempt < MAX_RETRIES) {
             console.error(`Booking attempt ${attempt + 1} failed, retrying: ${lastError.message}`);
           }
-        } finally {
-          if (context) {
-            await context.close();
-          }
         }
       }
 
       // All retries exhausted
-      const output: BookSessionOutput = {
-        success: false,
-        error: lastError?.message || 'Unknown error occurred',
-        errorCode: lastError instanceof SlotUnavailableError ? 'SLOT_UNAVAILABLE'
-          : lastError instanceof SessionConflictError ? 'SESSION_CONFLICT'
-          : lastError instanceof AuthExpiredError ? 'AUTH_EXPIRED'
-          : 'AUTOMATION_FAILED'
-      };
-
-      return {
-        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
-      };
+      const { message, ...details } = describeError(lastError);
+      const output: BookSessionOutput = { success: false, interpretation, error: message, ...details };
+      return toolResult(output);
     }
   );
 }
 
 function errorResponse(
   error: string,
-  errorCode: string
-): { content: Array<{ type: 'text'; text: string }> } {
-  const output: BookSessionOutput = { success: false, error, errorCode };
-  return {
-    content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
-  };
+  errorCode: string,
+  interpretation?: TimeInterpretation
+): CallToolResult {
+  const output: BookSessionOutput = { success: false, interpretation, error, ...errorDetails(errorCode) };
+  return toolResult(output);
 }
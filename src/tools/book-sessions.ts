@@ -0,0 +1,234 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Page } from 'playwright';
+import { resolveTimeZone, withLocalTimes } from '../api/timezone.js';
+import {
+  hasAuthData,
+  navigateToDashboard,
+  withErrorScreenshot
+} from '../automation/browser.js';
+import { browserPool } from '../automation/browser-pool.js';
+import { BookingPage } from '../automation/pages/booking.js';
+import {
+  BookSessionsInput,
+  BookSessionsOutput,
+  SessionDuration,
+  type BookSlotResult,
+  type Session
+} from '../schemas/session.js';
+import { recordSessions } from '../store/session-store.js';
+import { AuthExpiredError } from '../utils/errors.js';
+import { formatZonedDateTime, validateSlotStart } from '../utils/time.js';
+import { describeError, errorDetails, toolResult } from './result.js';
+
+export type BookingRequest = BookSessionsInput['sessions'][number];
+
+/**
+ * Book a batch of sessions in a single browser session. Every request gets a
+ * result, in input order, with its own success flag and error code. Slots are
+ * validated and selected in `timeZone`, resolved from the profile if omitted.
+ */
+export async function bookSessions(sessions: BookingRequest[], timeZone?: string): Promise<BookSlotResult[]> {
+  const zone = timeZone ?? (await resolveTimeZone()).timeZone;
+  const results: BookSlotResult[] = sessions.map(({ startTime, duration }) => ({
+    startTime,
+    startTimeLocal: isNaN(Date.parse(startTime)) ? undefined : formatZonedDateTime(new Date(startTime), zone),
+    duration,
+    success: false
+  }));
+
+  const pending: number[] = [];
+  const seen = new Set<number>();
+
+  sessions.forEach((request, i) => {
+    const targetDate = new Date(request.startTime);
+    const invalidReason = validateSlotStart(targetDate, new Date(), zone);
+    if (invalidReason) {
+      fail(results[i], invalidReason, 'INVALID_TIME');
+    } else if (seen.has(targetDate.getTime())) {
+      fail(results[i], 'This time slot was requested more than once.', 'SESSION_CONFLICT');
+    } else {
+      seen.add(targetDate.getTime());
+      pending.push(i);
+    }
+  });
+
+  if (pending.length === 0) {
+    return results;
+  }
+
+  if (!hasAuthData()) {
+    for (const i of pending) {
+      fail(results[i], 'Not authenticated. Please run focusmate_auth first.', 'AUTH_REQUIRED');
+    }
+    return results;
+  }
+
+  try {
+    await browserPool.withPage(zone, async page => {
+      await navigateToDashboard(page);
+
+      const bookingPage = new BookingPage(page, zone);
+      await bookingPage.startRequestCapture();
+
+      try {
+        // Duration is a calendar-wide setting, so each duration gets its own selection pass
+        for (const duration of SessionDuration.options) {
+          const group = pending.filter(i => sessions[i].duration === duration);
+          if (group.length === 0) continue;
+
+          try {
+            await bookGroup(page, bookingPage, duration, group, sessions, results);
+          } catch (error) {
+            // Expired auth dooms every remaining group too
+            failUnresolved(results, error instanceof AuthExpiredError ? pending : group, error);
+            if (error instanceof AuthExpiredError) break;
+          }
+        }
+      } finally {
+        bookingPage.stopRequestCapture();
+      }
+    });
+  } catch (error) {
+    failUnresolved(results, pending, error);
+  }
+
+  recordSessions(results.flatMap(r => (r.success && r.session ? [r.session] : [])));
+  return results;
+}
+
+export function registerBookSessionsTool(server: McpServer): void {
+  server.registerTool(
+    'book_sessions',
+    {
+      description: 'Book several Focusmate sessions in one browser session. Returns a result for each requested slot.',
+      inputSchema: {
+        sessions: BookSessionsInput.shape.sessions
+      },
+      outputSchema: BookSessionsOutput.shape
+    },
+    async ({ sessions }): Promise<CallToolResult> => {
+      const { timeZone } = await resolveTimeZone();
+      const results = await bookSessions(sessions, timeZone);
+
+      const bookedCount = results.filter(r => r.success).length;
+      const output: BookSessionsOutput = {
+        results: results.map(r => (r.session ? { ...r, session: withLocalTimes(r.session, timeZone) } : r)),
+        bookedCount,
+        failedCount: results.length - bookedCount,
+        timeZone
+      };
+
+      return toolResult(output);
+    }
+  );
+}
+
+/**
+ * Select every slot in `group`, then confirm them together with one "Book N sessions" click.
+ * In network mode, slots are first booked by replaying the learned booking request.
+ */
+async function bookGroup(
+  page: Page,
+  bookingPage: BookingPage,
+  duration: SessionDuration,
+  group: number[],
+  sessions: BookingRequest[],
+  results: BookSlotResult[]
+): Promise<void> {
+  await withErrorScreenshot(page, `book-sessions-${duration}`, async () => {
+    // In network mode, slots whose request replays fine skip the calendar
+    const viaCalendar: number[] = [];
+    for (const i of group) {
+      const targetDate = new Date(sessions[i].startTime);
+      const replayed = await bookingPage.bookViaNetwork(targetDate, duration);
+      if (replayed) {
+        results[i].success = true;
+        results[i].session = buildPendingSession(replayed.sessionId ?? `temp-${Date.now()}-${i}`, targetDate, duration);
+      } else {
+        viaCalendar.push(i);
+      }
+    }
+    if (viaCalendar.length === 0) return;
+
+    await bookingPage.selectDuration(duration);
+
+    const selected: number[] = [];
+
+    for (const i of viaCalendar) {
+      const targetDate = new Date(sessions[i].startTime);
+      try {
+        await bookingPage.addTimeSlot(targetDate);
+        selected.push(i);
+      } catch (error) {
+        if (error instanceof AuthExpiredError) throw error;
+
+        // A slot that could not be selected usually explains itself in the UI
+        failWithError(results[i], await bookingPage.getSlotRejection() ?? error);
+      }
+    }
+
+    if (selected.length === 0) return;
+
+    const alreadyAssigned = new Set(
+      results.map(r => r.session?.id).filter((id): id is string => Boolean(id))
+    );
+
+    await bookingPage.confirmBooking();
+    if (selected.length === 1) {
+      bookingPage.learnBookingRequest(new Date(sessions[selected[0]].startTime), duration);
+    }
+
+    const booked = bookingPage.getBookedSessions()
+      .filter(b => !alreadyAssigned.has(b.sessionId));
+
+    for (const i of selected) {
+      const targetDate = new Date(sessions[i].startTime);
+
+      // Prefer matching by start time; otherwise take IDs in selection order
+      let matchIndex = booked.findIndex(b =>
+        b.startTime !== undefined && new Date(b.startTime).getTime() === targetDate.getTime()
+      );
+      if (matchIndex === -1) {
+        matchIndex = booked.findIndex(b => b.startTime === undefined);
+      }
+      const sessionId = matchIndex === -1 ? undefined : booked.splice(matchIndex, 1)[0].sessionId;
+
+      results[i].success = true;
+      results[i].session = buildPendingSession(sessionId || `temp-${Date.now()}-${i}`, targetDate, duration);
+    }
+  });
+}
+
+function buildPendingSession(id: string, targetDate: Date, duration: SessionDuration): Session {
+  const endTime = new Date(targetDate);
+  endTime.setMinutes(endTime.getMinutes() + parseInt(duration));
+
+  return {
+    id,
+    startTime: targetDate.toISOString(),
+    endTime: endTime.toISOString(),
+    duration: parseInt(duration),
+    status: 'pending',
+    partnerId: null,
+    partnerName: null
+  };
+}
+
+function fail(result: BookSlotResult, error: string, errorCode: string): void {
+  Object.assign(result, { success: false, error, ...errorDetails(errorCode) });
+}
+
+function failWithError(result: BookSlotResult, error: unknown): void {
+  const { message, ...details } = describeError(error);
+  Object.assign(result, { success: false, error: message, ...details });
+}
+
+/** Mark every slot in `indices` that has no outcome yet as failed with `error`. */
+function failUnresolved(results: BookSlotResult[], indices: number[], error: unknown): void {
+  for (const i of indices) {
+    if (!results[i].success && !results[i].errorCode) {
+      failWithError(results[i], error);
+    }
+  }
+}
@@ -1,157 +1,186 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Page } from 'playwright';
+import { resolveTimeZone } from '../api/timezone.js';
 import {
-  launchPersistentContext,
+  FOCUSMATE_APP_URL,
   hasAuthData,
   withErrorScreenshot
 } from '../automation/browser.js';
+import { browserPool } from '../automation/browser-pool.js';
+import { CancelSessionPage } from '../automation/pages/cancel.js';
 import {
   CancelSessionInput,
-  type CancelSessionOutput
+  CancelSessionOutput,
+  type SessionCandidate
 } from '../schemas/session.js';
-import { SessionNotFoundError, AuthExpiredError } from '../utils/errors.js';
+import { getStoredSessions, markCancelled } from '../store/session-store.js';
+import {
+  SessionNotFoundError,
+  AmbiguousSessionError,
+  AuthExpiredError,
+  AuthRequiredError,
+  BrowserBusyError
+} from '../utils/errors.js';
+import { describeInterpretation, isAbsoluteTime, parseTimePoint } from '../utils/natural-time.js';
+import { formatZonedDateTime } from '../utils/time.js';
+import { describeError, errorDetails, toolResult } from './result.js';
 
 const MAX_RETRIES = 1;
 
-export function registerCancelSessionTool(server: McpServer): void {
-  server.tool(
-    'cancel_session',
-    'Cancel an existing Focusmate session by its ID.',
-    {
-      sessionId: CancelSessionInput.shape.sessionId
-    },
-    async ({ sessionId }): Promise<{ content: Array<{ type: 'text'; text: string }> }> => {
-      if (!hasAuthData()) {
-        const output: CancelSessionOutput = {
-          success: false,
-          message: 'Not authenticated. Please run focusmate_auth first.',
-          errorCode: 'AUTH_REQUIRED'
-        };
-        return {
-          content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
-        };
+/**
+ * Run `action` on a freshly loaded dashboard, retrying once on unexpected
+ * failures. Throws the last error, e.g. SessionNotFoundError or AuthExpiredError.
+ */
+async function onDashboard<T>(timeZone: string | undefined, action: (page: Page) => Promise<T>): Promise<T> {
+  if (!hasAuthData()) {
+    throw new AuthRequiredError();
+  }
+
+  let lastError: Error | undefined;
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      return await browserPool.withPage(timeZone, page =>
+        withErrorScreenshot(page, `cancel-session-attempt-${attempt}`, async () => {
+          // Navigate to the dashboard where upcoming sessions are shown
+          await page.goto('https://app.focusmate.com/dashboard', { waitUntil: 'domcontentloaded' });
+          await page.waitForTimeout(1000);
+
+          if (page.url().includes('/login')) {
+            throw new AuthExpiredError();
+          }
+
+          // Wait for the page to load
+          await page.waitForLoadState('networkidle');
+
+          return await action(page);
+        })
+      );
+
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      if (
+        error instanceof SessionNotFoundError ||
+        error instanceof AmbiguousSessionError ||
+        error instanceof AuthExpiredError ||
+        error instanceof BrowserBusyError
+      ) {
+        break;
       }
 
-      let lastError: Error | undefined;
+      if (attempt < MAX_RETRIES) {
+        console.error(`Cancel attempt ${attempt + 1} failed, retrying: ${lastError.message}`);
+      }
+    }
+  }
 
-      for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-        let context;
-        try {
-          context = await launchPersistentContext({ headless: true });
-          const page = context.pages()[0] || await context.newPage();
-
-          await withErrorScreenshot(page, `cancel-session-attempt-${attempt}`, async () => {
-            // Navigate to the dashboard where upcoming sessions are shown
-            await page.goto('https://app.focusmate.com/dashboard', { waitUntil: 'domcontentloaded' });
-            await page.waitForTimeout(1000);
-
-            if (page.url().includes('/login')) {
-              throw new AuthExpiredError();
-            }
-
-            // Wait for the page to load
-            await page.waitForLoadState('networkidle');
-
-            // Find the session card and its cancel/clear button
-            // Strategy 1: Look for a session card that links to this session ID
-            const sessionLink = page.locator(`a[href*="${sessionId}"]`);
-            const hasLink = await sessionLink.count() > 0;
-
-            if (hasLink) {
-              // Find the cancel button near this session link
-              const sessionCard = sessionLink.locator('..').locator('..');
-              const cancelBtn = sessionCard.getByRole('button', { name: /cancel|clear|×/i }).first();
-
-              if (await cancelBtn.isVisible()) {
-                await cancelBtn.click();
-              } else {
-                // Try clicking a menu/options button first
-                const menuBtn = sessionCard.getByRole('button').first();
-                await menuBtn.click();
-                await page.waitForTimeout(300);
-
-                const cancelOption = page.getByRole('menuitem', { name: /cancel/i })
-                  .or(page.getByRole('button', { name: /cancel/i }))
-                  .first();
-                await cancelOption.click();
-              }
-            } else {
-              // Strategy 2: Navigate directly to the session page
-              await page.goto(`https://app.focusmate.com/session/${sessionId}`, {
-                waitUntil: 'networkidle'
-              });
-
-              if (page.url().includes('/login')) {
-                throw new AuthExpiredError();
-              }
-
-              // Check for 404
-              const notFound = await page.getByText(/not found/i)
-                .or(page.getByText(/doesn't exist/i))
-                .isVisible()
-                .catch(() => false);
-
-              if (notFound) {
-                throw new SessionNotFoundError(sessionId);
-              }
-
-              // Find cancel button on session page
-              const cancelButton = page.getByRole('button', { name: /cancel/i }).first();
-              await cancelButton.waitFor({ timeout: 5000 });
-              await cancelButton.click();
-            }
-
-            // Handle confirmation dialog
-            const confirmButton = page.getByRole('button', { name: /cancel/i }).last()
-              .or(page.getByRole('button', { name: /confirm/i }))
-              .or(page.getByRole('button', { name: /yes/i }));
-
-            try {
-              await confirmButton.waitFor({ timeout: 3000 });
-              await confirmButton.click();
-            } catch {
-              // No confirmation needed
-            }
-
-            // Wait for success indication
-            await page.waitForTimeout(1500);
-          });
-
-          const output: CancelSessionOutput = {
-            success: true,
-            message: `Session ${sessionId} has been cancelled.`
-          };
-          return {
-            content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
-          };
+  throw lastError ?? new Error('Unknown error occurred');
+}
 
-        } catch (error) {
-          lastError = error instanceof Error ? error : new Error(String(error));
+/** Cancel a session by ID from the dashboard. */
+export async function cancelSession(sessionId: string): Promise<void> {
+  await onDashboard(undefined, page => new CancelSessionPage(page).cancelSession(sessionId));
+  markCancelled(sessionId);
+}
 
-          if (error instanceof SessionNotFoundError || error instanceof AuthExpiredError) {
-            break;
-          }
+/**
+ * Cancel the upcoming session starting at `startTime`, found on the dashboard
+ * by its time range in `timeZone`. Returns the card that was cancelled.
+ */
+export async function cancelSessionAt(
+  startTime: Date,
+  duration: number | undefined,
+  timeZone: string
+): Promise<SessionCandidate> {
+  const cancelled = await onDashboard(timeZone, page =>
+    new CancelSessionPage(page, FOCUSMATE_APP_URL, timeZone).cancelSessionAt(startTime, duration)
+  );
 
-          if (attempt < MAX_RETRIES) {
-            console.error(`Cancel attempt ${attempt + 1} failed, retrying: ${lastError.message}`);
-          }
-        } finally {
-          if (context) {
-            await context.close();
-          }
+  // Cards without a link leave the ID unknown; the stored copy can still be found by time
+  const stored = getStoredSessions(startTime, new Date(startTime.getTime() + 1))
+    .find(session => new Date(session.startTime).getTime() === startTime.getTime() && session.status !== 'cancelled');
+  const sessionId = cancelled.sessionId ?? stored?.id;
+  if (sessionId) {
+    markCancelled(sessionId);
+  }
+  return { ...cancelled, sessionId };
+}
+
+function respond(output: CancelSessionOutput): CallToolResult {
+  return toolResult(output);
+}
+
+function failure(error: unknown, extra: Partial<CancelSessionOutput> = {}): CallToolResult {
+  return respond({
+    ...extra,
+    success: false,
+    candidates: error instanceof AmbiguousSessionError ? error.candidates : undefined,
+    ...describeError(error)
+  });
+}
+
+export function registerCancelSessionTool(server: McpServer): void {
+  server.registerTool(
+    'cancel_session',
+    {
+      description: 'Cancel an existing Focusmate session, either by its ID or by its start time (for example ' +
+        '"tomorrow 3pm"), optionally with its duration. A start time matching several sessions cancels nothing ' +
+        'and lists the candidates.',
+      inputSchema: {
+        sessionId: CancelSessionInput.shape.sessionId,
+        startTime: CancelSessionInput.shape.startTime,
+        duration: CancelSessionInput.shape.duration
+      },
+      outputSchema: CancelSessionOutput.shape
+    },
+    async ({ sessionId, startTime, duration }): Promise<CallToolResult> => {
+      if (sessionId && !startTime) {
+        try {
+          await cancelSession(sessionId);
+          return respond({ success: true, message: `Session ${sessionId} has been cancelled.`, sessionId });
+        } catch (error) {
+          return failure(error);
         }
       }
 
-      const output: CancelSessionOutput = {
-        success: false,
-        message: lastError?.message || 'Unknown error occurred',
-        errorCode: lastError instanceof SessionNotFoundError ? 'SESSION_NOT_FOUND'
-          : lastError instanceof AuthExpiredError ? 'AUTH_EXPIRED'
-          : 'AUTOMATION_FAILED'
-      };
-
-      return {
-        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
-      };
+      if (!startTime || sessionId) {
+        return respond({
+          success: false,
+          message: 'Pass either sessionId or startTime to identify the session.',
+          ...errorDetails('INVALID_INPUT')
+        });
+      }
+
+      const { timeZone } = await resolveTimeZone();
+      const targetDate = parseTimePoint(startTime, new Date(), timeZone);
+      if (!targetDate) {
+        return respond({
+          success: false,
+          message: `Could not understand the start time "${startTime}". ` +
+            'Use an ISO 8601 datetime or a phrase like "tomorrow 3pm".',
+          timeZone,
+          ...errorDetails('INVALID_TIME')
+        });
+      }
+      const interpretation = isAbsoluteTime(startTime)
+        ? undefined
+        : describeInterpretation(startTime, targetDate, timeZone);
+
+      try {
+        const cancelled = await cancelSessionAt(targetDate, duration ? parseInt(duration) : undefined, timeZone);
+        return respond({
+          success: true,
+          message: `The ${cancelled.timeRange} session starting ${formatZonedDateTime(targetDate, timeZone)} ` +
+            'has been cancelled.',
+          sessionId: cancelled.sessionId,
+          timeZone,
+          interpretation
+        });
+      } catch (error) {
+        return failure(error, { timeZone, interpretation });
+      }
     }
   );
 }
@@ -0,0 +1,56 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { sessionsToIcs } from '../calendar/ics.js';
+import { ExportSessionsIcsInput, ExportSessionsIcsOutput } from '../schemas/calendar.js';
+import { listSessions } from './list-sessions.js';
+import { describeError, errorDetails, toolResult } from './result.js';
+
+const DEFAULT_RANGE_DAYS = 28;
+
+export function registerExportSessionsIcsTool(server: McpServer): void {
+  server.registerTool(
+    'export_sessions_ics',
+    {
+      description: 'Export Focusmate sessions in a date range as an iCalendar (.ics) file for other calendar apps. ' +
+        'Re-importing a later export updates events in place, and cancelled sessions are marked cancelled.',
+      inputSchema: {
+        startDate: ExportSessionsIcsInput.shape.startDate,
+        endDate: ExportSessionsIcsInput.shape.endDate,
+        outputPath: ExportSessionsIcsInput.shape.outputPath
+      },
+      outputSchema: ExportSessionsIcsOutput.shape
+    },
+    async ({ startDate, endDate, outputPath }): Promise<CallToolResult> => {
+      const start = startDate ? new Date(startDate) : new Date();
+      const end = endDate
+        ? new Date(endDate)
+        : new Date(start.getTime() + DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+      let output: ExportSessionsIcsOutput;
+
+      if (start >= end) {
+        output = { success: false, error: 'startDate must be before endDate.', ...errorDetails('INVALID_TIME') };
+      } else {
+        try {
+          const { sessions } = await listSessions(start, end);
+          const ics = sessionsToIcs(sessions);
+
+          if (outputPath) {
+            const resolved = path.resolve(outputPath);
+            fs.writeFileSync(resolved, ics);
+            output = { success: true, sessionCount: sessions.length, path: resolved };
+          } else {
+            output = { success: true, sessionCount: sessions.length, ics };
+          }
+        } catch (error) {
+          const { message, ...details } = describeError(error);
+          output = { success: false, error: message, ...details };
+        }
+      }
+
+      return toolResult(output);
+    }
+  );
+}
@@ -0,0 +1,144 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { resolveTimeZone } from '../api/timezone.js';
+import {
+  hasAuthData,
+  navigateToDashboard,
+  withErrorScreenshot
+} from '../automation/browser.js';
+import { browserPool } from '../automation/browser-pool.js';
+import { BookingPage } from '../automation/pages/booking.js';
+import type { ErrorDetails } from '../schemas/error.js';
+import {
+  FindAvailableSlotsInput,
+  FindAvailableSlotsOutput,
+  type AvailableSlot,
+  type Session,
+  type SessionDuration
+} from '../schemas/session.js';
+import { describeInterpretation, isAbsoluteTime, isInWindow, resolveDateRange } from '../utils/natural-time.js';
+import { formatZonedDateTime } from '../utils/time.js';
+import { listSessions } from './list-sessions.js';
+import { describeError, errorDetails, toolResult } from './result.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 14;
+// The longest session, so ones starting before the range still count as overlapping
+const MAX_SESSION_MS = 75 * 60 * 1000;
+
+function overlapsSession(start: Date, end: Date, sessions: Session[]): boolean {
+  return sessions.some(session => new Date(session.startTime) < end && new Date(session.endTime) > start);
+}
+
+function errorResponse(output: FindAvailableSlotsOutput, error: string, details: ErrorDetails): CallToolResult {
+  return toolResult({ ...output, success: false, error, ...details });
+}
+
+export function registerFindAvailableSlotsTool(server: McpServer): void {
+  server.registerTool(
+    'find_available_slots',
+    {
+      description: 'Read the Focusmate calendar for a date range and duration and list each 15-minute slot with ' +
+        'its availability: partner_waiting (someone is booked and waiting, so you match right away), open, or ' +
+        'unavailable. Slots overlapping your own sessions are left out. Dates can be phrases like ' +
+        '"tomorrow 9am-noon" or "weekdays 8-11am", read in your Focusmate time zone.',
+      inputSchema: {
+        startDate: FindAvailableSlotsInput.shape.startDate,
+        endDate: FindAvailableSlotsInput.shape.endDate,
+        duration: FindAvailableSlotsInput.shape.duration
+      },
+      outputSchema: FindAvailableSlotsOutput.shape
+    },
+    async ({ startDate, endDate, duration }): Promise<CallToolResult> => {
+      const now = new Date();
+      const { timeZone } = await resolveTimeZone();
+      const output: FindAvailableSlotsOutput = {
+        success: true,
+        slots: [],
+        skippedCount: 0,
+        duration: duration as SessionDuration,
+        timeZone
+      };
+
+      const resolved = resolveDateRange(startDate, endDate, now, timeZone, DAY_MS);
+      if (!resolved) {
+        return errorResponse(
+          output,
+          `Could not understand the date range "${[startDate, endDate].filter(Boolean).join('" to "')}". ` +
+          'Use ISO 8601 datetimes or phrases like "tomorrow", "tomorrow 9am-noon" or "weekdays 8-11am".',
+          errorDetails('INVALID_TIME')
+        );
+      }
+      if (!isAbsoluteTime(startDate) || (endDate && !isAbsoluteTime(endDate))) {
+        output.interpretation = describeInterpretation([startDate, endDate].filter(Boolean).join(' to '), resolved, timeZone);
+      }
+
+      // Slots can't be booked in the past
+      const start = resolved.start > now ? resolved.start : now;
+      const end = resolved.end;
+      output.startDate = start.toISOString();
+      output.endDate = end.toISOString();
+
+      if (end <= start) {
+        return errorResponse(output, 'The date range is empty or entirely in the past.', errorDetails('INVALID_TIME'));
+      }
+      if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+        return errorResponse(
+          output,
+          `The date range is too long. Search at most ${MAX_RANGE_DAYS} days at a time.`,
+          errorDetails('INVALID_TIME')
+        );
+      }
+
+      if (!hasAuthData()) {
+        return errorResponse(output, 'Not authenticated. Please run focusmate_auth first.', errorDetails('AUTH_REQUIRED'));
+      }
+
+      // List before reading the calendar: browser listing takes its own turn on the shared page
+      let existing: Session[];
+      try {
+        const listing = await listSessions(new Date(start.getTime() - MAX_SESSION_MS), end);
+        existing = listing.sessions.filter(session => session.status !== 'cancelled');
+      } catch (error) {
+        const { message, ...details } = describeError(error);
+        return errorResponse(output, `Could not list your existing sessions: ${message}`, details);
+      }
+
+      try {
+        const gridSlots = await browserPool.withPage(timeZone, async page => {
+          await navigateToDashboard(page);
+          return withErrorScreenshot(page, 'find-available-slots', () =>
+            new BookingPage(page, timeZone).readSlots(start, end, duration as SessionDuration)
+          );
+        });
+
+        const durationMs = parseInt(duration) * 60 * 1000;
+        for (const slot of gridSlots) {
+          if (resolved.window && !isInWindow(slot.startTime, resolved.window, timeZone)) continue;
+
+          const slotEnd = new Date(slot.startTime.getTime() + durationMs);
+          if (overlapsSession(slot.startTime, slotEnd, existing)) {
+            output.skippedCount++;
+            continue;
+          }
+
+          const available: AvailableSlot = {
+            startTime: slot.startTime.toISOString(),
+            startTimeLocal: formatZonedDateTime(slot.startTime, timeZone),
+            endTime: slotEnd.toISOString(),
+            availability: slot.availability
+          };
+          if (slot.partnersWaiting > 0) {
+            available.partnersWaiting = slot.partnersWaiting;
+          }
+          output.slots.push(available);
+        }
+
+        return toolResult(output);
+      } catch (error) {
+        const { message, ...details } = describeError(error);
+        return errorResponse(output, message, details);
+      }
+    }
+  );
+}
@@ -1,95 +1,122 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import {
   launchPersistentContext,
   hasAuthData,
-  clearAuthData,
   isLoggedIn,
+  replaceAuthData,
   LOGIN_URL
 } from '../automation/browser.js';
-import type { AuthOutput } from '../schemas/session.js';
+import { browserPool } from '../automation/browser-pool.js';
+import { importLoginState, loginWithCredentials } from '../automation/login.js';
+import { loadStorageState, type StorageState } from '../automation/storage-state.js';
+import { getLoginCredentials } from '../api/config.js';
+import { AuthOutput } from '../schemas/session.js';
+import { FocusmateError } from '../utils/errors.js';
+import { describeError, toolResult } from './result.js';
 
 const AUTH_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes to complete login
 
+function respond(output: AuthOutput): CallToolResult {
+  return toolResult(output);
+}
+
 export function registerFocusmateAuthTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     'focusmate_auth',
-    'Open a browser window to log into Focusmate. Cookies will be saved for future use.',
     {
-      force: z.boolean()
-        .default(false)
-        .describe('Force re-authentication even if valid cookies exist')
+      description: 'Log into Focusmate. Cookies will be saved for future use. With an email and password configured ' +
+        '(FOCUSMATE_EMAIL/FOCUSMATE_PASSWORD or credentials.json) this logs in headlessly; with storageStatePath ' +
+        'it imports a login exported from another machine; otherwise it opens a browser window to log in.',
+      inputSchema: {
+        force: z.boolean()
+          .default(false)
+          .describe('Force re-authentication even if valid cookies exist'),
+        storageStatePath: z.string()
+          .optional()
+          .describe('Path to a Playwright storageState JSON file, or a JSON cookie export, to import instead of logging in')
+      },
+      outputSchema: AuthOutput.shape
     },
-    async ({ force }): Promise<{ content: Array<{ type: 'text'; text: string }> }> => {
+    async ({ force, storageStatePath }): Promise<CallToolResult> => {
       // Check if already authenticated
-      if (!force && hasAuthData()) {
-        const output: AuthOutput = {
+      if (!force && !storageStatePath && hasAuthData()) {
+        return respond({
           success: true,
           message: 'Already authenticated. Use force=true to re-authenticate.'
-        };
-        return {
-          content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
-        };
+        });
       }
 
-      // Clear existing auth data if forcing
-      if (force) {
-        clearAuthData();
+      let imported: StorageState | undefined;
+      if (storageStatePath) {
+        try {
+          imported = loadStorageState(storageStatePath);
+        } catch (error) {
+          return respond({ success: false, ...describeError(error, 'INVALID_INPUT') });
+        }
       }
-
-      let context;
+      const credentials = imported ? undefined : getLoginCredentials();
 
       try {
-        // Launch headed browser with persistent context for interactive login
-        // This preserves IndexedDB where Firebase stores auth tokens
-        context = await launchPersistentContext({ headless: false, slowMo: 100 });
-        const page = context.pages()[0] || await context.newPage();
+        // Logging in opens its own browser on the profile, so the warm one is closed first.
+        // The login is built in a fresh profile that replaces the saved one only once it works.
+        return await browserPool.withProfile(() => replaceAuthData(async userDataDir => {
+          if (imported) {
+            await importLoginState(imported, userDataDir);
+            return respond({ success: true, message: `Imported the login from ${storageStatePath}.` });
+          }
+          if (credentials) {
+            await loginWithCredentials(credentials, userDataDir);
+            return respond({ success: true, message: `Logged in as ${credentials.email}; the login is saved for future use.` });
+          }
 
-        // Navigate to login page
-        await page.goto(LOGIN_URL);
+          let context;
 
-        // Wait for user to complete login
-        // We detect successful login by checking for dashboard URL or logged-in state
-        const startTime = Date.now();
+          try {
+            // Launch headed browser with persistent context for interactive login
+            // This preserves IndexedDB where Firebase stores auth tokens
+            context = await launchPersistentContext({ headless: false, slowMo: 100, userDataDir });
+            const page = context.pages()[0] || await context.newPage();
 
-        while (Date.now() - startTime < AUTH_TIMEOUT_MS) {
-          await page.waitForTimeout(1000);
+            // Navigate to login page
+            await page.goto(LOGIN_URL);
 
-          const currentUrl = page.url();
+            // Wait for user to complete login
+            // We detect successful login by checking for dashboard URL or logged-in state
+            const startTime = Date.now();
 
-          // Check if we've been redirected to dashboard or another authenticated page
-          if (currentUrl.includes('/dashboard') || currentUrl.includes('/home')) {
-            // Verify we're actually logged in
-            if (await isLoggedIn(page)) {
-              // Auth data is automatically persisted in user data directory
-              const output: AuthOutput = {
-                success: true,
-                message: 'Successfully authenticated and saved credentials.'
-              };
+            while (Date.now() - startTime < AUTH_TIMEOUT_MS) {
+              await page.waitForTimeout(1000);
 
-              return {
-                content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
-              };
-            }
-          }
-        }
+              const currentUrl = page.url();
 
-        // Timeout reached
-        const output: AuthOutput = {
-          success: false,
-          message: 'Authentication timed out. Please try again.',
-          errorCode: 'AUTH_TIMEOUT'
-        };
+              // Check if we've been redirected to dashboard or another authenticated page
+              if (currentUrl.includes('/dashboard') || currentUrl.includes('/home')) {
+                // Verify we're actually logged in
+                if (await isLoggedIn(page)) {
+                  // Auth data is automatically persisted in user data directory
+                  return respond({
+                    success: true,
+                    message: 'Successfully authenticated and saved credentials.'
+                  });
+                }
+              }
+            }
 
-        return {
-          content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
-        };
+            // Timeout reached; throwing keeps the saved login
+            throw new FocusmateError('Authentication timed out. Please try again.', 'AUTH_TIMEOUT');
 
-      } finally {
-        // Close context - data is persisted in user data directory
-        if (context) {
-          await context.close();
-        }
+          } finally {
+            // Close context - data is persisted in user data directory
+            if (context) {
+              await context.close();
+            }
+          }
+        }));
+      } catch (error) {
+        // Busy browsers, rejected logins, timeouts, imports that don't log in and browser crashes
+        return respond({ success: false, ...describeError(error) });
       }
     }
   );
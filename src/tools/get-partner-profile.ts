@@ -0,0 +1,46 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { FocusmateClient } from '../api/focusmate-client.js';
+import { getApiKey } from '../api/config.js';
+import { getPartnerProfile } from '../api/partners.js';
+import {
+  GetPartnerProfileInput,
+  GetPartnerProfileOutput
+} from '../schemas/session.js';
+import { describeError, errorDetails, toolResult } from './result.js';
+
+export function registerGetPartnerProfileTool(server: McpServer): void {
+  server.registerTool(
+    'get_partner_profile',
+    {
+      description: 'Look up a session partner\'s public Focusmate profile (name, photo, time zone) by user ID. ' +
+        'Requires an API key.',
+      inputSchema: {
+        userId: GetPartnerProfileInput.shape.userId,
+        refresh: GetPartnerProfileInput.shape.refresh
+      },
+      outputSchema: GetPartnerProfileOutput.shape
+    },
+    async ({ userId, refresh }): Promise<CallToolResult> => {
+      let output: GetPartnerProfileOutput;
+
+      if (!getApiKey()) {
+        output = {
+          success: false,
+          error: 'Focusmate API key not configured. Add it to ~/.focusmate-mcp/config.json.',
+          ...errorDetails('CONFIG_ERROR')
+        };
+      } else {
+        try {
+          const { profile, cached } = await getPartnerProfile(new FocusmateClient(), userId, { refresh });
+          output = { success: true, profile, cached };
+        } catch (error) {
+          const { message, ...details } = describeError(error, 'API_ERROR');
+          output = { success: false, error: message, ...details };
+        }
+      }
+
+      return toolResult(output);
+    }
+  );
+}
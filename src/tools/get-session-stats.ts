@@ -0,0 +1,57 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { FocusmateClient } from '../api/focusmate-client.js';
+import { getApiKey } from '../api/config.js';
+import { resolveTimeZone } from '../api/timezone.js';
+import { GetSessionStatsInput, GetSessionStatsOutput } from '../schemas/stats.js';
+import { computeSessionStats } from '../stats/session-stats.js';
+import { describeError, errorDetails, toolResult } from './result.js';
+
+const DEFAULT_RANGE_DAYS = 30;
+
+export function registerGetSessionStatsTool(server: McpServer): void {
+  server.registerTool(
+    'get_session_stats',
+    {
+      description: 'Summarise Focusmate habits over a date range: totals, focus minutes, completion and no-show ' +
+        'rates, daily streaks, and breakdowns by weekday, hour, duration and week. Requires an API key.',
+      inputSchema: {
+        startDate: GetSessionStatsInput.shape.startDate,
+        endDate: GetSessionStatsInput.shape.endDate
+      },
+      outputSchema: GetSessionStatsOutput.shape
+    },
+    async ({ startDate, endDate }): Promise<CallToolResult> => {
+      const end = endDate ? new Date(endDate) : new Date();
+      const start = startDate
+        ? new Date(startDate)
+        : new Date(end.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+      let output: GetSessionStatsOutput;
+
+      if (start >= end) {
+        output = { success: false, error: 'startDate must be before endDate.', ...errorDetails('INVALID_TIME') };
+      } else if (!getApiKey()) {
+        output = {
+          success: false,
+          error: 'Focusmate API key not configured. Add it to ~/.focusmate-mcp/config.json.',
+          ...errorDetails('CONFIG_ERROR')
+        };
+      } else {
+        try {
+          const client = new FocusmateClient();
+          const [sessions, { timeZone }] = await Promise.all([
+            client.getSessions(start.toISOString(), end.toISOString()),
+            resolveTimeZone()
+          ]);
+          output = { success: true, stats: computeSessionStats(sessions, start, end, new Date(), timeZone) };
+        } catch (error) {
+          const { message, ...details } = describeError(error, 'API_ERROR');
+          output = { success: false, error: message, ...details };
+        }
+      }
+
+      return toolResult(output);
+    }
+  );
+}
@@ -0,0 +1,211 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { resolveTimeZone } from '../api/timezone.js';
+import { planBlockSessions } from '../calendar/blocks.js';
+import { parseIcsEvents, type IcsEvent } from '../calendar/ics.js';
+import {
+  ImportIcsBlocksInput,
+  ImportIcsBlocksOutput,
+  type IcsBlockReport,
+  type IcsBlockStatus
+} from '../schemas/calendar.js';
+import type { ErrorDetails } from '../schemas/error.js';
+import type { Session } from '../schemas/session.js';
+import { findCoveringSession } from '../utils/sessions.js';
+import { formatZonedDateTime } from '../utils/time.js';
+import { bookSessions } from './book-sessions.js';
+import { listSessions } from './list-sessions.js';
+import { describeError, errorDetails, pickErrorDetails, toolResult } from './result.js';
+
+const DEFAULT_WINDOW_DAYS = 14;
+
+function matchesPattern(event: IcsEvent, pattern: RegExp): boolean {
+  return pattern.test(event.summary) || event.categories.some(category => pattern.test(category));
+}
+
+/** Plan an event's sessions within the window, or explain why it can't be booked. */
+function planEvent(event: IcsEvent, windowStart: Date, windowEnd: Date, timeZone: string): IcsBlockReport {
+  const report: IcsBlockReport = {
+    uid: event.uid,
+    summary: event.summary,
+    start: event.start.toISOString(),
+    end: event.end.toISOString(),
+    startLocal: formatZonedDateTime(event.start, timeZone),
+    endLocal: formatZonedDateTime(event.end, timeZone),
+    status: 'planned',
+    sessions: []
+  };
+
+  if (event.allDay) {
+    return { ...report, status: 'skipped', reason: 'All-day events are not booked.' };
+  }
+  if (event.recurring) {
+    return {
+      ...report,
+      status: 'unsupported',
+      reason: 'Recurring events are not expanded. Use create_recurring_rule for standing focus blocks.'
+    };
+  }
+
+  const start = event.start > windowStart ? event.start : windowStart;
+  const end = event.end < windowEnd ? event.end : windowEnd;
+  const planned = planBlockSessions(start, end);
+  if (planned.length === 0) {
+    return { ...report, status: 'skipped', reason: 'Too short for a 25-minute session on 15-minute boundaries.' };
+  }
+
+  report.sessions = planned.map(({ startTime, duration }) => ({
+    startTime: startTime.toISOString(),
+    startTimeLocal: formatZonedDateTime(startTime, timeZone),
+    duration,
+    status: 'planned'
+  }));
+  return report;
+}
+
+function summarizeStatus(report: IcsBlockReport): IcsBlockStatus {
+  const statuses = report.sessions.map(s => s.status);
+  if (statuses.every(s => s === 'existing' || s === 'duplicate')) return 'covered';
+  if (statuses.includes('planned')) return 'planned';
+  if (!statuses.includes('failed')) return 'booked';
+  return statuses.includes('booked') ? 'partial' : 'failed';
+}
+
+function errorResponse(output: ImportIcsBlocksOutput, error: string, details: ErrorDetails): CallToolResult {
+  return toolResult({ ...output, success: false, error, ...details });
+}
+
+export function registerImportIcsBlocksTool(server: McpServer): void {
+  server.registerTool(
+    'import_ics_blocks',
+    {
+      description: 'Book Focusmate sessions for focus blocks in a local .ics calendar file. Events matching a ' +
+        'summary or category pattern are snapped to 15-minute boundaries and split into 25, 50 and 75-minute ' +
+        'sessions. Blocks already covered by existing sessions are skipped, and recurring events are reported ' +
+        'as unsupported.',
+      inputSchema: {
+        path: ImportIcsBlocksInput.shape.path,
+        pattern: ImportIcsBlocksInput.shape.pattern,
+        startDate: ImportIcsBlocksInput.shape.startDate,
+        endDate: ImportIcsBlocksInput.shape.endDate,
+        dryRun: ImportIcsBlocksInput.shape.dryRun
+      },
+      outputSchema: ImportIcsBlocksOutput.shape
+    },
+    async ({ path: icsPath, pattern, startDate, endDate, dryRun }): Promise<CallToolResult> => {
+      const now = new Date();
+      const requestedStart = startDate ? new Date(startDate) : now;
+      // Sessions can't be booked in the past
+      const windowStart = requestedStart > now ? requestedStart : now;
+      const windowEnd = endDate
+        ? new Date(endDate)
+        : new Date(windowStart.getTime() + DEFAULT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const { timeZone } = await resolveTimeZone();
+
+      const output: ImportIcsBlocksOutput = {
+        success: true,
+        windowStart: windowStart.toISOString(),
+        windowEnd: windowEnd.toISOString(),
+        timeZone,
+        events: [],
+        bookedCount: 0,
+        existingCount: 0,
+        duplicateCount: 0,
+        failedCount: 0
+      };
+
+      if (windowStart >= windowEnd) {
+        return errorResponse(output, 'The date window is empty or entirely in the past.', errorDetails('INVALID_TIME'));
+      }
+
+      let matcher: RegExp;
+      try {
+        matcher = new RegExp(pattern, 'i');
+      } catch {
+        return errorResponse(output, `Invalid pattern: ${pattern}`, errorDetails('INVALID_PATTERN'));
+      }
+
+      let text: string;
+      try {
+        text = fs.readFileSync(path.resolve(icsPath), 'utf-8');
+      } catch (error) {
+        const { message, ...details } = describeError(error, 'FILE_ERROR');
+        return errorResponse(output, `Could not read ${icsPath}: ${message}`, details);
+      }
+
+      output.events = parseIcsEvents(text, timeZone)
+        .filter(event => event.status !== 'CANCELLED' && matchesPattern(event, matcher))
+        .filter(event => event.start < windowEnd && (event.end > windowStart || event.recurring))
+        .sort((a, b) => a.start.getTime() - b.start.getTime())
+        .map(event => planEvent(event, windowStart, windowEnd, timeZone));
+
+      const plannedSessions = output.events.flatMap(event => event.sessions);
+      if (plannedSessions.length === 0) {
+        return toolResult(output);
+      }
+
+      let existing: Session[];
+      try {
+        existing = (await listSessions(windowStart, windowEnd)).sessions;
+      } catch (error) {
+        // Without the current schedule we can't tell what's missing, so book nothing
+        const { message, ...details } = describeError(error);
+        return errorResponse(output, `Could not list existing sessions, so nothing was booked: ${message}`, details);
+      }
+
+      // Overlapping events shouldn't book the same time twice
+      const claimed: Array<{ start: number; end: number }> = [];
+      for (const planned of plannedSessions) {
+        const startTime = new Date(planned.startTime);
+        const covering = findCoveringSession({ startTime, duration: planned.duration }, existing);
+        const start = startTime.getTime();
+        const end = start + parseInt(planned.duration) * 60000;
+
+        if (covering) {
+          planned.status = 'existing';
+          planned.sessionId = covering.id;
+        } else if (claimed.some(c => c.start < end && c.end > start)) {
+          planned.status = 'duplicate';
+        } else {
+          claimed.push({ start, end });
+        }
+      }
+
+      const toBook = plannedSessions.filter(s => s.status === 'planned');
+      if (!dryRun && toBook.length > 0) {
+        const results = await bookSessions(
+          toBook.map(s => ({ startTime: s.startTime, duration: s.duration })),
+          timeZone
+        );
+
+        results.forEach((result, i) => {
+          const planned = toBook[i];
+          if (result.success) {
+            planned.status = 'booked';
+            planned.sessionId = result.session?.id;
+          } else {
+            planned.status = 'failed';
+            planned.error = result.error;
+            Object.assign(planned, pickErrorDetails(result));
+          }
+        });
+      }
+
+      for (const event of output.events) {
+        if (event.status !== 'skipped' && event.status !== 'unsupported') {
+          event.status = summarizeStatus(event);
+        }
+      }
+
+      output.bookedCount = plannedSessions.filter(s => s.status === 'booked').length;
+      output.existingCount = plannedSessions.filter(s => s.status === 'existing').length;
+      output.duplicateCount = plannedSessions.filter(s => s.status === 'duplicate').length;
+      output.failedCount = plannedSessions.filter(s => s.status === 'failed').length;
+      output.success = output.failedCount === 0;
+
+      return toolResult(output);
+    }
+  );
+}
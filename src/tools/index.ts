@@ -1,4 +1,15 @@
 export { registerFocusmateAuthTool } from './focusmate-auth.js';
+export { registerAuthStatusTool } from './auth-status.js';
+export { registerAuthStateTools } from './auth-state.js';
 export { registerBookSessionTool } from './book-session.js';
+export { registerBookSessionsTool } from './book-sessions.js';
 export { registerCancelSessionTool } from './cancel-session.js';
+export { registerRescheduleSessionTool } from './reschedule-session.js';
 export { registerListSessionsTool } from './list-sessions.js';
+export { registerGetPartnerProfileTool } from './get-partner-profile.js';
+export { registerGetSessionStatsTool } from './get-session-stats.js';
+export { registerRecurrenceRuleTools } from './recurrence-rules.js';
+export { registerMaterializeRulesTool } from './materialize-rules.js';
+export { registerExportSessionsIcsTool } from './export-sessions-ics.js';
+export { registerImportIcsBlocksTool } from './import-ics-blocks.js';
+export { registerFindAvailableSlotsTool } from './find-available-slots.js';
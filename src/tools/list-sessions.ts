@@ -1,162 +1,232 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { FocusmateClient } from '../api/focusmate-client.js';
 import { getApiKey } from '../api/config.js';
+import { resolvePartners } from '../api/partners.js';
+import { resolveTimeZone, withLocalTimes } from '../api/timezone.js';
 import {
-  launchPersistentContext,
   hasAuthData,
   navigateToDashboard,
   withErrorScreenshot
 } from '../automation/browser.js';
+import { browserPool } from '../automation/browser-pool.js';
+import { DashboardPage } from '../automation/pages/dashboard.js';
+import type { ErrorDetails } from '../schemas/error.js';
 import {
   ListSessionsInput,
-  type ListSessionsOutput,
+  ListSessionsOutput,
   type Session
 } from '../schemas/session.js';
-import { AuthExpiredError } from '../utils/errors.js';
-
-/** Parse a 12-hour time string like "3:30pm" into a Date using `baseDate` for the date portion. */
-function parseTime(timeStr: string, baseDate: Date): Date {
-  const match = timeStr.match(/^(\d{1,2}):(\d{2})(am|pm)$/i);
-  if (!match) throw new Error(`Cannot parse time: ${timeStr}`);
-
-  let hours = parseInt(match[1]);
-  const minutes = parseInt(match[2]);
-  const isPm = match[3].toLowerCase() === 'pm';
-
-  if (isPm && hours !== 12) hours += 12;
-  if (!isPm && hours === 12) hours = 0;
-
-  const date = new Date(baseDate);
-  date.setHours(hours, minutes, 0, 0);
-  return date;
+import { getLastSyncedAt, getStoredSessions, syncSessions } from '../store/session-store.js';
+import { AuthRequiredError } from '../utils/errors.js';
+import {
+  describeInterpretation,
+  isAbsoluteTime,
+  isInWindow,
+  resolveDateRange
+} from '../utils/natural-time.js';
+import { describeError, errorDetails, toolResult } from './result.js';
+
+export interface SessionListing {
+  sessions: Session[];
+  source: NonNullable<ListSessionsOutput['source']>;
+  syncedAt?: string;
+  warning?: string;
 }
 
-async function listViaApi(startDate: string, endDate: string): Promise<Session[]> {
+async function listViaApi(start: Date, end: Date): Promise<Session[]> {
   const client = new FocusmateClient();
-  return client.getSessions(startDate, endDate);
+  const sessions = await client.getSessions(start.toISOString(), end.toISOString());
+  return resolvePartners(client, sessions);
 }
 
-async function listViaBrowser(start: Date, end: Date): Promise<Session[]> {
+async function listViaBrowser(start: Date, end: Date, timeZone: string): Promise<Session[]> {
   if (!hasAuthData()) {
-    throw new Error('Not authenticated. Please run focusmate_auth first.');
+    throw new AuthRequiredError();
   }
 
-  const context = await launchPersistentContext({ headless: true });
-  try {
-    const page = context.pages()[0] || await context.newPage();
+  return browserPool.withPage(timeZone, async page => {
     await navigateToDashboard(page);
 
-    return await withErrorScreenshot(page, 'list-sessions', async () => {
+    return withErrorScreenshot(page, 'list-sessions', async () => {
       await page.waitForTimeout(2000);
 
-      const sessionCards = page.getByLabel('Upcoming session');
-      const count = await sessionCards.count();
-      const sessions: Session[] = [];
+      const now = new Date();
+      const cards = await new DashboardPage(page, timeZone).readUpcomingCards(now);
+
+      return cards
+        .filter(card => card.startTime < end && card.endTime > start)
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+        .map(card => ({
+          // Without a link the real ID is unknown; temp- marks it as such, like unconfirmed bookings
+          id: card.sessionId ?? `temp-${card.startTime.getTime()}`,
+          startTime: card.startTime.toISOString(),
+          endTime: card.endTime.toISOString(),
+          duration: card.duration,
+          status: card.startTime <= now ? 'in_progress' : card.pendingMatch ? 'pending' : 'matched',
+          partnerId: null,
+          partnerName: card.partnerName,
+          title: card.title
+        }));
+    });
+  });
+}
 
-      for (let i = 0; i < count; i++) {
-        const card = sessionCards.nth(i);
-        const cardText = await card.innerText() || '';
+/**
+ * List sessions in a date range. With an API key, syncs the local session
+ * store and answers from it, falling back to the stored copy if the API is
+ * unavailable. Without one, scrapes the dashboard for upcoming sessions and
+ * answers past ranges from the store.
+ */
+export async function listSessions(
+  start: Date,
+  end: Date,
+  options: { refresh?: boolean } = {}
+): Promise<SessionListing> {
+  if (getApiKey()) {
+    try {
+      const result = await syncSessions(start, end, listViaApi, options);
+      return {
+        sessions: result.sessions,
+        source: result.fetchedFrom ? 'api' : 'cache',
+        syncedAt: result.syncedAt
+      };
+    } catch (error) {
+      const syncedAt = getLastSyncedAt();
+      if (syncedAt) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          sessions: getStoredSessions(start, end),
+          source: 'cache',
+          syncedAt,
+          warning: `Focusmate API unavailable (${message}). Showing sessions stored as of ${syncedAt}.`
+        };
+      }
+      // Nothing stored yet, fall through to browser
+      console.error('API listing failed, falling back to browser:', error);
+    }
+  }
 
-        const timeMatch = cardText.match(/(\d{1,2}:\d{2}[ap]m)\s*-\s*(\d{1,2}:\d{2}[ap]m)/i);
-        if (!timeMatch) continue;
+  // The dashboard only shows upcoming sessions
+  if (end <= new Date()) {
+    return { sessions: getStoredSessions(start, end), source: 'cache', syncedAt: getLastSyncedAt() };
+  }
 
-        const durationMatch = cardText.match(/\b(25|50|75)\b/);
-        const duration = durationMatch ? parseInt(durationMatch[1]) : 50;
+  const { timeZone } = await resolveTimeZone();
+  return { sessions: await listViaBrowser(start, end, timeZone), source: 'browser' };
+}
 
-        const lines = cardText.split('\n').map(l => l.trim()).filter(Boolean);
-        const skipPatterns = /^(\d{1,2}:\d{2}[ap]m\s*-|25|50|75|Join|Clear|Starts in|≋|…|×|[.]{3})$/i;
-        const nameLine = lines.find(l => !skipPatterns.test(l) && /[a-z]/i.test(l) && l.length > 1);
-        const partnerName = nameLine || null;
+function errorResponse(output: ListSessionsOutput, error: string, details: ErrorDetails): CallToolResult {
+  return toolResult({ ...output, error, ...details });
+}
 
-        const startDate = parseTime(timeMatch[1], start);
-        const endDate = parseTime(timeMatch[2], start);
-        if (endDate <= startDate) {
-          endDate.setDate(endDate.getDate() + 1);
-        }
+interface PageCursor {
+  offset: number;
+  start: string;
+  end: string;
+}
 
-        sessions.push({
-          id: `session-${i}`,
-          startTime: startDate.toISOString(),
-          endTime: endDate.toISOString(),
-          duration,
-          status: 'matched',
-          partnerId: null,
-          partnerName
-        });
-      }
+function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
 
-      return sessions;
-    });
-  } finally {
-    await context.close();
+/** Decode a cursor, returning undefined if it is malformed or for a different range. */
+function decodeCursor(value: string, start: Date, end: Date): PageCursor | undefined {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8')) as PageCursor;
+    if (
+      Number.isInteger(cursor.offset) && cursor.offset >= 0 &&
+      cursor.start === start.toISOString() && cursor.end === end.toISOString()
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through
   }
+  return undefined;
 }
 
 export function registerListSessionsTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     'list_sessions',
-    'List upcoming Focusmate sessions. Uses the API if an API key is configured, otherwise falls back to browser scraping.',
     {
-      startDate: ListSessionsInput.shape.startDate,
-      endDate: ListSessionsInput.shape.endDate
+      description: 'List Focusmate sessions in a date range, oldest first. Uses the API if an API key is ' +
+        'configured, otherwise falls back to browser scraping. Sessions are kept in a local store that is synced ' +
+        'incrementally and answers when the API is unavailable; pass refresh to re-fetch the whole range. ' +
+        'Long ranges are supported; pass limit to page through results. Dates can be phrases like "this week" ' +
+        'or "weekdays 8-11am", read in your Focusmate time zone; the output then includes how they were interpreted.',
+      inputSchema: {
+        startDate: ListSessionsInput.shape.startDate,
+        endDate: ListSessionsInput.shape.endDate,
+        limit: ListSessionsInput.shape.limit,
+        cursor: ListSessionsInput.shape.cursor,
+        refresh: ListSessionsInput.shape.refresh
+      },
+      outputSchema: ListSessionsOutput.shape
     },
-    async ({ startDate, endDate }): Promise<{ content: Array<{ type: 'text'; text: string }> }> => {
-      const start = new Date(startDate);
-      const end = endDate ? new Date(endDate) : new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
+    async ({ startDate, endDate, limit, cursor, refresh }): Promise<CallToolResult> => {
+      const { timeZone } = await resolveTimeZone();
+      const resolved = resolveDateRange(startDate, endDate, new Date(), timeZone);
+      if (!resolved) {
+        return errorResponse(
+          { sessions: [], totalCount: 0 },
+          `Could not understand the date range "${[startDate, endDate].filter(Boolean).join('" to "')}". ` +
+          'Use ISO 8601 datetimes or phrases like "today", "this week", "next 14 days" or "weekdays 8-11am".',
+          errorDetails('INVALID_TIME')
+        );
+      }
 
-      try {
-        // Prefer API if key is configured
-        if (getApiKey()) {
-          const sessions = await listViaApi(start.toISOString(), end.toISOString());
-          const output: ListSessionsOutput = {
-            sessions,
-            totalCount: sessions.length
-          };
-          return {
-            content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
-          };
-        }
-      } catch (error) {
-        // API failed, fall through to browser
-        console.error('API listing failed, falling back to browser:', error);
+      const { start, end, window } = resolved;
+      const range = { startDate: start.toISOString(), endDate: end.toISOString() };
+      const interpretation = isAbsoluteTime(startDate) && (!endDate || isAbsoluteTime(endDate))
+        ? undefined
+        : describeInterpretation([startDate, endDate].filter(Boolean).join(' to '), resolved, timeZone);
+
+      if (end <= start) {
+        return errorResponse(
+          { sessions: [], totalCount: 0, ...range, interpretation },
+          'endDate must be after startDate.',
+          errorDetails('INVALID_TIME')
+        );
       }
 
-      // Browser fallback
-      try {
-        if (!hasAuthData()) {
-          const output: ListSessionsOutput = { sessions: [], totalCount: 0 };
-          return {
-            content: [{
-              type: 'text',
-              text: JSON.stringify({
-                ...output,
-                error: 'Not authenticated. Please run focusmate_auth first.',
-                errorCode: 'AUTH_REQUIRED'
-              }, null, 2)
-            }]
-          };
+      let offset = 0;
+      if (cursor) {
+        const decoded = decodeCursor(cursor, start, end);
+        if (!decoded) {
+          return errorResponse(
+            { sessions: [], totalCount: 0, ...range, interpretation },
+            'Invalid cursor. Pass nextCursor from a previous call with the same startDate and endDate.',
+            errorDetails('INVALID_CURSOR')
+          );
         }
+        offset = decoded.offset;
+      }
 
-        const sessions = await listViaBrowser(start, end);
+      try {
+        const listing = await listSessions(start, end, { refresh });
+        const { source, syncedAt, warning } = listing;
+        const sessions = window
+          ? listing.sessions.filter(session => isInWindow(new Date(session.startTime), window, timeZone))
+          : listing.sessions;
+        const pageEnd = limit ? offset + limit : sessions.length;
         const output: ListSessionsOutput = {
-          sessions,
-          totalCount: sessions.length
-        };
-        return {
-          content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
+          sessions: sessions.slice(offset, pageEnd).map(session => withLocalTimes(session, timeZone)),
+          totalCount: sessions.length,
+          ...range,
+          source,
+          syncedAt,
+          warning,
+          timeZone,
+          interpretation
         };
+        if (pageEnd < sessions.length) {
+          output.nextCursor = encodeCursor({ offset: pageEnd, start: range.startDate, end: range.endDate });
+        }
+        return toolResult(output);
       } catch (error) {
-        const output: ListSessionsOutput = { sessions: [], totalCount: 0 };
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({
-              ...output,
-              error: error instanceof Error ? error.message : 'Unknown error',
-              errorCode: error instanceof AuthExpiredError ? 'AUTH_EXPIRED' : 'AUTOMATION_FAILED'
-            }, null, 2)
-          }]
-        };
+        const { message, ...details } = describeError(error);
+        return errorResponse({ sessions: [], totalCount: 0, ...range, interpretation }, message, details);
       }
     }
   );
@@ -0,0 +1,109 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { resolveTimeZone } from '../api/timezone.js';
+import { expandRule, loadRules } from '../recurrence/rules.js';
+import {
+  MaterializeRulesInput,
+  MaterializeRulesOutput,
+  type MaterializedOccurrence
+} from '../schemas/recurrence.js';
+import type { Session } from '../schemas/session.js';
+import { findCoveringSession } from '../utils/sessions.js';
+import { formatZonedDateTime } from '../utils/time.js';
+import { bookSessions } from './book-sessions.js';
+import { listSessions } from './list-sessions.js';
+import { describeError, pickErrorDetails, toolResult } from './result.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function registerMaterializeRulesTool(server: McpServer): void {
+  server.registerTool(
+    'materialize_rules',
+    {
+      description: 'Book every occurrence of the stored recurring rules within the next N days, ' +
+        'skipping occurrences already covered by an existing session.',
+      inputSchema: {
+        horizonDays: MaterializeRulesInput.shape.horizonDays,
+        ruleIds: MaterializeRulesInput.shape.ruleIds,
+        dryRun: MaterializeRulesInput.shape.dryRun
+      },
+      outputSchema: MaterializeRulesOutput.shape
+    },
+    async ({ horizonDays, ruleIds, dryRun }): Promise<CallToolResult> => {
+      const now = new Date();
+      const horizonEnd = new Date(now.getTime() + horizonDays * DAY_MS);
+      const { timeZone } = await resolveTimeZone();
+
+      const rules = loadRules().filter(rule => !ruleIds || ruleIds.includes(rule.id));
+      const occurrences = rules
+        .flatMap(rule => expandRule(rule, now, horizonEnd, timeZone))
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+      const output: MaterializeRulesOutput = {
+        success: true,
+        horizonStart: now.toISOString(),
+        horizonEnd: horizonEnd.toISOString(),
+        timeZone,
+        occurrences: [],
+        bookedCount: 0,
+        existingCount: 0,
+        failedCount: 0
+      };
+
+      if (occurrences.length > 0) {
+        let existing: Session[];
+        try {
+          existing = (await listSessions(now, horizonEnd)).sessions;
+        } catch (error) {
+          // Without the current schedule we can't tell what's missing, so book nothing
+          const { message, ...details } = describeError(error);
+          return toolResult({
+            ...output,
+            success: false,
+            error: `Could not list existing sessions, so nothing was booked: ${message}`,
+            ...details
+          });
+        }
+
+        output.occurrences = occurrences.map((occurrence): MaterializedOccurrence => {
+          const covering = findCoveringSession(occurrence, existing);
+          return {
+            ruleId: occurrence.ruleId,
+            startTime: occurrence.startTime.toISOString(),
+            startTimeLocal: formatZonedDateTime(occurrence.startTime, timeZone),
+            duration: occurrence.duration,
+            status: covering ? 'existing' : 'planned',
+            sessionId: covering?.id
+          };
+        });
+
+        const toBook = output.occurrences.filter(o => o.status === 'planned');
+        if (!dryRun && toBook.length > 0) {
+          const results = await bookSessions(
+            toBook.map(o => ({ startTime: o.startTime, duration: o.duration })),
+            timeZone
+          );
+
+          results.forEach((result, i) => {
+            const occurrence = toBook[i];
+            if (result.success) {
+              occurrence.status = 'booked';
+              occurrence.sessionId = result.session?.id;
+            } else {
+              occurrence.status = 'failed';
+              occurrence.error = result.error;
+              Object.assign(occurrence, pickErrorDetails(result));
+            }
+          });
+        }
+
+        output.bookedCount = output.occurrences.filter(o => o.status === 'booked').length;
+        output.existingCount = output.occurrences.filter(o => o.status === 'existing').length;
+        output.failedCount = output.occurrences.filter(o => o.status === 'failed').length;
+        output.success = output.failedCount === 0;
+      }
+
+      return toolResult(output);
+    }
+  );
+}
@@ -0,0 +1,73 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { resolveTimeZone } from '../api/timezone.js';
+import { createRule, deleteRule, loadRules } from '../recurrence/rules.js';
+import {
+  CreateRecurrenceRuleInput,
+  CreateRecurrenceRuleOutput,
+  DeleteRecurrenceRuleInput,
+  DeleteRecurrenceRuleOutput,
+  ListRecurrenceRulesOutput
+} from '../schemas/recurrence.js';
+import { describeError, errorDetails, toolResult } from './result.js';
+
+export function registerRecurrenceRuleTools(server: McpServer): void {
+  server.registerTool(
+    'create_recurring_rule',
+    {
+      description: 'Create a standing booking rule, e.g. every weekday at 09:00 for 50 minutes. ' +
+        'Rules are stored locally; use materialize_rules to book their occurrences.',
+      inputSchema: {
+        name: CreateRecurrenceRuleInput.shape.name,
+        weekdays: CreateRecurrenceRuleInput.shape.weekdays,
+        times: CreateRecurrenceRuleInput.shape.times,
+        duration: CreateRecurrenceRuleInput.shape.duration,
+        startDate: CreateRecurrenceRuleInput.shape.startDate,
+        endDate: CreateRecurrenceRuleInput.shape.endDate,
+        exceptions: CreateRecurrenceRuleInput.shape.exceptions
+      },
+      outputSchema: CreateRecurrenceRuleOutput.shape
+    },
+    async (input): Promise<CallToolResult> => {
+      const { timeZone } = await resolveTimeZone();
+      let output: CreateRecurrenceRuleOutput;
+      try {
+        output = { success: true, rule: createRule(input, new Date(), timeZone), timeZone };
+      } catch (error) {
+        const { message, ...details } = describeError(error, 'INVALID_RULE');
+        output = { success: false, error: message, ...details };
+      }
+      return toolResult(output);
+    }
+  );
+
+  server.registerTool(
+    'list_recurring_rules',
+    {
+      description: 'List the standing booking rules stored locally.',
+      outputSchema: ListRecurrenceRulesOutput.shape
+    },
+    async (): Promise<CallToolResult> => {
+      const rules = loadRules();
+      const output: ListRecurrenceRulesOutput = { rules, totalCount: rules.length };
+      return toolResult(output);
+    }
+  );
+
+  server.registerTool(
+    'delete_recurring_rule',
+    {
+      description: 'Delete a standing booking rule. Sessions already booked from it are not cancelled.',
+      inputSchema: {
+        ruleId: DeleteRecurrenceRuleInput.shape.ruleId
+      },
+      outputSchema: DeleteRecurrenceRuleOutput.shape
+    },
+    async ({ ruleId }): Promise<CallToolResult> => {
+      const output: DeleteRecurrenceRuleOutput = deleteRule(ruleId)
+        ? { success: true, message: `Rule ${ruleId} has been deleted.` }
+        : { success: false, message: `Rule ${ruleId} not found.`, ...errorDetails('RULE_NOT_FOUND') };
+      return toolResult(output);
+    }
+  );
+}
@@ -0,0 +1,135 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { resolveTimeZone, withLocalTimes } from '../api/timezone.js';
+import {
+  RescheduleSessionInput,
+  RescheduleSessionOutput,
+  type SessionDuration
+} from '../schemas/session.js';
+import { getStoredSession } from '../store/session-store.js';
+import type { ErrorDetails } from '../schemas/error.js';
+import { describeInterpretation, isAbsoluteTime, parseTimePoint } from '../utils/natural-time.js';
+import { validateSlotStart } from '../utils/time.js';
+import { bookSessions } from './book-sessions.js';
+import { cancelSession } from './cancel-session.js';
+import { describeError, errorDetails, pickErrorDetails, toolResult } from './result.js';
+
+function respond(output: RescheduleSessionOutput): CallToolResult {
+  return toolResult(output);
+}
+
+export function registerRescheduleSessionTool(server: McpServer): void {
+  server.registerTool(
+    'reschedule_session',
+    {
+      description: 'Move a Focusmate session to a new time. The new slot is booked first and the original is ' +
+        'cancelled only once that booking is confirmed, so a failed booking leaves the original untouched. If the ' +
+        'original can\'t be cancelled, the new booking is cancelled again. The output reports which step failed.',
+      inputSchema: {
+        sessionId: RescheduleSessionInput.shape.sessionId,
+        newStartTime: RescheduleSessionInput.shape.newStartTime,
+        duration: RescheduleSessionInput.shape.duration
+      },
+      outputSchema: RescheduleSessionOutput.shape
+    },
+    async ({ sessionId, newStartTime, duration }): Promise<CallToolResult> => {
+      const now = new Date();
+      const { timeZone } = await resolveTimeZone();
+      const output: RescheduleSessionOutput = {
+        success: false,
+        message: '',
+        originalSessionId: sessionId,
+        timeZone
+      };
+
+      const fail = (
+        failedStep: RescheduleSessionOutput['failedStep'],
+        message: string,
+        error: string,
+        details: ErrorDetails
+      ) => respond({ ...output, failedStep, message, error, ...details });
+
+      const targetDate = parseTimePoint(newStartTime, now, timeZone);
+      if (!targetDate) {
+        return fail(
+          'validate',
+          'Nothing was changed.',
+          `Could not understand the new start time "${newStartTime}". ` +
+          'Use an ISO 8601 datetime or a phrase like "tomorrow 9am" or "next Tuesday at 14:30".',
+          errorDetails('INVALID_TIME')
+        );
+      }
+      if (!isAbsoluteTime(newStartTime)) {
+        output.interpretation = describeInterpretation(newStartTime, targetDate, timeZone);
+      }
+
+      const invalidReason = validateSlotStart(targetDate, now, timeZone);
+      if (invalidReason) {
+        return fail('validate', 'Nothing was changed.', invalidReason, errorDetails('INVALID_TIME'));
+      }
+
+      // Sessions can't overlap, so a new slot overlapping the original can't be booked while it exists
+      const original = getStoredSession(sessionId);
+      const newDuration = duration ?? (original ? String(original.duration) as SessionDuration : '50');
+      const newEnd = new Date(targetDate.getTime() + parseInt(newDuration) * 60 * 1000);
+      if (original && new Date(original.startTime) < newEnd && new Date(original.endTime) > targetDate) {
+        return fail(
+          'validate',
+          'Nothing was changed.',
+          'The new time overlaps the current session, so it can\'t be booked before the current one is cancelled. ' +
+          'Use cancel_session and then book_session to move it.',
+          errorDetails('SESSION_CONFLICT')
+        );
+      }
+
+      const [booking] = await bookSessions([{ startTime: targetDate.toISOString(), duration: newDuration }], timeZone);
+      if (!booking.success || !booking.session) {
+        return fail(
+          'book',
+          `Could not book the new time. Session ${sessionId} was left untouched.`,
+          booking.error ?? 'Unknown error occurred',
+          booking.errorCode ? pickErrorDetails(booking) : errorDetails('AUTOMATION_FAILED')
+        );
+      }
+      output.newSession = withLocalTimes(booking.session, timeZone);
+
+      try {
+        await cancelSession(sessionId);
+      } catch (error) {
+        const { message: cancelError, ...details } = describeError(error);
+
+        // Undo the new booking so the schedule is as it was, if we know its ID
+        let rolledBack = false;
+        if (!booking.session.id.startsWith('temp-')) {
+          try {
+            await cancelSession(booking.session.id);
+            rolledBack = true;
+          } catch (rollbackError) {
+            console.error('Rolling back the new booking failed:', rollbackError);
+          }
+        }
+
+        return respond({
+          ...output,
+          failedStep: 'cancel',
+          rolledBack,
+          message: rolledBack
+            ? `Could not cancel session ${sessionId}, so the new booking was cancelled again. ` +
+              'Your schedule is unchanged.'
+            : `Could not cancel session ${sessionId}, and the new booking could not be undone. ` +
+              'Both sessions are booked; cancel one of them with cancel_session.',
+          error: cancelError,
+          ...details,
+          // With both sessions booked, running the same move again would book a third
+          retryable: rolledBack && details.retryable
+        });
+      }
+
+      return respond({
+        ...output,
+        success: true,
+        message: `Session ${sessionId} was moved to ${output.newSession.startTimeLocal}.`
+      });
+    }
+  );
+}
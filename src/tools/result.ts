@@ -0,0 +1,59 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ErrorDetails } from '../schemas/error.js';
+import { ApiError, AutomationFailedError, FocusmateError } from '../utils/errors.js';
+
+// Codes for failures that may pass on their own, with how long to wait when it's predictable
+const RETRY_HINTS: Record<string, { retryAfterSeconds?: number }> = {
+  BROWSER_BUSY: { retryAfterSeconds: 30 },
+  RATE_LIMITED: { retryAfterSeconds: 60 },
+  AUTOMATION_FAILED: {},
+  API_ERROR: {}
+};
+
+export type ErrorDescription = ErrorDetails & {
+  message: string;
+  errorCode: string;
+  retryable: boolean;
+};
+
+/** Retry hints for a failure with `errorCode`, e.g. a rejected input that was never attempted. */
+export function errorDetails(errorCode: string): ErrorDetails & { errorCode: string; retryable: boolean } {
+  const hint = RETRY_HINTS[errorCode];
+  return { errorCode, retryable: hint !== undefined, retryAfterSeconds: hint?.retryAfterSeconds };
+}
+
+/**
+ * Describe a caught error for a tool output: FocusmateErrors carry their own
+ * code, anything else gets `fallbackCode`. ApiErrors are retryable only for
+ * server errors and failed requests, and AutomationFailedErrors add the
+ * screenshot taken when they happened.
+ */
+export function describeError(error: unknown, fallbackCode = 'AUTOMATION_FAILED'): ErrorDescription {
+  const details = errorDetails(error instanceof FocusmateError ? error.code : fallbackCode);
+  if (error instanceof ApiError && !error.retryable) {
+    details.retryable = false;
+  }
+  return {
+    message: error instanceof Error ? error.message : 'Unknown error occurred',
+    ...details,
+    screenshotPath: error instanceof AutomationFailedError ? error.screenshotPath : undefined
+  };
+}
+
+/**
+ * Wrap a tool's output as both JSON text and structuredContent. The result is
+ * flagged isError when the output carries an errorCode, i.e. the call as a
+ * whole failed; batch tools report failed items in their results instead.
+ */
+export function toolResult(output: Record<string, unknown>): CallToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+    structuredContent: output,
+    isError: output.errorCode !== undefined
+  };
+}
+
+/** The error fields of `source`, e.g. a failed booking, to copy onto a report about it. */
+export function pickErrorDetails({ errorCode, retryable, retryAfterSeconds, screenshotPath }: ErrorDetails): ErrorDetails {
+  return { errorCode, retryable, retryAfterSeconds, screenshotPath };
+}
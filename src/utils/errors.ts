@@ -1,3 +1,5 @@
+import type { SessionCandidate } from '../schemas/session.js';
+
 export class FocusmateError extends Error {
   constructor(
     message: string,
@@ -15,6 +17,13 @@ export class AuthExpiredError extends FocusmateError {
   }
 }
 
+export class AuthRequiredError extends FocusmateError {
+  constructor(message = 'Not authenticated. Please run focusmate_auth first.') {
+    super(message, 'AUTH_REQUIRED');
+    this.name = 'AuthRequiredError';
+  }
+}
+
 export class SlotUnavailableError extends FocusmateError {
   constructor(message = 'The requested time slot is not available.') {
     super(message, 'SLOT_UNAVAILABLE');
@@ -36,9 +45,67 @@ export class SessionNotFoundError extends FocusmateError {
   }
 }
 
+export class AmbiguousSessionError extends FocusmateError {
+  constructor(message: string, public candidates: SessionCandidate[]) {
+    super(message, 'AMBIGUOUS_SESSION');
+    this.name = 'AmbiguousSessionError';
+  }
+}
+
+export class RateLimitedError extends FocusmateError {
+  constructor(message = 'Focusmate API rate limit exceeded. Wait before retrying.') {
+    super(message, 'RATE_LIMITED');
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class ApiKeyMissingError extends FocusmateError {
+  constructor(
+    message = 'Focusmate API key not configured. ' +
+      'Generate one at https://www.focusmate.com/profile/edit-p ' +
+      'and store it in ~/.focusmate-mcp/config.json as {"apiKey": "your-key"}'
+  ) {
+    super(message, 'CONFIG_ERROR');
+    this.name = 'ApiKeyMissingError';
+  }
+}
+
+export class InvalidApiKeyError extends FocusmateError {
+  constructor(message = 'Invalid Focusmate API key. Check ~/.focusmate-mcp/config.json') {
+    super(message, 'INVALID_API_KEY');
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class ApiError extends FocusmateError {
+  constructor(message: string, public status?: number) {
+    super(message, 'API_ERROR');
+    this.name = 'ApiError';
+  }
+
+  /** Server errors and unreachable APIs may pass; other statuses, like 404, will fail the same way again. */
+  get retryable(): boolean {
+    return this.status === undefined || this.status >= 500;
+  }
+}
+
 export class AutomationFailedError extends FocusmateError {
   constructor(message: string, public screenshotPath?: string) {
     super(message, 'AUTOMATION_FAILED');
     this.name = 'AutomationFailedError';
   }
 }
+
+export class BrowserBusyError extends FocusmateError {
+  constructor(message = 'The browser is busy with another operation. Try again shortly.') {
+    super(message, 'BROWSER_BUSY');
+    this.name = 'BrowserBusyError';
+  }
+}
+
+export class LoginFailedError extends FocusmateError {
+  constructor(message = 'Focusmate did not accept the login.') {
+    super(message, 'LOGIN_FAILED');
+    this.name = 'LoginFailedError';
+  }
+}
@@ -0,0 +1,490 @@
+import type { TimeInterpretation } from '../schemas/session.js';
+import { formatZonedDateTime, getZonedParts, zonedTimeToUtc } from './time.js';
+
+/** Restricts a range to certain weekdays and times of day in the account's zone. */
+export interface DailyWindow {
+  weekdays: number[]; // 0 = Sunday
+  startMinutes: number; // Minutes after local midnight
+  endMinutes: number;
+}
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+  window?: DailyWindow;
+}
+
+interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface Clock {
+  hours: number;
+  minutes: number;
+}
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+const WORKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [0, 6];
+const MINUTES_PER_DAY = 24 * 60;
+const DEFAULT_RANGE_DAYS = 7;
+
+const ISO_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/** Match a full or abbreviated (three letters or more) name, e.g. "tue" or "sept". */
+function lookupName(word: string, names: string[]): number | undefined {
+  if (word.length < 3) return undefined;
+  const index = names.findIndex(name => name.startsWith(word));
+  return index === -1 ? undefined : index;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[–—]/g, '-')
+    .replace(/,/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function isValidDate({ year, month, day }: CalendarDate): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function addDays({ year, month, day }: CalendarDate, days: number): CalendarDate {
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function weekdayOf({ year, month, day }: CalendarDate): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+function at(date: CalendarDate, clock: Clock, timeZone: string): Date {
+  return zonedTimeToUtc(date.year, date.month, date.day, clock.hours, clock.minutes, timeZone);
+}
+
+function clockAt(minuteOfDay: number): Clock {
+  return { hours: Math.floor(minuteOfDay / 60), minutes: minuteOfDay % 60 };
+}
+
+function startOfDay(date: CalendarDate, timeZone: string): Date {
+  return at(date, { hours: 0, minutes: 0 }, timeZone);
+}
+
+/** Build a clock time from "9", "30" and "pm"; hours are 1-12 with a meridiem and 0-23 without. */
+function toClock(hourText: string, minuteText: string | undefined, meridiem: string | undefined): Clock | undefined {
+  let hours = parseInt(hourText);
+  const minutes = minuteText ? parseInt(minuteText) : 0;
+  if (minutes > 59) return undefined;
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return undefined;
+    if (meridiem === 'pm' && hours !== 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+  } else if (hours > 23) {
+    return undefined;
+  }
+  return { hours, minutes };
+}
+
+/**
+ * Find a time of day in a phrase, e.g. "9am", "at 14:30" or "noon", and return
+ * it with the rest of the phrase. A bare hour needs "at" in front of it.
+ */
+function extractClock(phrase: string): { clock: Clock; rest: string } | undefined {
+  const patterns: Array<[RegExp, (m: RegExpMatchArray) => Clock | undefined]> = [
+    [/(?:^| )(?:at )?(noon|midnight)(?= |$)/, m => ({ hours: m[1] === 'noon' ? 12 : 0, minutes: 0 })],
+    [/(?:^| )(?:at )?(\d{1,2})(?::(\d{2}))? ?(am|pm)(?= |$)/, m => toClock(m[1], m[2], m[3])],
+    [/(?:^| )(?:at )?(\d{1,2}):(\d{2})(?= |$)/, m => toClock(m[1], m[2], undefined)],
+    [/(?:^| )at (\d{1,2})(?= |$)/, m => toClock(m[1], undefined, undefined)]
+  ];
+
+  for (const [pattern, build] of patterns) {
+    const match = phrase.match(pattern);
+    if (!match) continue;
+    const clock = build(match);
+    if (!clock) return undefined;
+    const rest = (phrase.slice(0, match.index) + phrase.slice(match.index! + match[0].length)).trim();
+    return { clock, rest: rest.replace(/^on /, '').replace(/ at$/, '') };
+  }
+  return undefined;
+}
+
+/**
+ * Find a time-of-day span like "8-11am", "8am to 11am" or "14:00-16:30".
+ * A start without am/pm takes the end's, unless that would put it after the end.
+ */
+function extractSpan(phrase: string): { startMinutes: number; endMinutes: number; rest: string } | undefined {
+  const match = phrase.match(
+    /(?:^| )(?:from |between )?(\d{1,2})(?::(\d{2}))? ?(am|pm)? ?(?:-|to|and|until) ?(\d{1,2})(?::(\d{2}))? ?(am|pm)?(?= |$)/
+  );
+  // Without a colon or am/pm this is more likely a count, as in "next 3-4 days"
+  if (!match || !(match[2] || match[3] || match[5] || match[6])) return undefined;
+
+  const end = toClock(match[4], match[5], match[6]);
+  let start = toClock(match[1], match[2], match[3] ?? match[6]);
+  if (!end || !start) return undefined;
+
+  const toMinutes = (clock: Clock): number => clock.hours * 60 + clock.minutes;
+  if (!match[3] && match[6] && toMinutes(start) >= toMinutes(end)) {
+    start = toClock(match[1], match[2], match[6] === 'pm' ? 'am' : 'pm');
+    if (!start) return undefined;
+  }
+  if (toMinutes(start) >= toMinutes(end)) return undefined;
+
+  const rest = (phrase.slice(0, match.index) + phrase.slice(match.index! + match[0].length)).trim();
+  return { startMinutes: toMinutes(start), endMinutes: toMinutes(end), rest };
+}
+
+/** Pull recurring-day words like "weekdays" or "mondays and fridays" out of a phrase. */
+function extractDayFilter(phrase: string): { weekdays: number[]; rest: string } | undefined {
+  const filterDays = (word: string | undefined): number[] | undefined => {
+    if (!word) return undefined;
+    if (word === 'weekdays') return WORKDAYS;
+    if (word === 'weekends') return WEEKEND;
+    const index = word.endsWith('s') ? WEEKDAY_NAMES.indexOf(word.slice(0, -1)) : -1;
+    return index === -1 ? undefined : [index];
+  };
+
+  const words = phrase ? phrase.split(' ') : [];
+  const weekdays = new Set<number>();
+  const rest: string[] = [];
+  words.forEach((word, i) => {
+    const days = filterDays(word);
+    if (days) {
+      days.forEach(day => weekdays.add(day));
+    } else if (['and', 'on', 'every'].includes(word) && (filterDays(words[i + 1]) || filterDays(words[i - 1]))) {
+      // Connective between or before day words
+    } else {
+      rest.push(word);
+    }
+  });
+
+  if (weekdays.size === 0) return undefined;
+  return { weekdays: [...weekdays].sort((a, b) => a - b), rest: rest.join(' ') };
+}
+
+/**
+ * Parse a single day: "today", "tomorrow", "friday", "next tuesday",
+ * "2026-04-07", "april 7", "wed apr 1", "7 apr 2027" or "in 3 days". Weekday names mean the
+ * next such day, counting today; "next" skips today.
+ */
+function parseDay(phrase: string, today: CalendarDate): CalendarDate | undefined {
+  const relative = new Map([['today', 0], ['tomorrow', 1], ['day after tomorrow', 2], ['yesterday', -1]]);
+  const offset = relative.get(phrase);
+  if (offset !== undefined) {
+    return addDays(today, offset);
+  }
+
+  const inDays = phrase.match(/^in (\d+) days?$/);
+  if (inDays) {
+    return addDays(today, parseInt(inDays[1]));
+  }
+
+  const weekday = phrase.match(/^(?:(this|next) )?([a-z]+)$/);
+  if (weekday) {
+    const index = lookupName(weekday[2], WEEKDAY_NAMES);
+    if (index !== undefined) {
+      let ahead = (index - weekdayOf(today) + 7) % 7;
+      if (weekday[1] === 'next' && ahead === 0) ahead = 7;
+      return addDays(today, ahead);
+    }
+  }
+
+  // A weekday in front of a date, as in "wed apr 1", adds nothing
+  const weekdayPrefix = phrase.match(/^([a-z]+) (?=\S+ \S+)/);
+  if (weekdayPrefix && lookupName(weekdayPrefix[1], WEEKDAY_NAMES) !== undefined) {
+    phrase = phrase.slice(weekdayPrefix[0].length);
+  }
+
+  let date: CalendarDate | undefined;
+  let explicitYear = true;
+  const iso = phrase.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const monthFirst = phrase.match(/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/);
+  const dayFirst = phrase.match(/^(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)(?: (\d{4}))?$/);
+  if (iso) {
+    date = { year: parseInt(iso[1]), month: parseInt(iso[2]), day: parseInt(iso[3]) };
+  } else if (monthFirst || dayFirst) {
+    const [monthName, dayText, yearText] = monthFirst
+      ? [monthFirst[1], monthFirst[2], monthFirst[3]]
+      : [dayFirst![2], dayFirst![1], dayFirst![3]];
+    const month = lookupName(monthName, MONTH_NAMES);
+    if (month === undefined) return undefined;
+    explicitYear = Boolean(yearText);
+    date = { year: yearText ? parseInt(yearText) : today.year, month: month + 1, day: parseInt(dayText) };
+  }
+
+  if (!date || !isValidDate(date)) return undefined;
+  // "March 3" in December means next March
+  if (!explicitYear && compareDates(date, today) < 0) {
+    date = { ...date, year: date.year + 1 };
+  }
+  return date;
+}
+
+/**
+ * Parse a calendar period as [from, to) days: a single day, "this week",
+ * "next month", "next 14 days", "last 2 weeks" or "this weekend". Weeks
+ * start on Monday. "Last N days" includes today.
+ */
+function parsePeriod(phrase: string, today: CalendarDate): { from: CalendarDate; to: CalendarDate } | undefined {
+  const day = parseDay(phrase, today);
+  if (day) {
+    return { from: day, to: addDays(day, 1) };
+  }
+
+  const monday = addDays(today, -((weekdayOf(today) + 6) % 7));
+  const shifts: Record<string, number> = { this: 0, next: 1, last: -1 };
+
+  const week = phrase.match(/^(this|next|last) week$/);
+  if (week) {
+    const from = addDays(monday, shifts[week[1]] * 7);
+    return { from, to: addDays(from, 7) };
+  }
+
+  const weekend = phrase.match(/^(this|next|last) weekend$/);
+  if (weekend) {
+    const from = addDays(monday, shifts[weekend[1]] * 7 + 5);
+    return { from, to: addDays(from, 2) };
+  }
+
+  const month = phrase.match(/^(this|next|last) month$/);
+  if (month) {
+    const first = new Date(Date.UTC(today.year, today.month - 1 + shifts[month[1]], 1));
+    const from = { year: first.getUTCFullYear(), month: first.getUTCMonth() + 1, day: 1 };
+    const next = new Date(Date.UTC(from.year, from.month, 1));
+    return { from, to: { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: 1 } };
+  }
+
+  const span = phrase.match(/^(next|last|past) (\d+) (day|week)s?$/);
+  if (span) {
+    const days = parseInt(span[2]) * (span[3] === 'week' ? 7 : 1);
+    return span[1] === 'next'
+      ? { from: today, to: addDays(today, days) }
+      : { from: addDays(today, 1 - days), to: addDays(today, 1) };
+  }
+
+  return undefined;
+}
+
+/** Whether `text` is an ISO 8601 datetime with an explicit UTC offset, which needs no interpretation. */
+export function isAbsoluteTime(text: string): boolean {
+  const match = text.trim().match(ISO_DATE_TIME);
+  return Boolean(match?.[7]) && !isNaN(new Date(text.trim()).getTime());
+}
+
+/** ISO 8601 datetimes, reading ones without an offset as wall-clock time in `timeZone`. */
+function parseIsoDateTime(text: string, timeZone: string): Date | undefined {
+  const match = text.match(ISO_DATE_TIME);
+  if (!match) return undefined;
+
+  if (match[7]) {
+    const date = new Date(text.replace(' ', 'T'));
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  const [year, month, day, hours, minutes] = match.slice(1, 6).map(Number);
+  const clock = toClock(match[4], match[5], undefined);
+  if (!clock || !isValidDate({ year, month, day })) return undefined;
+  return zonedTimeToUtc(year, month, day, hours, minutes, timeZone, Number(match[6] ?? 0));
+}
+
+/**
+ * Parse a moment in time, e.g. "tomorrow 9am", "next Tuesday at 14:30",
+ * "friday noon", "in 90 minutes" or an ISO 8601 datetime. Phrases are read in
+ * `timeZone`. A time without a day means its next occurrence. Returns
+ * undefined if the text isn't understood.
+ */
+export function parseTimePoint(text: string, now: Date, timeZone: string): Date | undefined {
+  const iso = parseIsoDateTime(text.trim(), timeZone);
+  if (iso) return iso;
+
+  const phrase = normalize(text);
+  const relative = phrase.match(/^in (\d+) (minute|min|hour|hr)s?$/);
+  if (relative) {
+    const unitMs = relative[2].startsWith('h') ? 60 * 60 * 1000 : 60 * 1000;
+    return new Date(now.getTime() + parseInt(relative[1]) * unitMs);
+  }
+
+  const extracted = extractClock(phrase);
+  if (!extracted) return undefined;
+
+  const { clock, rest } = extracted;
+  const today = getZonedParts(now, timeZone);
+  if (rest) {
+    const day = parseDay(rest, today);
+    return day ? at(day, clock, timeZone) : undefined;
+  }
+
+  const todayAt = at(today, clock, timeZone);
+  return todayAt > now ? todayAt : at(addDays(today, 1), clock, timeZone);
+}
+
+/**
+ * Parse a span of time, e.g. "this week", "tomorrow", "next 14 days",
+ * "tomorrow 9am-noon" or "weekdays 8-11am". Day filters and times of day
+ * without a period cover the next 7 days and come back as a window to filter
+ * by. Returns undefined if the text isn't understood.
+ */
+export function parseTimeRange(text: string, now: Date, timeZone: string): TimeRange | undefined {
+  const phrase = normalize(text.replace(/\bnoon\b/gi, '12pm'));
+  const today = getZonedParts(now, timeZone);
+
+  const span = extractSpan(phrase);
+  const filter = extractDayFilter(span ? span.rest : phrase);
+  const rest = filter ? filter.rest : span ? span.rest : phrase;
+
+  let period: { from: CalendarDate; to: CalendarDate } | undefined;
+  if (rest) {
+    period = parsePeriod(rest, today);
+    if (!period) return undefined;
+  } else if (span || filter) {
+    period = { from: today, to: addDays(today, DEFAULT_RANGE_DAYS) };
+  } else {
+    return undefined;
+  }
+
+  const start = startOfDay(period.from, timeZone);
+  const end = startOfDay(period.to, timeZone);
+
+  // A time span on a single day is just a shorter range. Build each end from
+  // the wall clock, since the day may be shorter or longer than 24 hours.
+  if (span && !filter && compareDates(addDays(period.from, 1), period.to) === 0) {
+    return {
+      start: at(period.from, clockAt(span.startMinutes), timeZone),
+      end: at(period.from, clockAt(span.endMinutes), timeZone)
+    };
+  }
+
+  if (!span && !filter) {
+    return { start, end };
+  }
+
+  return {
+    start,
+    end,
+    window: {
+      weekdays: filter?.weekdays ?? ALL_WEEKDAYS,
+      startMinutes: span?.startMinutes ?? 0,
+      endMinutes: span?.endMinutes ?? MINUTES_PER_DAY
+    }
+  };
+}
+
+/**
+ * Resolve a start and optional end, each ISO 8601 or a phrase, into a range.
+ * A phrase naming a span like "this week" sets the end too, unless `endText`
+ * is given; a moment is followed by `defaultLengthMs`. Returns undefined if
+ * either isn't understood.
+ */
+export function resolveDateRange(
+  startText: string,
+  endText: string | undefined,
+  now: Date,
+  timeZone: string,
+  defaultLengthMs: number = DEFAULT_RANGE_DAYS * MINUTES_PER_DAY * 60 * 1000
+): TimeRange | undefined {
+  const startRange = parseTimeRange(startText, now, timeZone);
+  const start = startRange?.start ?? parseTimePoint(startText, now, timeZone);
+  if (!start) return undefined;
+
+  let end = startRange?.end ?? new Date(start.getTime() + defaultLengthMs);
+  if (endText) {
+    const parsedEnd = parseTimeRange(endText, now, timeZone)?.end ?? parseTimePoint(endText, now, timeZone);
+    if (!parsedEnd) return undefined;
+    end = parsedEnd;
+  }
+
+  return { start, end, window: startRange?.window };
+}
+
+/**
+ * Read a day label such as "Today", "Tomorrow" or "Wed, Apr 1" as a calendar
+ * date in `timeZone`, e.g. "2026-04-01". Returns undefined for anything else.
+ */
+export function parseDayLabel(text: string, now: Date, timeZone: string): string | undefined {
+  const day = parseDay(normalize(text), getZonedParts(now, timeZone));
+  if (!day) return undefined;
+  const pad = (n: number): string => n.toString().padStart(2, '0');
+  return `${day.year}-${pad(day.month)}-${pad(day.day)}`;
+}
+
+/** Whether `date` falls on one of the window's weekdays and within its times of day in `timeZone`. */
+export function isInWindow(date: Date, window: DailyWindow, timeZone: string): boolean {
+  const { weekday, hours, minutes } = getZonedParts(date, timeZone);
+  const minuteOfDay = hours * 60 + minutes;
+  return window.weekdays.includes(weekday) &&
+    minuteOfDay >= window.startMinutes &&
+    minuteOfDay < window.endMinutes;
+}
+
+function formatMinutes(minuteOfDay: number): string {
+  const pad = (n: number): string => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(minuteOfDay / 60))}:${pad(minuteOfDay % 60)}`;
+}
+
+function describeInstant(date: Date, timeZone: string): string {
+  return date.toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+function describeWeekdays(weekdays: number[]): string {
+  if (weekdays.join() === WORKDAYS.join()) return 'weekdays';
+  if (weekdays.join() === WEEKEND.join()) return 'weekends';
+  return weekdays.map(day => WEEKDAY_NAMES[day][0].toUpperCase() + WEEKDAY_NAMES[day].slice(1) + 's').join(', ');
+}
+
+/** Describe how `input` was read, so the caller can confirm it. */
+export function describeInterpretation(input: string, resolved: Date | TimeRange, timeZone: string): TimeInterpretation {
+  const range = resolved instanceof Date ? { start: resolved } : resolved;
+  const interpretation: TimeInterpretation = {
+    input,
+    startTime: range.start.toISOString(),
+    startTimeLocal: formatZonedDateTime(range.start, timeZone),
+    description: `${describeInstant(range.start, timeZone)} (${timeZone})`
+  };
+
+  if ('end' in range) {
+    interpretation.endTime = range.end.toISOString();
+    interpretation.endTimeLocal = formatZonedDateTime(range.end, timeZone);
+    interpretation.description =
+      `${describeInstant(range.start, timeZone)} to ${describeInstant(range.end, timeZone)} (${timeZone})`;
+  }
+
+  if ('window' in range && range.window) {
+    const { weekdays, startMinutes, endMinutes } = range.window;
+    if (weekdays.length < ALL_WEEKDAYS.length) {
+      interpretation.weekdays = weekdays.map(day => WEEKDAY_NAMES[day]);
+    }
+    if (startMinutes > 0 || endMinutes < MINUTES_PER_DAY) {
+      interpretation.timeOfDay = { start: formatMinutes(startMinutes), end: formatMinutes(endMinutes) };
+    }
+    const filters = [
+      weekdays.length < ALL_WEEKDAYS.length ? describeWeekdays(weekdays) : undefined,
+      interpretation.timeOfDay ? `${interpretation.timeOfDay.start}-${interpretation.timeOfDay.end}` : undefined
+    ].filter(Boolean);
+    interpretation.description += `, ${filters.join(' ')} only`;
+  }
+
+  return interpretation;
+}
@@ -0,0 +1,16 @@
+import type { Session, SessionDuration } from '../schemas/session.js';
+
+/** Find an active session that overlaps a planned session's time range. */
+export function findCoveringSession(
+  planned: { startTime: Date; duration: SessionDuration },
+  sessions: Session[]
+): Session | undefined {
+  const start = planned.startTime.getTime();
+  const end = start + parseInt(planned.duration) * 60000;
+
+  return sessions.find(session =>
+    session.status !== 'cancelled' &&
+    new Date(session.startTime).getTime() < end &&
+    new Date(session.endTime).getTime() > start
+  );
+}
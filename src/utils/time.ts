@@ -0,0 +1,157 @@
+/**
+ * Validate that a session start time is bookable. The suggested times in the
+ * error message are in `timeZone`, the Focusmate account's zone.
+ * Returns an error message, or undefined if the time is valid.
+ */
+export function validateSlotStart(
+  targetDate: Date,
+  now: Date = new Date(),
+  timeZone: string = getSystemTimeZone()
+): string | undefined {
+  if (isNaN(targetDate.getTime())) {
+    return 'Invalid date.';
+  }
+
+  if (targetDate <= now) {
+    return 'Cannot book sessions in the past.';
+  }
+
+  // Focusmate sessions start on 15-minute boundaries in the account's zone
+  const { hours, minutes } = getZonedParts(targetDate, timeZone);
+  if (minutes % 15 !== 0) {
+    return `Invalid time. Focusmate sessions start every 15 minutes. ` +
+      `Choose a time like ${hours}:00, ${hours}:15, ${hours}:30, or ${hours}:45 (${timeZone}).`;
+  }
+
+  return undefined;
+}
+
+/** Format a Date as a local calendar date, e.g. "2026-04-01". */
+export function formatLocalDate(date: Date): string {
+  const y = date.getFullYear();
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/** Parse a "YYYY-MM-DD" calendar date as local midnight. */
+export function parseLocalDate(value: string): Date {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/** Offset of `timeZone` from UTC at `date`, in milliseconds (positive east of UTC). */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(date);
+  const get = (type: string): number => Number(parts.find(p => p.type === type)?.value);
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The instant a wall-clock time occurs in `timeZone`. Throws a RangeError for
+ * unknown zones. Times skipped by a DST change move forward by the gap, so
+ * 2:30am on a spring-forward night is 3:30am; repeated times resolve to the
+ * first occurrence.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number, // 1-12
+  day: number,
+  hours: number,
+  minutes: number,
+  timeZone: string,
+  seconds = 0
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  // Zones change offset at most once in a day, so these are the offsets either side of any change
+  const before = getTimeZoneOffset(new Date(wallClock - DAY_MS), timeZone);
+  const after = getTimeZoneOffset(new Date(wallClock + DAY_MS), timeZone);
+  const matches = [before, after]
+    .map(offset => wallClock - offset)
+    .filter(utc => wallClock - getTimeZoneOffset(new Date(utc), timeZone) === utc);
+  // No match means the time was skipped; the offset before the change puts it after the gap
+  return new Date(matches.length > 0 ? Math.min(...matches) : wallClock - before);
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+  weekday: number; // 0 = Sunday, as Date.getDay()
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/** The server process's own time zone, e.g. "Europe/London". */
+export function getSystemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Calendar date, wall-clock time and weekday of `date` in `timeZone`. */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short'
+  }).formatToParts(date);
+  const get = (type: string): string => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hours: Number(get('hour')),
+    minutes: Number(get('minute')),
+    weekday: WEEKDAY_INDEX[get('weekday')]
+  };
+}
+
+/** Format a Date as a calendar date in `timeZone`, e.g. "2026-04-01". */
+export function formatZonedDate(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Format a Date as ISO 8601 wall-clock time in `timeZone` with its UTC offset,
+ * e.g. "2026-04-01T09:00:00-04:00".
+ */
+export function formatZonedDateTime(date: Date, timeZone: string): string {
+  const { hours, minutes } = getZonedParts(date, timeZone);
+  const offsetMinutes = Math.round(getTimeZoneOffset(date, timeZone) / 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  const pad = (n: number): string => n.toString().padStart(2, '0');
+
+  return `${formatZonedDate(date, timeZone)}T${pad(hours)}:${pad(minutes)}:${pad(date.getUTCSeconds())}` +
+    `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { decryptAuthState, encryptAuthState, pickAuthRecords } from '../src/automation/auth-state.js';
+import type { StorageState } from '../src/automation/storage-state.js';
+import { runCli } from '../src/cli.js';
+import { createServer } from '../src/server.js';
+import type { AuthOutput } from '../src/schemas/session.js';
+
+const PASSPHRASE = 'correct horse battery';
+
+const FIREBASE_DB = {
+  name: 'firebaseLocalStorageDb',
+  version: 1,
+  stores: [{
+    name: 'firebaseLocalStorage',
+    autoIncrement: false,
+    keyPath: 'fbase_key',
+    records: [{ value: { fbase_key: 'firebase:authUser:key:[DEFAULT]', value: { uid: 'u1' } } }]
+  }]
+};
+
+const STATE: StorageState = {
+  cookies: [
+    { name: 'sid', value: 'abc', domain: '.focusmate.com', path: '/', expires: -1, httpOnly: true, secure: true, sameSite: 'Lax' },
+    { name: '_ga', value: 'tracker', domain: '.google.com', path: '/', expires: -1, httpOnly: false, secure: true, sameSite: 'None' }
+  ],
+  origins: [
+    {
+      origin: 'https://app.focusmate.com',
+      localStorage: [{ name: 'theme', value: 'dark' }],
+      indexedDB: [FIREBASE_DB, { name: 'app-cache', version: 3, stores: [] }]
+    },
+    { origin: 'https://accounts.google.com', localStorage: [{ name: 'x', value: 'y' }] }
+  ]
+};
+
+describe('pickAuthRecords', () => {
+  it('keeps only Focusmate cookies, origins and the Firebase database', () => {
+    expect(pickAuthRecords(STATE)).toEqual({
+      cookies: [STATE.cookies[0]],
+      origins: [{
+        origin: 'https://app.focusmate.com',
+        localStorage: [{ name: 'theme', value: 'dark' }],
+        indexedDB: [FIREBASE_DB]
+      }]
+    });
+  });
+});
+
+describe('encryptAuthState', () => {
+  it('round-trips with the right passphrase, without the secrets in the clear', () => {
+    const encrypted = encryptAuthState(STATE, PASSPHRASE);
+
+    expect(encrypted).not.toContain('abc');
+    expect(encrypted).not.toContain('firebase');
+    expect(decryptAuthState(encrypted, PASSPHRASE)).toEqual(STATE);
+  });
+
+  it('rejects a wrong passphrase and tampered data', () => {
+    const encrypted = encryptAuthState(STATE, PASSPHRASE);
+    expect(() => decryptAuthState(encrypted, 'wrong passphrase')).toThrow(/Check the passphrase/);
+
+    const file = JSON.parse(encrypted);
+    const data = Buffer.from(file.data, 'base64');
+    data[0] ^= 1;
+    const tampered = JSON.stringify({ ...file, data: data.toString('base64') });
+    expect(() => decryptAuthState(tampered, PASSPHRASE)).toThrow(/Check the passphrase/);
+  });
+
+  it('rejects files that are not exports, and short passphrases', () => {
+    expect(() => decryptAuthState(JSON.stringify(STATE), PASSPHRASE)).toThrow(/Not an exported Focusmate login/);
+    expect(() => encryptAuthState(STATE, 'short')).toThrow(/at least 8 characters/);
+  });
+});
+
+describe('auth state tools', () => {
+  let client: Client;
+  const exportPath = path.join(configDir, 'login.fmauth');
+
+  beforeEach(async () => {
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    fs.rmSync(exportPath, { force: true });
+  });
+
+  async function call(name: string, args: Record<string, unknown>): Promise<AuthOutput> {
+    const result = await client.callTool({ name, arguments: args });
+    const content = result.content as Array<{ type: string; text: string }>;
+    return JSON.parse(content[0].text);
+  }
+
+  it('refuses to export without a saved login', async () => {
+    const output = await call('export_auth_state', { path: exportPath, passphrase: PASSPHRASE });
+
+    expect(output).toMatchObject({ success: false, errorCode: 'AUTH_REQUIRED' });
+    expect(fs.existsSync(exportPath)).toBe(false);
+  });
+
+  it('refuses a short passphrase', async () => {
+    const output = await call('export_auth_state', { path: exportPath, passphrase: 'short' });
+
+    expect(output).toMatchObject({ success: false, errorCode: 'INVALID_INPUT' });
+  });
+
+  it('reports a wrong passphrase on import without touching the profile', async () => {
+    fs.writeFileSync(exportPath, encryptAuthState(STATE, PASSPHRASE));
+
+    const output = await call('import_auth_state', { path: exportPath, passphrase: 'not the passphrase' });
+
+    expect(output).toMatchObject({ success: false, errorCode: 'INVALID_INPUT' });
+    expect(output.message).toContain('Check the passphrase');
+  });
+
+  it('reports a missing file on import', async () => {
+    const output = await call('import_auth_state', { path: exportPath, passphrase: PASSPHRASE });
+
+    expect(output).toMatchObject({ success: false, errorCode: 'INVALID_INPUT' });
+    expect(output.message).toContain('Could not read');
+  });
+});
+
+describe('runCli', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('prints usage for unknown commands', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await runCli(['export-auth'])).toBe(2);
+    expect(error.mock.calls[0][0]).toContain('import-auth <file>');
+  });
+
+  it('fails an import with the wrong passphrase from the environment', async () => {
+    const file = path.join(configDir, 'cli.fmauth');
+    fs.writeFileSync(file, encryptAuthState(STATE, PASSPHRASE));
+    vi.stubEnv('FOCUSMATE_AUTH_PASSPHRASE', 'not the passphrase');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await runCli(['import-auth', file])).toBe(1);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('Check the passphrase'));
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Browser, Page } from 'playwright';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { FOCUSMATE_APP_URL, navigateToDashboard, readFirebaseAuth } from '../src/automation/browser.js';
+import { isTokenExpired } from '../src/automation/auth-status.js';
+import { createServer } from '../src/server.js';
+import type { AuthStatusOutput } from '../src/schemas/session.js';
+import { AuthExpiredError } from '../src/utils/errors.js';
+import { startFakeApi, type FakeFocusmateApi } from './fake-api/server.js';
+import { FAKE_API_KEY, ME } from './fake-api/fixtures.js';
+import { startFakeApp, type FakeFocusmateApp } from './fake-app/server.js';
+import { hasChromium, launchBrowser } from './fake-app/browser.js';
+
+const FIREBASE_USER = {
+  uid: 'firebase-uid-1',
+  email: 'me@example.com',
+  displayName: 'Me Myself',
+  stsTokenManager: { refreshToken: 'refresh', accessToken: 'access', expirationTime: Date.UTC(2030, 0, 1) }
+};
+
+describe('isTokenExpired', () => {
+  const now = new Date('2026-04-01T12:00:00Z');
+
+  it('accepts a token with time to spare', () => {
+    expect(isTokenExpired({ uid: 'u', expiresAt: '2026-04-01T12:30:00Z' }, now)).toBe(false);
+  });
+
+  it('treats tokens about to expire, expired or without an expiry as expired', () => {
+    expect(isTokenExpired({ uid: 'u', expiresAt: '2026-04-01T12:00:30Z' }, now)).toBe(true);
+    expect(isTokenExpired({ uid: 'u', expiresAt: '2026-04-01T11:00:00Z' }, now)).toBe(true);
+    expect(isTokenExpired({ uid: 'u' }, now)).toBe(true);
+  });
+});
+
+describe.skipIf(!hasChromium)('readFirebaseAuth', { timeout: 30000 }, () => {
+  let app: FakeFocusmateApp;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    app = await startFakeApp();
+    browser = await launchBrowser();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    await app?.close();
+  });
+
+  beforeEach(async () => {
+    page = await browser.newPage();
+    await page.goto(`${app.url}/dashboard`);
+  });
+
+  afterEach(async () => {
+    await page.close();
+  });
+
+  it('returns null when nothing is stored', async () => {
+    expect(await readFirebaseAuth(page)).toBeNull();
+  });
+
+  it('reads the user Firebase keeps in IndexedDB', async () => {
+    await page.evaluate(`
+      new Promise(function (resolve) {
+        var open = indexedDB.open('firebaseLocalStorageDb', 1);
+        open.onupgradeneeded = function () {
+          open.result.createObjectStore('firebaseLocalStorage', { keyPath: 'fbase_key' });
+        };
+        open.onsuccess = function () {
+          var tx = open.result.transaction('firebaseLocalStorage', 'readwrite');
+          tx.objectStore('firebaseLocalStorage').put({
+            fbase_key: 'firebase:authUser:key:[DEFAULT]',
+            value: ${JSON.stringify(FIREBASE_USER)}
+          });
+          tx.oncomplete = function () { open.result.close(); resolve(); };
+        };
+      })
+    `);
+
+    expect(await readFirebaseAuth(page)).toEqual({
+      uid: 'firebase-uid-1',
+      email: 'me@example.com',
+      displayName: 'Me Myself',
+      expiresAt: '2030-01-01T00:00:00.000Z'
+    });
+  });
+
+  it('falls back to localStorage', async () => {
+    await page.evaluate(`localStorage.setItem('firebase:authUser:key:[DEFAULT]', ${JSON.stringify(JSON.stringify(FIREBASE_USER))})`);
+
+    expect(await readFirebaseAuth(page)).toMatchObject({ uid: 'firebase-uid-1', expiresAt: '2030-01-01T00:00:00.000Z' });
+  });
+});
+
+describe.skipIf(!hasChromium)('navigateToDashboard', { timeout: 60000 }, () => {
+  let app: FakeFocusmateApp;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    app = await startFakeApp();
+    browser = await launchBrowser();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    await app?.close();
+  });
+
+  beforeEach(async () => {
+    page = await browser.newPage();
+    // Serve the app's origin from the fixture so Firebase storage lives where the check reads it
+    await page.route(`${FOCUSMATE_APP_URL}/**`, async route => {
+      const { pathname } = new URL(route.request().url());
+      await route.fulfill({ response: await route.fetch({ url: `${app.url}${pathname}` }) });
+    });
+  });
+
+  afterEach(async () => {
+    await page.close();
+  });
+
+  function storeUser(expirationTime: number): Promise<unknown> {
+    const user = { ...FIREBASE_USER, stsTokenManager: { ...FIREBASE_USER.stsTokenManager, expirationTime } };
+    return page.evaluate(`localStorage.setItem('firebase:authUser:key:[DEFAULT]', ${JSON.stringify(JSON.stringify(user))})`);
+  }
+
+  it('loads the dashboard when no Firebase record can be found', async () => {
+    await navigateToDashboard(page);
+
+    expect(page.url()).toBe(`${FOCUSMATE_APP_URL}/dashboard`);
+  });
+
+  it('loads the dashboard with a current token', async () => {
+    await page.goto(FOCUSMATE_APP_URL);
+    await storeUser(Date.UTC(2030, 0, 1));
+
+    await navigateToDashboard(page);
+  });
+
+  it('reports a token that is still expired once the app has loaded', async () => {
+    await page.goto(FOCUSMATE_APP_URL);
+    await storeUser(Date.UTC(2020, 0, 1));
+
+    await expect(navigateToDashboard(page)).rejects.toBeInstanceOf(AuthExpiredError);
+  });
+});
+
+describe('auth_status tool', () => {
+  let fake: FakeFocusmateApi;
+  let client: Client;
+
+  beforeAll(async () => {
+    fake = await startFakeApi();
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  beforeEach(async () => {
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  function writeConfig(config: Record<string, unknown>): void {
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify(config));
+  }
+
+  async function authStatus(): Promise<AuthStatusOutput> {
+    const result = await client.callTool({ name: 'auth_status', arguments: {} });
+    const content = result.content as Array<{ type: string; text: string }>;
+    return JSON.parse(content[0].text);
+  }
+
+  it('reports a missing login without opening a browser, and the key owner', async () => {
+    writeConfig({ apiKey: FAKE_API_KEY, apiBaseUrl: fake.baseUrl });
+
+    const output = await authStatus();
+
+    expect(output.authenticated).toBe(false);
+    expect(output.browser).toEqual({ state: 'missing', checkedBy: 'none' });
+    expect(output.apiKey).toMatchObject({ state: 'valid', userId: ME.userId, name: ME.name, timeZone: ME.timeZone });
+    expect(output.message).toContain('focusmate_auth');
+  });
+
+  it('reports a rejected API key as invalid', async () => {
+    writeConfig({ apiKey: 'wrong-key', apiBaseUrl: fake.baseUrl });
+
+    const { apiKey } = await authStatus();
+
+    expect(apiKey.state).toBe('invalid');
+    expect(apiKey.error).toContain('Invalid Focusmate API key');
+  });
+
+  it('reports an unchecked API key as unknown when rate limited', async () => {
+    writeConfig({ apiKey: FAKE_API_KEY, apiBaseUrl: fake.baseUrl });
+    fake.failNext(429, { path: '/me' });
+
+    expect((await authStatus()).apiKey.state).toBe('unknown');
+  });
+
+  it('reports a missing API key', async () => {
+    writeConfig({});
+
+    expect((await authStatus()).apiKey).toEqual({ state: 'missing' });
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import type { Browser, Page } from 'playwright';
+import { BookingPage } from '../src/automation/pages/booking.js';
+import { SessionConflictError, SlotUnavailableError } from '../src/utils/errors.js';
+import { getZonedParts, zonedTimeToUtc } from '../src/utils/time.js';
+import { startFakeApp, type FakeFocusmateApp } from './fake-app/server.js';
+import { hasChromium, launchBrowser } from './fake-app/browser.js';
+
+/** Local date `days` from today at `hours:minutes`. */
+function daysFromToday(days: number, hours: number, minutes: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+}
+
+describe.skipIf(!hasChromium)('BookingPage against the dashboard fixture', { timeout: 30000 }, () => {
+  let app: FakeFocusmateApp;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    app = await startFakeApp();
+    browser = await launchBrowser();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    await app?.close();
+  });
+
+  beforeEach(async () => {
+    page = await browser.newPage();
+  });
+
+  afterEach(async () => {
+    await page.close();
+  });
+
+  async function openDashboard(query: Record<string, string | string[]> = {}): Promise<BookingPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      for (const v of [value].flat()) params.append(key, v);
+    }
+    await page.goto(`${app.url}/dashboard?${params}`, { waitUntil: 'networkidle' });
+    return new BookingPage(page);
+  }
+
+  function clickedSlots(): Promise<string[]> {
+    return page.evaluate('window.__clicks') as Promise<string[]>;
+  }
+
+  describe('selectors', () => {
+    it('finds exactly one of each control the booking flow depends on', async () => {
+      const bookingPage = await openDashboard();
+      await bookingPage.selectTimeSlot(daysFromToday(1, 10, 0));
+
+      expect(await bookingPage.duration25Button.count()).toBe(1);
+      expect(await bookingPage.duration50Button.count()).toBe(1);
+      expect(await bookingPage.duration75Button.count()).toBe(1);
+      expect(await bookingPage.confirmBookingButton.count()).toBe(1);
+      expect(await page.getByRole('button', { name: 'Go forward one day' }).count()).toBe(1);
+    });
+  });
+
+  describe('time zones', () => {
+    it('selects the slot in the account zone when it differs from the host', async () => {
+      const timeZone = 'Pacific/Kiritimati'; // UTC+14, a different calendar day from most hosts
+      const context = await browser.newContext({ timezoneId: timeZone });
+      const zonedPage = await context.newPage();
+      try {
+        await zonedPage.goto(`${app.url}/dashboard`, { waitUntil: 'networkidle' });
+        const today = getZonedParts(new Date(), timeZone);
+        const target = zonedTimeToUtc(today.year, today.month, today.day + 1, 10, 15, timeZone);
+
+        await new BookingPage(zonedPage, timeZone).selectTimeSlot(target);
+
+        expect(await zonedPage.evaluate('window.__clicks')).toEqual([target.toISOString()]);
+      } finally {
+        await context.close();
+      }
+    });
+  });
+
+  describe('selectTimeSlot', () => {
+    it('clicks the cell for the target day and time when cells carry data-time', async () => {
+      const target = daysFromToday(1, 10, 15);
+      const bookingPage = await openDashboard();
+
+      await bookingPage.selectTimeSlot(target);
+
+      expect(await clickedSlots()).toEqual([target.toISOString()]);
+      expect(await bookingPage.getSelectedSlotCount()).toBe(1);
+    });
+
+    it('falls back to coordinate clicking when the grid has no slot cells', async () => {
+      const target = daysFromToday(2, 14, 30);
+      const bookingPage = await openDashboard({ mode: 'coords' });
+
+      await bookingPage.selectTimeSlot(target);
+
+      expect(await clickedSlots()).toEqual([target.toISOString()]);
+    });
+
+    it('lands on each quarter hour with coordinate clicking', async () => {
+      const bookingPage = await openDashboard({ mode: 'coords' });
+      const targets = [0, 15, 30, 45].map(m => daysFromToday(1, 16, m));
+
+      for (const target of targets) {
+        await bookingPage.addTimeSlot(target);
+      }
+
+      expect(await clickedSlots()).toEqual(targets.map(t => t.toISOString()));
+    });
+
+    it('navigates forward to days beyond the visible week', async () => {
+      const target = daysFromToday(9, 9, 45);
+      const bookingPage = await openDashboard();
+
+      await bookingPage.selectTimeSlot(target);
+
+      expect(await clickedSlots()).toEqual([target.toISOString()]);
+    });
+  });
+
+  describe('bookSlot', () => {
+    it('confirms the booking and reads the session ID from the captured response', async () => {
+      const target = daysFromToday(1, 11, 0);
+      const bookingPage = await openDashboard();
+      await bookingPage.startRequestCapture();
+
+      const { sessionId } = await bookingPage.bookSlot(target, '25');
+
+      expect(sessionId).toMatch(/^fixture-/);
+      expect(await page.evaluate('window.__booked')).toEqual([
+        { duration: 25, slots: [target.toISOString()] }
+      ]);
+    });
+
+    it('throws SessionConflictError when the calendar reports a clash', async () => {
+      const target = daysFromToday(1, 12, 0);
+      const bookingPage = await openDashboard({ conflict: target.toISOString() });
+
+      await expect(bookingPage.bookSlot(target, '50')).rejects.toBeInstanceOf(SessionConflictError);
+    });
+
+    it('throws SlotUnavailableError when the slot cannot be booked', async () => {
+      const target = daysFromToday(1, 13, 0);
+      const bookingPage = await openDashboard({ unavailable: target.toISOString() });
+
+      await expect(bookingPage.bookSlot(target, '50')).rejects.toBeInstanceOf(SlotUnavailableError);
+    });
+  });
+
+  describe('readSlots', () => {
+    it('reads each quarter hour with partners waiting and unavailable slots', async () => {
+      const from = daysFromToday(1, 9, 0);
+      const at = (minutes: number): Date => new Date(from.getTime() + minutes * 60 * 1000);
+      const bookingPage = await openDashboard({
+        waiting: at(15).toISOString(),
+        unavailable: at(30).toISOString()
+      });
+
+      const slots = await bookingPage.readSlots(from, at(60), '25');
+
+      expect(slots.map(s => [s.startTime.toISOString(), s.availability, s.partnersWaiting])).toEqual([
+        [at(0).toISOString(), 'open', 0],
+        [at(15).toISOString(), 'partner_waiting', 1],
+        [at(30).toISOString(), 'unavailable', 0],
+        [at(45).toISOString(), 'open', 0]
+      ]);
+    });
+
+    it('navigates forward to read days beyond the visible week', async () => {
+      const from = daysFromToday(8, 14, 0);
+      const bookingPage = await openDashboard();
+
+      const slots = await bookingPage.readSlots(from, new Date(from.getTime() + 30 * 60 * 1000), '50');
+      expect(slots.map(s => s.startTime.toISOString())).toEqual([
+        from.toISOString(),
+        new Date(from.getTime() + 15 * 60 * 1000).toISOString()
+      ]);
+    });
+
+    it('reads slots by position when cells carry no data-time', async () => {
+      const from = daysFromToday(2, 9, 0);
+      const at = (minutes: number): Date => new Date(from.getTime() + minutes * 60 * 1000);
+      const bookingPage = await openDashboard({
+        mode: 'plain',
+        waiting: at(30).toISOString(),
+        unavailable: at(45).toISOString()
+      });
+
+      const slots = await bookingPage.readSlots(from, at(75), '25');
+
+      expect(slots.map(s => [s.startTime.toISOString(), s.availability, s.partnersWaiting])).toEqual([
+        [at(0).toISOString(), 'open', 0],
+        [at(15).toISOString(), 'open', 0],
+        [at(30).toISOString(), 'partner_waiting', 1],
+        [at(45).toISOString(), 'unavailable', 0],
+        [at(60).toISOString(), 'open', 0]
+      ]);
+    });
+
+    it('fails when the grid has neither slot cells nor hour labels', async () => {
+      const bookingPage = await openDashboard({ mode: 'blank' });
+      const from = daysFromToday(1, 9, 0);
+      await expect(bookingPage.readSlots(from, new Date(from.getTime() + 60 * 60 * 1000), '50'))
+        .rejects.toThrow(/calendar grid/);
+    });
+  });
+
+  describe('batch selection', () => {
+    it('counts selected slots and maps created sessions back to start times', async () => {
+      const targets = [daysFromToday(1, 9, 0), daysFromToday(3, 15, 45)];
+      const bookingPage = await openDashboard();
+      await bookingPage.startRequestCapture();
+      await bookingPage.selectDuration('50');
+
+      for (const target of targets) {
+        await bookingPage.addTimeSlot(target);
+      }
+      expect(await bookingPage.getSelectedSlotCount()).toBe(2);
+      expect(await bookingPage.confirmBookingButton.innerText()).toBe('Book 2 sessions');
+
+      await bookingPage.confirmBooking();
+
+      const booked = bookingPage.getBookedSessions();
+      expect(booked.map(b => b.startTime)).toEqual(targets.map(t => t.toISOString()));
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import type { BrowserContext } from 'playwright';
+import { BrowserPool, type BrowserWait } from '../src/automation/browser-pool.js';
+import { BrowserBusyError } from '../src/utils/errors.js';
+
+const lockFile = path.join(configDir, 'browser-data.lock');
+const waitingFile = path.join(configDir, 'browser-data.waiting');
+
+// Just enough of a persistent context for the pool: one page, events and close
+function fakeContext() {
+  const listeners = new Map<string, Array<() => void>>();
+  const on = (event: string, listener: () => void) => {
+    listeners.set(event, [...(listeners.get(event) ?? []), listener]);
+  };
+  const emit = (event: string) => listeners.get(event)?.forEach(listener => listener());
+
+  let closed = false;
+  const page = {
+    isClosed: () => closed,
+    evaluate: vi.fn(async () => 1),
+    on
+  };
+  const context = {
+    pages: () => [page],
+    newPage: async () => page,
+    on,
+    close: vi.fn(async () => {
+      closed = true;
+      emit('close');
+    })
+  };
+  return { context: context as unknown as BrowserContext, page, close: context.close, emit };
+}
+
+function poolWithFakes(idleTimeoutMs?: number, waitTimeoutMs?: number) {
+  const launched: Array<ReturnType<typeof fakeContext>> = [];
+  const launch = vi.fn(async () => {
+    const fake = fakeContext();
+    launched.push(fake);
+    return fake.context;
+  });
+  return { pool: new BrowserPool({ launch, idleTimeoutMs, waitTimeoutMs }), launch, launched };
+}
+
+describe('BrowserPool', () => {
+  it('reuses one context across calls', async () => {
+    const { pool, launch } = poolWithFakes();
+
+    const first = await pool.withPage('Europe/Berlin', async page => page);
+    const second = await pool.withPage('Europe/Berlin', async page => page);
+
+    expect(launch).toHaveBeenCalledTimes(1);
+    expect(launch).toHaveBeenCalledWith({ headless: true, timezoneId: 'Europe/Berlin' });
+    expect(second).toBe(first);
+    await pool.shutdown();
+  });
+
+  it('relaunches for a different time zone, and reuses any context without one', async () => {
+    const { pool, launch, launched } = poolWithFakes();
+
+    await pool.withPage('Europe/Berlin', async () => undefined);
+    await pool.withPage('America/New_York', async () => undefined);
+    await pool.withPage(undefined, async () => undefined);
+
+    expect(launch).toHaveBeenCalledTimes(2);
+    expect(launched[0].close).toHaveBeenCalled();
+    await pool.shutdown();
+  });
+
+  it('relaunches after the page crashes or the context closes', async () => {
+    const { pool, launch, launched } = poolWithFakes();
+
+    await pool.withPage(undefined, async () => undefined);
+    launched[0].emit('crash');
+    await pool.withPage(undefined, async () => undefined);
+    expect(launch).toHaveBeenCalledTimes(2);
+
+    await launched[1].close();
+    expect(pool.isWarm()).toBe(false);
+    await pool.withPage(undefined, async () => undefined);
+    expect(launch).toHaveBeenCalledTimes(3);
+    await pool.shutdown();
+  });
+
+  it('relaunches when the page fails its health check', async () => {
+    const { pool, launch, launched } = poolWithFakes();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await pool.withPage(undefined, async () => undefined);
+    launched[0].page.evaluate.mockRejectedValueOnce(new Error('Target closed'));
+    await pool.withPage(undefined, async () => undefined);
+
+    expect(launch).toHaveBeenCalledTimes(2);
+    await pool.shutdown();
+  });
+
+  it('runs callers one at a time', async () => {
+    const { pool } = poolWithFakes();
+    const events: string[] = [];
+    const call = (name: string) => pool.withPage(undefined, async () => {
+      events.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      events.push(`${name} end`);
+    });
+
+    await Promise.all([call('a'), call('b')]);
+
+    expect(events).toEqual(['a start', 'a end', 'b start', 'b end']);
+    await pool.shutdown();
+  });
+
+  it('keeps serving after a caller throws', async () => {
+    const { pool } = poolWithFakes();
+
+    await expect(pool.withPage(undefined, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(pool.withPage(undefined, async () => 'ok')).resolves.toBe('ok');
+    await pool.shutdown();
+  });
+
+  it('closes the context once idle, and on shutdown', async () => {
+    const { pool, launched } = poolWithFakes(20);
+
+    await pool.withPage(undefined, async () => undefined);
+    expect(pool.isWarm()).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(launched[0].close).toHaveBeenCalled();
+    expect(pool.isWarm()).toBe(false);
+
+    await pool.withPage(undefined, async () => undefined);
+    await pool.shutdown();
+    expect(launched[1].close).toHaveBeenCalled();
+  });
+});
+
+describe('BrowserPool waiting', () => {
+  afterEach(() => {
+    fs.rmSync(lockFile, { force: true });
+    fs.rmSync(waitingFile, { force: true });
+  });
+
+  it('reports the queue position to wait listeners', async () => {
+    const { pool } = poolWithFakes();
+    const waits: BrowserWait[] = [];
+    pool.onWait(wait => waits.push(wait));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await Promise.all([
+      pool.withPage(undefined, () => new Promise(resolve => setTimeout(resolve, 10))),
+      pool.withPage(undefined, async () => undefined),
+      pool.withPage(undefined, async () => undefined)
+    ]);
+
+    expect(waits.map(wait => wait.position)).toEqual([1, 2]);
+    await pool.shutdown();
+  });
+
+  it('throws BrowserBusyError when the queue does not move in time, then carries on', async () => {
+    const { pool } = poolWithFakes(undefined, 30);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const slow = pool.withPage(undefined, () => new Promise(resolve => setTimeout(resolve, 100)));
+    const error = await pool.withPage(undefined, async () => 'late').catch(e => e);
+
+    expect(error).toBeInstanceOf(BrowserBusyError);
+    expect((error as BrowserBusyError).code).toBe('BROWSER_BUSY');
+    await slow;
+    await expect(pool.withPage(undefined, async () => 'ok')).resolves.toBe('ok');
+    await pool.shutdown();
+  });
+
+  it('holds the profile lock file while the context is open', async () => {
+    const { pool } = poolWithFakes();
+
+    await pool.withPage(undefined, async () => undefined);
+    expect(JSON.parse(fs.readFileSync(lockFile, 'utf-8')).pid).toBe(process.pid);
+
+    await pool.shutdown();
+    expect(fs.existsSync(lockFile)).toBe(false);
+  });
+
+  it('waits for another live process holding the lock, then gives up', async () => {
+    const { pool, launch } = poolWithFakes(undefined, 300);
+    const waits: BrowserWait[] = [];
+    pool.onWait(wait => waits.push(wait));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fs.writeFileSync(lockFile, JSON.stringify({ pid: process.ppid, acquiredAt: new Date().toISOString() }));
+
+    await expect(pool.withPage(undefined, async () => undefined)).rejects.toBeInstanceOf(BrowserBusyError);
+
+    expect(launch).not.toHaveBeenCalled();
+    expect(waits).toEqual([expect.objectContaining({ pid: process.ppid })]);
+    // The holder is told someone is waiting
+    expect(fs.readFileSync(waitingFile, 'utf-8')).toBe(String(process.pid));
+  });
+
+  it('takes over a lock left by a process that exited', async () => {
+    const { pool, launch } = poolWithFakes();
+    const exited = spawnSync(process.execPath, ['-e', '']).pid;
+    fs.writeFileSync(lockFile, JSON.stringify({ pid: exited, acquiredAt: new Date().toISOString() }));
+
+    await pool.withPage(undefined, async () => undefined);
+
+    expect(launch).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fs.readFileSync(lockFile, 'utf-8')).pid).toBe(process.pid);
+    // The stale lock was moved aside, then removed
+    expect(fs.readdirSync(configDir).filter(file => file.startsWith('browser-data.lock.'))).toEqual([]);
+    await pool.shutdown();
+  });
+
+  it('closes the context after a call when another process is waiting', async () => {
+    const { pool, launched } = poolWithFakes();
+
+    await pool.withPage(undefined, async () => {
+      fs.writeFileSync(waitingFile, String(process.ppid));
+    });
+
+    expect(launched[0].close).toHaveBeenCalled();
+    expect(fs.existsSync(lockFile)).toBe(false);
+  });
+
+  it('hands an idle context over as soon as another process starts waiting', async () => {
+    const { pool, launched } = poolWithFakes();
+    await pool.withPage(undefined, async () => undefined);
+    expect(pool.isWarm()).toBe(true);
+
+    fs.writeFileSync(waitingFile, String(process.ppid));
+
+    await vi.waitFor(() => expect(pool.isWarm()).toBe(false), { timeout: 2000 });
+    expect(launched[0].close).toHaveBeenCalled();
+    expect(fs.existsSync(lockFile)).toBe(false);
+  });
+
+  it('runs withProfile without a warm context and with the lock held', async () => {
+    const { pool, launched } = poolWithFakes();
+    await pool.withPage(undefined, async () => undefined);
+
+    const held = await pool.withProfile(async () => {
+      expect(pool.isWarm()).toBe(false);
+      return JSON.parse(fs.readFileSync(lockFile, 'utf-8')).pid;
+    });
+
+    expect(launched[0].close).toHaveBeenCalled();
+    expect(held).toBe(process.pid);
+    expect(fs.existsSync(lockFile)).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import type { Browser, Page } from 'playwright';
+import { CancelSessionPage } from '../src/automation/pages/cancel.js';
+import { AmbiguousSessionError, SessionNotFoundError } from '../src/utils/errors.js';
+import { startFakeApp, type FakeFocusmateApp } from './fake-app/server.js';
+import { hasChromium, launchBrowser } from './fake-app/browser.js';
+
+describe.skipIf(!hasChromium)('CancelSessionPage against the dashboard fixture', { timeout: 30000 }, () => {
+  let app: FakeFocusmateApp;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    app = await startFakeApp();
+    browser = await launchBrowser();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    await app?.close();
+  });
+
+  beforeEach(async () => {
+    page = await browser.newPage();
+    await page.goto(`${app.url}/dashboard`, { waitUntil: 'networkidle' });
+  });
+
+  afterEach(async () => {
+    await page.close();
+  });
+
+  // Local wall-clock time `daysAhead` days from now; the fixture renders in the same zone
+  function localTime(daysAhead: number, hours: number, minutes = 0): Date {
+    const date = new Date();
+    date.setDate(date.getDate() + daysAhead);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  }
+
+  function cancelledSessions(): Promise<string[]> {
+    return page.evaluate('window.__cancelled') as Promise<string[]>;
+  }
+
+  it('cancels from the upcoming card and confirms the dialog', async () => {
+    await new CancelSessionPage(page, app.url).cancelSession('sess-card');
+
+    expect(await cancelledSessions()).toEqual(['sess-card']);
+    expect(await page.locator('a[href*="sess-card"]').count()).toBe(0);
+  });
+
+  it('opens the card options menu when there is no direct cancel button', async () => {
+    await new CancelSessionPage(page, app.url).cancelSession('sess-menu');
+
+    expect(await cancelledSessions()).toEqual(['sess-menu']);
+  });
+
+  it('only cancels the requested session', async () => {
+    await new CancelSessionPage(page, app.url).cancelSession('sess-menu');
+
+    expect(await page.locator('a[href*="sess-card"]').count()).toBe(1);
+  });
+
+  it('falls back to the session page when no card links to the session', async () => {
+    await new CancelSessionPage(page, app.url).cancelSession('sess-remote');
+
+    expect(page.url()).toBe(`${app.url}/session/sess-remote`);
+    expect(await cancelledSessions()).toEqual(['sess-remote']);
+  });
+
+  it('throws SessionNotFoundError for an unknown session', async () => {
+    await expect(new CancelSessionPage(page, app.url).cancelSession('does-not-exist'))
+      .rejects.toBeInstanceOf(SessionNotFoundError);
+  });
+
+  it('cancels the card matching a start time', async () => {
+    const cancelled = await new CancelSessionPage(page, app.url).cancelSessionAt(localTime(1, 14));
+
+    expect(cancelled).toMatchObject({ sessionId: 'sess-dated', timeRange: '2:00pm - 2:50pm', duration: 50 });
+    expect(await cancelledSessions()).toEqual(['sess-dated']);
+  });
+
+  // Before the undated 9am cards start, so they fall on today
+  const earlyMorning = (): Date => localTime(0, 6);
+
+  it('lists the candidates without cancelling when several cards match', async () => {
+    const error = await new CancelSessionPage(page, app.url)
+      .cancelSessionAt(localTime(0, 9), undefined, earlyMorning()).catch(e => e);
+
+    expect(error).toBeInstanceOf(AmbiguousSessionError);
+    expect((error as AmbiguousSessionError).candidates.map(c => c.sessionId)).toEqual(['sess-card', 'sess-repeat']);
+    expect(await cancelledSessions()).toEqual([]);
+  });
+
+  it('tells matching cards apart by duration', async () => {
+    const cancelled = await new CancelSessionPage(page, app.url).cancelSessionAt(localTime(0, 9), 25, earlyMorning());
+
+    expect(cancelled.sessionId).toBe('sess-repeat');
+    expect(await cancelledSessions()).toEqual(['sess-repeat']);
+  });
+
+  it('does not match an undated card to a later day', async () => {
+    await expect(new CancelSessionPage(page, app.url).cancelSessionAt(localTime(1, 9), undefined, earlyMorning()))
+      .rejects.toBeInstanceOf(SessionNotFoundError);
+    expect(await cancelledSessions()).toEqual([]);
+  });
+
+  it('skips cards labelled with a different day', async () => {
+    await expect(new CancelSessionPage(page, app.url).cancelSessionAt(localTime(0, 14)))
+      .rejects.toBeInstanceOf(SessionNotFoundError);
+    expect(await cancelledSessions()).toEqual([]);
+  });
+});
@@ -0,0 +1,16 @@
+import { afterAll, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Keep config.json, browser-data and the other stored files out of the real home directory.
+// Import this before anything from src/ so the mock is in place when they load.
+export const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'focusmate-mcp-test-'));
+
+vi.mock('../src/automation/config.js', () => ({
+  getConfigDir: () => configDir
+}));
+
+afterAll(() => {
+  fs.rmSync(configDir, { recursive: true, force: true });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import type { Browser, Page } from 'playwright';
+import { DashboardPage } from '../src/automation/pages/dashboard.js';
+import { startFakeApp, type FakeFocusmateApp } from './fake-app/server.js';
+import { hasChromium, launchBrowser } from './fake-app/browser.js';
+
+describe.skipIf(!hasChromium)('DashboardPage against the dashboard fixture', { timeout: 30000 }, () => {
+  let app: FakeFocusmateApp;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    app = await startFakeApp();
+    browser = await launchBrowser();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    await app?.close();
+  });
+
+  beforeEach(async () => {
+    page = await browser.newPage();
+    await page.goto(`${app.url}/dashboard`, { waitUntil: 'networkidle' });
+  });
+
+  afterEach(async () => {
+    await page.close();
+  });
+
+  // Local wall-clock time `daysAhead` days from now; the fixture renders in the same zone
+  function localTime(daysAhead: number, hours: number, minutes = 0): Date {
+    const date = new Date();
+    date.setDate(date.getDate() + daysAhead);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  }
+
+  describe('readUpcomingCards', () => {
+    it('reads the session ID, partner and duration of each card', async () => {
+      const cards = await new DashboardPage(page).readUpcomingCards();
+
+      expect(cards.map(card => card.sessionId)).toEqual([
+        'sess-card', 'sess-menu', 'sess-dated', 'sess-repeat', 'sess-pending'
+      ]);
+      expect(cards[0]).toMatchObject({ partnerName: 'Jane D.', duration: 50, pendingMatch: false });
+      expect(cards[1]).toMatchObject({ partnerName: 'Sam K.', duration: 25 });
+    });
+
+    it('dates cards by their day label', async () => {
+      const cards = await new DashboardPage(page).readUpcomingCards();
+      const dated = cards.find(card => card.sessionId === 'sess-dated')!;
+
+      expect(dated.startTime).toEqual(localTime(1, 14));
+      expect(dated.endTime).toEqual(localTime(1, 14, 50));
+      expect(dated.partnerName).toBe('Ada L.');
+    });
+
+    it('dates unlabelled cards by the next time they have not ended', async () => {
+      const cards = await new DashboardPage(page).readUpcomingCards(localTime(0, 10));
+
+      expect(cards.find(card => card.sessionId === 'sess-card')!.startTime).toEqual(localTime(1, 9));
+      expect(cards.find(card => card.sessionId === 'sess-menu')!.startTime).toEqual(localTime(0, 11));
+    });
+
+    it('reads the title and pending match state', async () => {
+      const cards = await new DashboardPage(page).readUpcomingCards();
+      const pending = cards.find(card => card.sessionId === 'sess-pending')!;
+
+      expect(pending).toMatchObject({
+        title: 'Write report',
+        pendingMatch: true,
+        partnerName: null,
+        duration: 75,
+        startTime: localTime(3, 16, 15)
+      });
+    });
+  });
+});
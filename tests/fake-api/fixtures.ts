@@ -0,0 +1,104 @@
+import type { ApiSession } from '../../src/api/focusmate-client.js';
+
+export const FAKE_API_KEY = 'test-api-key';
+
+export const ME = {
+  userId: 'user-me',
+  name: 'Alex Example',
+  totalSessionCount: 412,
+  timeZone: 'America/New_York',
+  photoUrl: 'https://example.com/me.png'
+};
+
+export const PARTNERS = [
+  {
+    userId: 'user-jane',
+    name: 'Jane D.',
+    totalSessionCount: 120,
+    timeZone: 'Europe/London',
+    photoUrl: 'https://example.com/jane.png'
+  },
+  {
+    userId: 'user-sam',
+    name: 'Sam K.',
+    totalSessionCount: 33,
+    timeZone: 'Asia/Tokyo'
+  }
+];
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Sessions covering every status `mapApiSession` derives, positioned relative
+ * to `now` so the fixtures stay valid whenever the suite runs.
+ */
+export function buildSessions(now: Date = new Date()): ApiSession[] {
+  const at = (offsetMs: number): string => new Date(now.getTime() + offsetMs).toISOString();
+
+  return [
+    {
+      sessionId: 'sess-completed',
+      duration: 50 * MINUTE,
+      startTime: at(-48 * HOUR),
+      users: [
+        { userId: ME.userId, requestedAt: at(-72 * HOUR), joinedAt: at(-48 * HOUR), completed: true, sessionTitle: 'Write report' },
+        { userId: 'user-jane', requestedAt: at(-60 * HOUR), joinedAt: at(-48 * HOUR), completed: true }
+      ]
+    },
+    {
+      // Listed partner-first: the API doesn't order participants
+      sessionId: 'sess-partner-first',
+      duration: 50 * MINUTE,
+      startTime: at(-36 * HOUR),
+      users: [
+        { userId: 'user-jane', requestedAt: at(-40 * HOUR), joinedAt: at(-36 * HOUR), completed: true },
+        { userId: ME.userId, requestedAt: at(-50 * HOUR), joinedAt: at(-36 * HOUR), completed: true, sessionTitle: 'Inbox zero' }
+      ]
+    },
+    {
+      sessionId: 'sess-partner-no-show',
+      duration: 25 * MINUTE,
+      startTime: at(-30 * HOUR),
+      users: [
+        { userId: ME.userId, requestedAt: at(-34 * HOUR), joinedAt: at(-30 * HOUR), completed: true },
+        { userId: 'user-sam', requestedAt: at(-32 * HOUR), completed: false }
+      ]
+    },
+    {
+      sessionId: 'sess-no-show',
+      duration: 25 * MINUTE,
+      startTime: at(-24 * HOUR),
+      users: [
+        { userId: ME.userId, requestedAt: at(-30 * HOUR), completed: false },
+        { userId: 'user-sam', requestedAt: at(-26 * HOUR), joinedAt: at(-24 * HOUR), completed: true }
+      ]
+    },
+    {
+      sessionId: 'sess-in-progress',
+      duration: 50 * MINUTE,
+      startTime: at(-10 * MINUTE),
+      users: [
+        { userId: ME.userId, requestedAt: at(-5 * HOUR), joinedAt: at(-10 * MINUTE), completed: false },
+        { userId: 'user-jane', requestedAt: at(-2 * HOUR), joinedAt: at(-9 * MINUTE), completed: false }
+      ]
+    },
+    {
+      sessionId: 'sess-matched',
+      duration: 75 * MINUTE,
+      startTime: at(24 * HOUR),
+      users: [
+        { userId: ME.userId, requestedAt: at(-1 * HOUR), completed: false, sessionTitle: 'Deep work' },
+        { userId: 'user-sam', requestedAt: at(-30 * MINUTE), completed: false }
+      ]
+    },
+    {
+      sessionId: 'sess-pending',
+      duration: 50 * MINUTE,
+      startTime: at(48 * HOUR),
+      users: [
+        { userId: ME.userId, requestedAt: at(-1 * HOUR), completed: false }
+      ]
+    }
+  ];
+}
@@ -0,0 +1,116 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { ApiSession } from '../../src/api/focusmate-client.js';
+import { FAKE_API_KEY, ME, PARTNERS, buildSessions } from './fixtures.js';
+
+/** Stand-in for the Focusmate public API, serving fixture data under `/v1`. */
+export interface FakeFocusmateApi {
+  /** Base URL to hand to FocusmateClient, e.g. http://127.0.0.1:1234/v1 */
+  baseUrl: string;
+  /** Requests received so far, in order */
+  requests: Array<{ method: string; path: string; query: Record<string, string> }>;
+  sessions: ApiSession[];
+  /** Answer the next `times` requests (optionally only for `path`) with `status`. */
+  failNext(status: 401 | 429 | 500, options?: { path?: string; times?: number }): void;
+  close(): Promise<void>;
+}
+
+export interface FakeApiOptions {
+  apiKey?: string;
+  sessions?: ApiSession[];
+  port?: number;
+  /** Reject /sessions ranges longer than this with a 400, like the real API */
+  maxRangeDays?: number;
+}
+
+interface InjectedFailure {
+  status: number;
+  path?: string;
+  remaining: number;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  404: 'Not Found',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error'
+};
+
+export async function startFakeApi(options: FakeApiOptions = {}): Promise<FakeFocusmateApi> {
+  const apiKey = options.apiKey ?? FAKE_API_KEY;
+  const failures: InjectedFailure[] = [];
+  const users = new Map([ME, ...PARTNERS].map(user => [user.userId, user]));
+
+  const send = (res: http.ServerResponse, status: number, body: unknown): void => {
+    res.writeHead(status, STATUS_TEXT[status] ?? 'OK', { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname.replace(/^\/v1/, '');
+    api.requests.push({
+      method: req.method ?? 'GET',
+      path,
+      query: Object.fromEntries(url.searchParams)
+    });
+
+    const failure = failures.find(f => !f.path || f.path === path);
+    if (failure) {
+      failure.remaining--;
+      if (failure.remaining <= 0) {
+        failures.splice(failures.indexOf(failure), 1);
+      }
+      return send(res, failure.status, { message: STATUS_TEXT[failure.status] });
+    }
+
+    if (req.headers['x-api-key'] !== apiKey) {
+      return send(res, 401, { message: 'Invalid API key' });
+    }
+
+    if (path === '/me') {
+      return send(res, 200, { user: ME });
+    }
+
+    if (path === '/sessions') {
+      const start = url.searchParams.get('start');
+      const end = url.searchParams.get('end');
+      const rangeStart = start ? new Date(start).getTime() : -Infinity;
+      const rangeEnd = end ? new Date(end).getTime() : Infinity;
+      if (options.maxRangeDays && rangeEnd - rangeStart > options.maxRangeDays * 24 * 60 * 60 * 1000) {
+        return send(res, 400, { message: `Range must be at most ${options.maxRangeDays} days` });
+      }
+
+      // Sessions overlapping the range, so one spanning a boundary appears in both windows
+      const sessions = api.sessions.filter(session => {
+        const startTime = new Date(session.startTime).getTime();
+        return startTime < rangeEnd && startTime + session.duration > rangeStart;
+      });
+      return send(res, 200, { sessions });
+    }
+
+    const userMatch = path.match(/^\/users\/([^/]+)$/);
+    if (userMatch) {
+      const user = users.get(decodeURIComponent(userMatch[1]));
+      return user ? send(res, 200, { user }) : send(res, 404, { message: 'User not found' });
+    }
+
+    send(res, 404, { message: 'Not found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const api: FakeFocusmateApi = {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    requests: [],
+    sessions: options.sessions ?? buildSessions(),
+    failNext(status, { path, times = 1 } = {}) {
+      failures.push({ status, path, remaining: times });
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve()))
+  };
+
+  return api;
+}
@@ -0,0 +1,14 @@
+import * as fs from 'fs';
+import { chromium, type Browser } from 'playwright';
+
+/**
+ * The UI fixture suites need a Chromium build. Use the one Playwright installs
+ * (`npx playwright install chromium`), or point CHROMIUM_EXECUTABLE_PATH at another.
+ */
+const executablePath = process.env.CHROMIUM_EXECUTABLE_PATH || chromium.executablePath();
+
+export const hasChromium = fs.existsSync(executablePath);
+
+export function launchBrowser(): Promise<Browser> {
+  return chromium.launch({ executablePath, headless: true });
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { fileURLToPath } from 'url';
+
+const PAGES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'pages');
+
+/**
+ * Static stand-in for app.focusmate.com serving the HTML fixtures in `pages/`.
+ * `/dashboard` resolves to `pages/dashboard.html`; unknown paths get `404.html`.
+ * `POST /api/sessions` books and `DELETE /api/sessions/:id` cancels.
+ */
+export interface FakeFocusmateApp {
+  /** Base URL to use in place of https://app.focusmate.com */
+  url: string;
+  /** API calls received, oldest first */
+  apiRequests: FakeApiRequest[];
+  close(): Promise<void>;
+}
+
+export interface FakeApiRequest {
+  method: string;
+  path: string;
+  body: string;
+}
+
+let nextSessionId = 1;
+
+function resolvePage(pathname: string): string | undefined {
+  const relative = pathname === '/' ? 'dashboard' : pathname.replace(/^\/+/, '');
+  const candidate = path.resolve(PAGES_DIR, path.extname(relative) ? relative : `${relative}.html`);
+  if (!candidate.startsWith(PAGES_DIR + path.sep) || !fs.existsSync(candidate)) {
+    return undefined;
+  }
+  return candidate;
+}
+
+/** Echo a booking request back as created sessions, like the app's booking endpoint. */
+function handleBooking(body: string, res: http.ServerResponse): void {
+  const { slots = [] } = JSON.parse(body || '{}') as { slots?: string[] };
+  const sessions = slots.map(startTime => ({ sessionId: `fixture-${nextSessionId++}`, startTime }));
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(sessions.length === 1 ? { session: sessions[0] } : { sessions }));
+}
+
+/** Acknowledge a cancellation, like the app's cancel endpoint. */
+function handleCancel(sessionId: string, res: http.ServerResponse): void {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ sessionId, status: 'cancelled' }));
+}
+
+export async function startFakeApp(): Promise<FakeFocusmateApp> {
+  const apiRequests: FakeApiRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname.startsWith('/api/')) {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        apiRequests.push({ method: req.method ?? 'GET', path: url.pathname, body });
+
+        const cancel = url.pathname.match(/^\/api\/sessions\/([^/]+)$/);
+        if (req.method === 'POST' && url.pathname === '/api/sessions') {
+          handleBooking(body, res);
+        } else if (req.method === 'DELETE' && cancel) {
+          handleCancel(decodeURIComponent(cancel[1]), res);
+        } else {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Not found' }));
+        }
+      });
+      return;
+    }
+
+    const page = resolvePage(url.pathname);
+    res.writeHead(page ? 200 : 404, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(fs.readFileSync(page ?? path.join(PAGES_DIR, '404.html')));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    apiRequests,
+    close: () => new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve()))
+  };
+}
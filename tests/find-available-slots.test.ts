@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { FindAvailableSlotsOutput } from '../src/schemas/session.js';
+import { createServer } from '../src/server.js';
+
+describe('find_available_slots tool', () => {
+  let client: Client;
+
+  beforeAll(() => {
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({ timeZone: 'America/New_York' }));
+  });
+
+  beforeEach(async () => {
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  async function findSlots(args: Record<string, unknown>): Promise<FindAvailableSlotsOutput> {
+    const result = await client.callTool({ name: 'find_available_slots', arguments: args });
+    const content = result.content as Array<{ type: string; text: string }>;
+    return JSON.parse(content[0].text);
+  }
+
+  it('rejects ranges it does not understand', async () => {
+    const output = await findSlots({ startDate: 'whenever' });
+    expect(output.success).toBe(false);
+    expect(output.errorCode).toBe('INVALID_TIME');
+  });
+
+  it('rejects ranges in the past or longer than 14 days', async () => {
+    expect((await findSlots({ startDate: 'yesterday' })).errorCode).toBe('INVALID_TIME');
+    expect((await findSlots({ startDate: 'next 30 days' })).error).toMatch(/at most 14 days/);
+  });
+
+  it('returns the interpretation and requires authentication before reading the calendar', async () => {
+    const output = await findSlots({ startDate: 'tomorrow 9am-noon', duration: '25' });
+
+    expect(output.errorCode).toBe('AUTH_REQUIRED');
+    expect(output.duration).toBe('25');
+    expect(output.timeZone).toBe('America/New_York');
+    expect(output.interpretation?.startTimeLocal).toMatch(/T09:00:00-0[45]:00$/);
+    expect(output.interpretation?.endTimeLocal).toMatch(/T12:00:00-0[45]:00$/);
+  });
+});
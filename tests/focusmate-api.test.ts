@@ -0,0 +1,520 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { FocusmateClient, splitRange } from '../src/api/focusmate-client.js';
+import { resolveTimeZone } from '../src/api/timezone.js';
+import { createServer } from '../src/server.js';
+import type { Session } from '../src/schemas/session.js';
+import type { ApiSession } from '../src/api/focusmate-client.js';
+import { InvalidApiKeyError } from '../src/utils/errors.js';
+import { startFakeApi, type FakeFocusmateApi } from './fake-api/server.js';
+import { FAKE_API_KEY, ME } from './fake-api/fixtures.js';
+
+const WIDE_RANGE = {
+  start: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
+  end: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
+};
+
+let fake: FakeFocusmateApi;
+
+beforeAll(async () => {
+  fake = await startFakeApi();
+});
+
+afterAll(async () => {
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.requests.length = 0;
+});
+
+describe('FocusmateClient', () => {
+  it('uses FOCUSMATE_API_BASE_URL when no base URL is passed', async () => {
+    process.env.FOCUSMATE_API_BASE_URL = fake.baseUrl;
+    try {
+      const client = new FocusmateClient(FAKE_API_KEY);
+      const profile = await client.getProfile();
+      expect(profile.user.userId).toBe('user-me');
+      expect(fake.requests[0].path).toBe('/me');
+    } finally {
+      delete process.env.FOCUSMATE_API_BASE_URL;
+    }
+  });
+
+  it('passes the date range to /sessions', async () => {
+    const client = new FocusmateClient(FAKE_API_KEY, fake.baseUrl);
+    await client.getSessions(WIDE_RANGE.start, WIDE_RANGE.end);
+    expect(fake.requests.find(r => r.path === '/sessions')).toMatchObject({
+      path: '/sessions',
+      query: { start: WIDE_RANGE.start, end: WIDE_RANGE.end }
+    });
+  });
+
+  it('maps sessions and derives status from time and completion', async () => {
+    const client = new FocusmateClient(FAKE_API_KEY, fake.baseUrl);
+    const sessions = await client.getSessions(WIDE_RANGE.start, WIDE_RANGE.end);
+    const byId = Object.fromEntries(sessions.map(s => [s.id, s]));
+
+    expect(byId['sess-completed'].status).toBe('completed');
+    expect(byId['sess-no-show'].status).toBe('no_show');
+    expect(byId['sess-partner-no-show'].status).toBe('no_show');
+    expect(byId['sess-in-progress'].status).toBe('in_progress');
+    expect(byId['sess-matched'].status).toBe('matched');
+    expect(byId['sess-pending'].status).toBe('pending');
+  });
+
+  it('identifies the current user regardless of participant order', async () => {
+    const client = new FocusmateClient(FAKE_API_KEY, fake.baseUrl);
+    const sessions = await client.getSessions(WIDE_RANGE.start, WIDE_RANGE.end);
+    const session = sessions.find(s => s.id === 'sess-partner-first')!;
+
+    expect(session.partnerId).toBe('user-jane');
+    expect(session.title).toBe('Inbox zero');
+    expect(session.me?.userId).toBe('user-me');
+    expect(session.partner?.userId).toBe('user-jane');
+    expect(session.status).toBe('completed');
+  });
+
+  it('says who missed a no-show session', async () => {
+    const client = new FocusmateClient(FAKE_API_KEY, fake.baseUrl);
+    const sessions = await client.getSessions(WIDE_RANGE.start, WIDE_RANGE.end);
+    const byId = Object.fromEntries(sessions.map(s => [s.id, s]));
+
+    expect(byId['sess-no-show'].noShowBy).toBe('me');
+    expect(byId['sess-partner-no-show'].noShowBy).toBe('partner');
+    expect(byId['sess-completed'].noShowBy).toBeUndefined();
+  });
+
+  it('exposes both participants\' attendance', async () => {
+    const client = new FocusmateClient(FAKE_API_KEY, fake.baseUrl);
+    const sessions = await client.getSessions(WIDE_RANGE.start, WIDE_RANGE.end);
+    const session = sessions.find(s => s.id === 'sess-partner-no-show')!;
+
+    expect(session.me).toMatchObject({ completed: true, joinedAt: expect.any(String) });
+    expect(session.partner).toMatchObject({ userId: 'user-sam', completed: false, joinedAt: null });
+    expect(sessions.find(s => s.id === 'sess-pending')!.partner).toBeNull();
+  });
+
+  it('fetches the current user ID once per key', async () => {
+    const client = new FocusmateClient(FAKE_API_KEY, fake.baseUrl);
+    await client.getSessions(WIDE_RANGE.start, WIDE_RANGE.end);
+    await client.getSessions(WIDE_RANGE.start, WIDE_RANGE.end);
+    expect(fake.requests.filter(r => r.path === '/me').length).toBeLessThanOrEqual(1);
+  });
+
+  it('converts durations and fills partner and title fields', async () => {
+    const client = new FocusmateClient(FAKE_API_KEY, fake.baseUrl);
+    const sessions = await client.getSessions(WIDE_RANGE.start, WIDE_RANGE.end);
+    const matched = sessions.find(s => s.id === 'sess-matched')!;
+
+    expect(matched.duration).toBe(75);
+    expect(new Date(matched.endTime).getTime() - new Date(matched.startTime).getTime())
+      .toBe(75 * 60 * 1000);
+    expect(matched.partnerId).toBe('user-sam');
+    expect(matched.title).toBe('Deep work');
+
+    const pending = sessions.find(s => s.id === 'sess-pending')!;
+    expect(pending.partnerId).toBeNull();
+  });
+
+  it('fetches partner profiles from /users/:id', async () => {
+    const client = new FocusmateClient(FAKE_API_KEY, fake.baseUrl);
+    const { user } = await client.getUser('user-jane');
+    expect(user.name).toBe('Jane D.');
+    expect(user.timeZone).toBe('Europe/London');
+    expect(fake.requests[0].path).toBe('/users/user-jane');
+  });
+
+  it('reports an invalid API key on 401', async () => {
+    const client = new FocusmateClient('wrong-key', fake.baseUrl);
+    await expect(client.getProfile()).rejects.toThrow(InvalidApiKeyError);
+  });
+
+  it('reports rate limiting on 429', async () => {
+    fake.failNext(429);
+    const client = new FocusmateClient(FAKE_API_KEY, fake.baseUrl);
+    await expect(client.getSessions(WIDE_RANGE.start, WIDE_RANGE.end)).rejects.toThrow(/rate limit/);
+  });
+
+  it('reports server errors with their status', async () => {
+    fake.failNext(500);
+    const client = new FocusmateClient(FAKE_API_KEY, fake.baseUrl);
+    await expect(client.getProfile()).rejects.toMatchObject({ code: 'API_ERROR', status: 500 });
+  });
+
+  it('reports an unreachable API without a status', async () => {
+    const client = new FocusmateClient(FAKE_API_KEY, 'http://127.0.0.1:1');
+    await expect(client.getProfile()).rejects.toMatchObject({ code: 'API_ERROR', status: undefined });
+  });
+});
+
+describe('list_sessions tool', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    fs.rmSync(path.join(configDir, 'partner-cache.json'), { force: true });
+    fs.rmSync(path.join(configDir, 'sessions.json'), { force: true });
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({
+      apiKey: FAKE_API_KEY,
+      apiBaseUrl: fake.baseUrl
+    }));
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    vi.restoreAllMocks();
+  });
+
+  async function listSessions(
+    args: Record<string, unknown> = {}
+  ): Promise<{
+    sessions: Session[];
+    totalCount: number;
+    nextCursor?: string;
+    source?: string;
+    warning?: string;
+    timeZone?: string;
+    interpretation?: { input: string; startTimeLocal: string; description: string };
+    errorCode?: string;
+  }> {
+    const result = await client.callTool({
+      name: 'list_sessions',
+      arguments: { startDate: WIDE_RANGE.start, endDate: WIDE_RANGE.end, ...args }
+    });
+    const content = result.content as Array<{ type: string; text: string }>;
+    return JSON.parse(content[0].text);
+  }
+
+  it('answers from the API when a key is configured', async () => {
+    const output = await listSessions();
+    expect(output.totalCount).toBe(7);
+    expect(output.sessions.map(s => s.id)).toContain('sess-matched');
+  });
+
+  it('returns sessions oldest first', async () => {
+    const output = await listSessions();
+    const starts = output.sessions.map(s => new Date(s.startTime).getTime());
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+  });
+
+  it('pages through results with limit and cursor', async () => {
+    const all = await listSessions();
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await listSessions({ limit: 3, cursor });
+      expect(page.totalCount).toBe(7);
+      expect(page.sessions.length).toBeLessThanOrEqual(3);
+      ids.push(...page.sessions.map(s => s.id));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    expect(ids).toEqual(all.sessions.map(s => s.id));
+  });
+
+  it('rejects a cursor from a different range', async () => {
+    const { nextCursor } = await listSessions({ limit: 2 });
+    const output = await listSessions({ startDate: new Date().toISOString(), cursor: nextCursor });
+    expect(output.errorCode).toBe('INVALID_CURSOR');
+  });
+
+  it('explains a phrase even when the cursor is rejected', async () => {
+    const output = await listSessions({ startDate: 'next 14 days', endDate: undefined, cursor: 'not-a-cursor' });
+    expect(output.errorCode).toBe('INVALID_CURSOR');
+    expect(output.interpretation?.input).toBe('next 14 days');
+  });
+
+  it('resolves partner names, photos and time zones', async () => {
+    const output = await listSessions();
+    const completed = output.sessions.find(s => s.id === 'sess-completed')!;
+    expect(completed.partnerName).toBe('Jane D.');
+    expect(completed.partnerPhotoUrl).toBe('https://example.com/jane.png');
+    expect(completed.partnerTimeZone).toBe('Europe/London');
+
+    const pending = output.sessions.find(s => s.id === 'sess-pending')!;
+    expect(pending.partnerName).toBeNull();
+  });
+
+  it('looks each partner up once and caches profiles on disk', async () => {
+    await listSessions();
+    const userLookups = fake.requests.filter(r => r.path.startsWith('/users/')).map(r => r.path);
+    expect(userLookups.sort()).toEqual(['/users/user-jane', '/users/user-sam']);
+
+    fake.requests.length = 0;
+    const output = await listSessions();
+    expect(fake.requests.filter(r => r.path.startsWith('/users/'))).toEqual([]);
+    expect(output.sessions.find(s => s.id === 'sess-matched')!.partnerName).toBe('Sam K.');
+  });
+
+  it('still lists sessions when partner lookups fail', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fake.failNext(500, { path: '/users/user-jane' });
+
+    const output = await listSessions();
+    expect(output.totalCount).toBe(7);
+    expect(output.sessions.find(s => s.id === 'sess-completed')!.partnerName).toBeNull();
+    expect(output.sessions.find(s => s.id === 'sess-matched')!.partnerName).toBe('Sam K.');
+  });
+
+  it('falls back to the browser when the API fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fake.failNext(500, { path: '/sessions' });
+
+    const output = await listSessions();
+
+    // No browser profile exists in the temp config dir, so the fallback reports that
+    expect(fake.requests.map(r => r.path)).toContain('/sessions');
+    expect(output.sessions).toEqual([]);
+    expect(output.errorCode).toBe('AUTH_REQUIRED');
+  });
+
+  it('adds local times in the profile\'s time zone', async () => {
+    const output = await listSessions();
+    const session = output.sessions.find(s => s.id === 'sess-matched')!;
+
+    expect(output.timeZone).toBe(ME.timeZone);
+    expect(session.startTimeLocal).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}-0[45]:00$/);
+    // Local times are given to the second
+    expect(new Date(session.startTimeLocal!).getTime()).toBe(Math.floor(new Date(session.startTime).getTime() / 1000) * 1000);
+  });
+
+  it('reads natural-language ranges and returns the interpretation', async () => {
+    const output = await listSessions({ startDate: 'next 3 days', endDate: undefined });
+
+    expect(output.interpretation?.input).toBe('next 3 days');
+    expect(output.interpretation?.startTimeLocal).toMatch(/T00:00:00-0[45]:00$/);
+    expect(output.interpretation?.description).toContain(ME.timeZone);
+    expect(output.sessions.map(s => s.id)).toEqual(expect.arrayContaining(['sess-matched', 'sess-pending']));
+    expect(output.sessions.map(s => s.id)).not.toContain('sess-completed');
+  });
+
+  it('leaves out the interpretation for ISO 8601 ranges', async () => {
+    expect((await listSessions()).interpretation).toBeUndefined();
+  });
+
+  it('rejects date ranges it does not understand', async () => {
+    expect((await listSessions({ startDate: 'whenever' })).errorCode).toBe('INVALID_TIME');
+    expect((await listSessions({ startDate: 'tomorrow', endDate: 'yesterday' })).errorCode).toBe('INVALID_TIME');
+  });
+
+  it('only fetches sessions after the sync cursor on later calls', async () => {
+    await listSessions();
+    fake.requests.length = 0;
+
+    const output = await listSessions();
+
+    expect(output.totalCount).toBe(7);
+    const [request] = fake.requests.filter(r => r.path === '/sessions');
+    expect(new Date(request.query.start).getTime()).toBeGreaterThan(new Date(WIDE_RANGE.start).getTime());
+  });
+
+  it('re-fetches the whole range with refresh', async () => {
+    await listSessions();
+    fake.requests.length = 0;
+
+    await listSessions({ refresh: true });
+
+    const [request] = fake.requests.filter(r => r.path === '/sessions');
+    expect(request.query.start).toBe(WIDE_RANGE.start);
+  });
+
+  it('answers from the local store when rate-limited', async () => {
+    await listSessions();
+    fake.failNext(429, { path: '/sessions' });
+
+    const output = await listSessions();
+
+    expect(output.source).toBe('cache');
+    expect(output.warning).toMatch(/rate limit/i);
+    expect(output.totalCount).toBe(7);
+    expect(output.errorCode).toBeUndefined();
+  });
+
+  it('falls back to the browser when the API key is rejected', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fake.failNext(401);
+
+    const output = await listSessions();
+    expect(output.errorCode).toBe('AUTH_REQUIRED');
+  });
+});
+
+describe('get_partner_profile tool', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    fs.rmSync(path.join(configDir, 'partner-cache.json'), { force: true });
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({
+      apiKey: FAKE_API_KEY,
+      apiBaseUrl: fake.baseUrl
+    }));
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  async function getProfile(args: Record<string, unknown>): Promise<Record<string, any>> {
+    const result = await client.callTool({ name: 'get_partner_profile', arguments: args });
+    const content = result.content as Array<{ type: string; text: string }>;
+    return JSON.parse(content[0].text);
+  }
+
+  it('fetches the profile, then answers from the cache', async () => {
+    const first = await getProfile({ userId: 'user-sam' });
+    expect(first).toMatchObject({ success: true, cached: false, profile: { name: 'Sam K.', timeZone: 'Asia/Tokyo' } });
+
+    const second = await getProfile({ userId: 'user-sam' });
+    expect(second.cached).toBe(true);
+    expect(fake.requests.filter(r => r.path === '/users/user-sam')).toHaveLength(1);
+  });
+
+  it('bypasses the cache on refresh', async () => {
+    await getProfile({ userId: 'user-sam' });
+    const refreshed = await getProfile({ userId: 'user-sam', refresh: true });
+    expect(refreshed.cached).toBe(false);
+  });
+
+  it('reports unknown users', async () => {
+    const output = await getProfile({ userId: 'user-nobody' });
+    expect(output.success).toBe(false);
+    expect(output.errorCode).toBe('API_ERROR');
+    expect(output.retryable).toBe(false);
+  });
+});
+
+describe('long history ranges', () => {
+  let history: FakeFocusmateApi;
+
+  const HOUR = 60 * 60 * 1000;
+  const yearStart = new Date('2025-01-01T00:00:00.000Z');
+  const yearEnd = new Date('2026-01-01T00:00:00.000Z');
+
+  function dailySessions(): ApiSession[] {
+    const sessions: ApiSession[] = [];
+    for (let t = yearStart.getTime() + 9 * HOUR; t < yearEnd.getTime(); t += 24 * HOUR) {
+      sessions.push({
+        sessionId: `hist-${t}`,
+        duration: 50 * 60 * 1000,
+        startTime: new Date(t).toISOString(),
+        users: [{ userId: ME.userId, requestedAt: new Date(t - HOUR).toISOString(), completed: true }]
+      });
+    }
+    return sessions;
+  }
+
+  beforeAll(async () => {
+    history = await startFakeApi({ sessions: dailySessions(), maxRangeDays: 28 });
+  });
+
+  afterAll(async () => {
+    await history.close();
+  });
+
+  beforeEach(() => {
+    history.requests.length = 0;
+  });
+
+  it('splits ranges into windows of at most the given size', () => {
+    const windows = splitRange(yearStart, yearEnd, 28);
+    expect(windows).toHaveLength(14);
+    expect(windows[0][0]).toEqual(yearStart);
+    expect(windows[13][1]).toEqual(yearEnd);
+    for (let i = 1; i < windows.length; i++) {
+      expect(windows[i][0]).toEqual(windows[i - 1][1]);
+    }
+  });
+
+  it('fetches a year of history in API-sized windows', async () => {
+    const client = new FocusmateClient(FAKE_API_KEY, history.baseUrl);
+    const sessions = await client.getSessions(yearStart.toISOString(), yearEnd.toISOString());
+
+    expect(sessions).toHaveLength(365);
+    expect(history.requests.filter(r => r.path === '/sessions')).toHaveLength(14);
+    const starts = sessions.map(s => new Date(s.startTime).getTime());
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+  });
+
+  it('de-duplicates sessions that span a window boundary', async () => {
+    // Window boundaries fall every 28 days from the range start
+    const boundary = new Date(yearStart.getTime() + 28 * 24 * HOUR);
+    history.sessions = [{
+      sessionId: 'spans-boundary',
+      duration: 50 * 60 * 1000,
+      startTime: new Date(boundary.getTime() - 25 * 60 * 1000).toISOString(),
+      users: [{ userId: ME.userId, requestedAt: yearStart.toISOString(), completed: true }]
+    }];
+
+    try {
+      const client = new FocusmateClient(FAKE_API_KEY, history.baseUrl);
+      const sessions = await client.getSessions(yearStart.toISOString(), yearEnd.toISOString());
+      expect(sessions.map(s => s.id)).toEqual(['spans-boundary']);
+    } finally {
+      history.sessions = dailySessions();
+    }
+  });
+});
+
+describe('resolveTimeZone', () => {
+  beforeEach(() => {
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({
+      apiKey: FAKE_API_KEY,
+      apiBaseUrl: fake.baseUrl
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('uses the profile\'s time zone', async () => {
+    expect(await resolveTimeZone()).toEqual({ timeZone: ME.timeZone, source: 'profile' });
+  });
+
+  it('prefers an override from config.json or the environment', async () => {
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({
+      apiKey: FAKE_API_KEY,
+      apiBaseUrl: fake.baseUrl,
+      timeZone: 'Europe/Paris'
+    }));
+    expect(await resolveTimeZone()).toEqual({ timeZone: 'Europe/Paris', source: 'override' });
+
+    vi.stubEnv('FOCUSMATE_TIME_ZONE', 'Asia/Tokyo');
+    expect(await resolveTimeZone()).toEqual({ timeZone: 'Asia/Tokyo', source: 'override' });
+  });
+
+  it('ignores an invalid override', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('FOCUSMATE_TIME_ZONE', 'Not/A_Zone');
+    expect((await resolveTimeZone()).source).toBe('profile');
+  });
+
+  it('falls back to the system zone without an API key', async () => {
+    fs.writeFileSync(path.join(configDir, 'config.json'), '{}');
+    expect(await resolveTimeZone()).toEqual({
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      source: 'system'
+    });
+  });
+});
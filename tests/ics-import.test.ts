@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { planBlockSessions } from '../src/calendar/blocks.js';
+import { formatIcsDateTime, parseIcsEvents } from '../src/calendar/ics.js';
+import type { ImportIcsBlocksOutput } from '../src/schemas/calendar.js';
+import { createServer } from '../src/server.js';
+import { startFakeApi, type FakeFocusmateApi } from './fake-api/server.js';
+import { FAKE_API_KEY } from './fake-api/fixtures.js';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+function calendar(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//test//EN', ...events.flat(), 'END:VCALENDAR'].join('\r\n');
+}
+
+function event(lines: string[]): string[] {
+  return ['BEGIN:VEVENT', ...lines, 'END:VEVENT'];
+}
+
+describe('parseIcsEvents', () => {
+  it('reads UTC events with summary, categories and UID', () => {
+    const [parsed] = parseIcsEvents(calendar(event([
+      'UID:abc@example.com',
+      'SUMMARY:Focus: write\\, edit',
+      'CATEGORIES:Deep work,Focus',
+      'DTSTART:20260402T140000Z',
+      'DTEND:20260402T160000Z'
+    ])));
+
+    expect(parsed).toMatchObject({
+      uid: 'abc@example.com',
+      summary: 'Focus: write, edit',
+      categories: ['Deep work', 'Focus'],
+      allDay: false,
+      recurring: false
+    });
+    expect(parsed.start.toISOString()).toBe('2026-04-02T14:00:00.000Z');
+    expect(parsed.end.toISOString()).toBe('2026-04-02T16:00:00.000Z');
+  });
+
+  it('converts TZID times to UTC', () => {
+    const [parsed] = parseIcsEvents(calendar(event([
+      'SUMMARY:Focus',
+      'DTSTART;TZID=America/New_York:20260715T090000',
+      'DTEND;TZID=America/New_York:20260715T103000'
+    ])));
+
+    expect(parsed.start.toISOString()).toBe('2026-07-15T13:00:00.000Z');
+    expect(parsed.end.toISOString()).toBe('2026-07-15T14:30:00.000Z');
+  });
+
+  it('derives the end from DURATION', () => {
+    const [parsed] = parseIcsEvents(calendar(event([
+      'SUMMARY:Focus',
+      'DTSTART:20260402T140000Z',
+      'DURATION:PT1H30M'
+    ])));
+    expect(parsed.end.toISOString()).toBe('2026-04-02T15:30:00.000Z');
+  });
+
+  it('unfolds continuation lines and ignores nested alarms', () => {
+    const [parsed] = parseIcsEvents(calendar(event([
+      'SUMMARY:Focus on the quarterly',
+      '  report',
+      'DTSTART:20260402T140000Z',
+      'DTEND:20260402T150000Z',
+      'BEGIN:VALARM',
+      'SUMMARY:Reminder',
+      'END:VALARM'
+    ])));
+    expect(parsed.summary).toBe('Focus on the quarterly report');
+  });
+
+  it('flags all-day and recurring events', () => {
+    const events = parseIcsEvents(calendar(
+      event(['SUMMARY:Offsite', 'DTSTART;VALUE=DATE:20260402', 'DTEND;VALUE=DATE:20260403']),
+      event(['SUMMARY:Focus', 'DTSTART:20260402T140000Z', 'DTEND:20260402T150000Z', 'RRULE:FREQ=WEEKLY'])
+    ));
+    expect(events[0].allDay).toBe(true);
+    expect(events[1].recurring).toBe(true);
+  });
+
+  it('drops events without a start', () => {
+    expect(parseIcsEvents(calendar(event(['SUMMARY:Focus'])))).toEqual([]);
+  });
+});
+
+describe('planBlockSessions', () => {
+  const at = (time: string): Date => new Date(`2026-04-02T${time}:00.000Z`);
+  const plan = (start: string, end: string) =>
+    planBlockSessions(at(start), at(end)).map(s => [s.startTime.toISOString().slice(11, 16), s.duration]);
+
+  it('fills a block with the longest sessions that fit', () => {
+    expect(plan('09:00', '11:00')).toEqual([['09:00', '75'], ['10:15', '25']]);
+    expect(plan('09:00', '10:00')).toEqual([['09:00', '50']]);
+    expect(plan('09:00', '09:30')).toEqual([['09:00', '25']]);
+  });
+
+  it('snaps blocks inward onto 15-minute boundaries', () => {
+    expect(plan('09:05', '10:40')).toEqual([['09:15', '75']]);
+  });
+
+  it('starts each session on the boundary after the previous one ends', () => {
+    expect(plan('09:00', '11:00').length).toBe(2);
+    expect(plan('09:00', '10:45')).toEqual([['09:00', '75'], ['10:15', '25']]);
+    expect(plan('09:00', '09:50')).toEqual([['09:00', '25']]);
+  });
+
+  it('returns nothing for blocks too short to book', () => {
+    expect(plan('09:00', '09:20')).toEqual([]);
+    expect(plan('09:10', '09:40')).toEqual([]);
+  });
+});
+
+describe('import_ics_blocks tool', () => {
+  let fake: FakeFocusmateApi;
+  let client: Client;
+  let icsPath: string;
+
+  // Fixture sessions sit at fixed offsets from now; sess-matched starts 24 hours out
+  const base = new Date(Math.ceil((Date.now() + 24 * HOUR) / (15 * MINUTE)) * 15 * MINUTE);
+
+  beforeAll(async () => {
+    fake = await startFakeApi();
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({
+      apiKey: FAKE_API_KEY,
+      apiBaseUrl: fake.baseUrl
+    }));
+    icsPath = path.join(configDir, 'plan.ics');
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  beforeEach(async () => {
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  function block(summary: string, startOffset: number, endOffset: number, extra: string[] = []): string[] {
+    return event([
+      `UID:${summary.replace(/\W/g, '-')}@example.com`,
+      `SUMMARY:${summary}`,
+      `DTSTART:${formatIcsDateTime(new Date(base.getTime() + startOffset))}`,
+      `DTEND:${formatIcsDateTime(new Date(base.getTime() + endOffset))}`,
+      ...extra
+    ]);
+  }
+
+  async function importBlocks(args: Record<string, unknown>): Promise<ImportIcsBlocksOutput> {
+    const result = await client.callTool({ name: 'import_ics_blocks', arguments: { path: icsPath, ...args } });
+    const content = result.content as Array<{ type: string; text: string }>;
+    return JSON.parse(content[0].text);
+  }
+
+  it('plans matching blocks and skips ones already covered', async () => {
+    fs.writeFileSync(icsPath, calendar(
+      block('Focus: already booked', 0, HOUR),
+      block('Focus: writing', 3 * HOUR, 5 * HOUR),
+      block('Team standup', 6 * HOUR, 7 * HOUR),
+      block('Focus: cancelled', 8 * HOUR, 9 * HOUR, ['STATUS:CANCELLED']),
+      block('Focus: too short', 10 * HOUR, 10 * HOUR + 20 * MINUTE)
+    ));
+
+    const output = await importBlocks({ dryRun: true });
+
+    expect(output.success).toBe(true);
+    expect(output.events.map(e => [e.summary, e.status])).toEqual([
+      ['Focus: already booked', 'covered'],
+      ['Focus: writing', 'planned'],
+      ['Focus: too short', 'skipped']
+    ]);
+    expect(output.events[0].sessions[0].sessionId).toBe('sess-matched');
+    expect(output.events[1].sessions.map(s => s.duration)).toEqual(['75', '25']);
+    expect(output.existingCount).toBe(1);
+    expect(output.bookedCount).toBe(0);
+  });
+
+  it('filters by a custom pattern against categories', async () => {
+    fs.writeFileSync(icsPath, calendar(
+      block('Writing', 3 * HOUR, 4 * HOUR, ['CATEGORIES:Deep Work']),
+      block('Focus: writing', 5 * HOUR, 6 * HOUR)
+    ));
+
+    const output = await importBlocks({ pattern: '^deep work$', dryRun: true });
+    expect(output.events.map(e => e.summary)).toEqual(['Writing']);
+  });
+
+  it('does not plan overlapping events twice', async () => {
+    fs.writeFileSync(icsPath, calendar(
+      block('Focus A', 3 * HOUR, 4 * HOUR),
+      block('Focus B', 3 * HOUR, 4 * HOUR)
+    ));
+
+    const output = await importBlocks({ dryRun: true });
+    expect(output.events.map(e => e.status)).toEqual(['planned', 'covered']);
+    expect(output.events[1].sessions.map(s => s.status)).toEqual(['duplicate']);
+    expect(output.duplicateCount).toBe(1);
+    expect(output.existingCount).toBe(0);
+  });
+
+  it('reports recurring events as unsupported', async () => {
+    fs.writeFileSync(icsPath, calendar(
+      block('Focus: daily', 3 * HOUR, 4 * HOUR, ['RRULE:FREQ=DAILY;COUNT=5'])
+    ));
+
+    const output = await importBlocks({ dryRun: true });
+    expect(output.events.map(e => [e.status, e.sessions.length])).toEqual([['unsupported', 0]]);
+    expect(output.events[0].reason).toContain('create_recurring_rule');
+  });
+
+  it('reports unreadable files and invalid patterns', async () => {
+    expect((await importBlocks({ path: path.join(configDir, 'missing.ics') })).errorCode).toBe('FILE_ERROR');
+    expect((await importBlocks({ pattern: '(' })).errorCode).toBe('INVALID_PATTERN');
+  });
+});
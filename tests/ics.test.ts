@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { formatIcsDateTime, sessionsToIcs } from '../src/calendar/ics.js';
+import type { Session } from '../src/schemas/session.js';
+
+const now = new Date('2026-04-01T08:00:00.000Z');
+
+function makeSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 'sess-1',
+    startTime: '2026-04-02T14:00:00.000Z',
+    endTime: '2026-04-02T14:50:00.000Z',
+    duration: 50,
+    status: 'matched',
+    partnerId: 'user-jane',
+    partnerName: 'Jane D.',
+    ...overrides
+  };
+}
+
+/** Unfold continuation lines and split into content lines. */
+function contentLines(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+}
+
+describe('sessionsToIcs', () => {
+  it('wraps events in a VCALENDAR with CRLF line endings', () => {
+    const ics = sessionsToIcs([makeSession()], now);
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('VERSION:2.0');
+    expect(lines.some(l => l.startsWith('PRODID:'))).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/\n/);
+  });
+
+  it('renders session details', () => {
+    const lines = contentLines(sessionsToIcs([makeSession({ title: 'Write report' })], now));
+
+    expect(lines).toContain('UID:sess-1@focusmate-mcp');
+    expect(lines).toContain('DTSTAMP:20260401T080000Z');
+    expect(lines).toContain('DTSTART:20260402T140000Z');
+    expect(lines).toContain('DTEND:20260402T145000Z');
+    expect(lines).toContain('SUMMARY:Focusmate with Jane D.: Write report');
+    expect(lines).toContain('URL:https://app.focusmate.com/session/sess-1');
+    expect(lines).toContain('STATUS:CONFIRMED');
+  });
+
+  it('keeps UIDs stable across exports', () => {
+    const first = contentLines(sessionsToIcs([makeSession()], now)).find(l => l.startsWith('UID:'));
+    const second = contentLines(sessionsToIcs([makeSession({ status: 'cancelled' })], new Date()))
+      .find(l => l.startsWith('UID:'));
+    expect(second).toBe(first);
+  });
+
+  it('marks cancelled sessions cancelled', () => {
+    const lines = contentLines(sessionsToIcs([makeSession({ status: 'cancelled' })], now));
+    expect(lines).toContain('STATUS:CANCELLED');
+  });
+
+  it('raises the sequence with every export, so calendars take each update', () => {
+    const sequence = (at: Date, overrides: Partial<Session> = {}): number => Number(
+      contentLines(sessionsToIcs([makeSession(overrides)], at)).find(l => l.startsWith('SEQUENCE:'))?.slice(9)
+    );
+    const first = sequence(now);
+    const second = sequence(new Date(now.getTime() + 60_000), { status: 'cancelled' });
+    const third = sequence(new Date(now.getTime() + 120_000), { status: 'cancelled', title: 'Renamed' });
+
+    expect(second).toBeGreaterThan(first);
+    expect(third).toBeGreaterThan(second);
+  });
+
+  it('marks unmatched sessions tentative', () => {
+    const lines = contentLines(sessionsToIcs([makeSession({ status: 'pending', partnerName: null })], now));
+    expect(lines).toContain('STATUS:TENTATIVE');
+    expect(lines).toContain('SUMMARY:Focusmate session');
+  });
+
+  it('escapes special characters in text values', () => {
+    const lines = contentLines(sessionsToIcs([makeSession({ title: 'Draft; review, then\nsend \\ ship' })], now));
+    expect(lines).toContain('SUMMARY:Focusmate with Jane D.: Draft\\; review\\, then\\nsend \\\\ ship');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const title = 'Écrire le rapport trimestriel '.repeat(5);
+    const ics = sessionsToIcs([makeSession({ title })], now);
+
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('�');
+    }
+    expect(contentLines(ics)).toContain(`SUMMARY:Focusmate with Jane D.: ${title}`);
+  });
+
+  it('emits an empty calendar for no sessions', () => {
+    expect(sessionsToIcs([], now)).not.toContain('BEGIN:VEVENT');
+  });
+});
+
+describe('formatIcsDateTime', () => {
+  it('formats UTC date-times without separators or milliseconds', () => {
+    expect(formatIcsDateTime(new Date('2026-12-31T23:45:00.000Z'))).toBe('20261231T234500Z');
+  });
+});
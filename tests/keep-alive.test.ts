@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { KeepAlive, keepAlive, loadKeepAliveState } from '../src/automation/keep-alive.js';
+import type { FirebaseAuthUser } from '../src/automation/browser.js';
+import { browserPool } from '../src/automation/browser-pool.js';
+import { getKeepAliveMinutes } from '../src/api/config.js';
+import { createServer } from '../src/server.js';
+import { AuthExpiredError, BrowserBusyError } from '../src/utils/errors.js';
+
+const PROFILE_DIR = path.join(configDir, 'browser-data', 'Default');
+const USER: FirebaseAuthUser = { uid: 'u1', expiresAt: '2030-01-01T00:00:00.000Z' };
+
+beforeEach(() => {
+  // hasAuthData looks for the Chromium profile
+  fs.mkdirSync(PROFILE_DIR, { recursive: true });
+  fs.rmSync(path.join(configDir, 'keep-alive.json'), { force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe('KeepAlive', () => {
+  it('records a successful refresh and the new token expiry', async () => {
+    const refresh = vi.fn(async () => USER);
+    const state = await new KeepAlive({ refresh }).refresh();
+
+    expect(refresh).toHaveBeenCalledOnce();
+    expect(state).toMatchObject({ reauthRequired: false, tokenExpiresAt: USER.expiresAt });
+    expect(loadKeepAliveState()).toEqual(state);
+    expect(state?.lastRefreshAt).toBe(state?.lastCheckAt);
+  });
+
+  it('does nothing without a saved login', async () => {
+    fs.rmSync(path.join(configDir, 'browser-data'), { recursive: true, force: true });
+    const refresh = vi.fn(async () => USER);
+
+    expect(await new KeepAlive({ refresh }).refresh()).toBeUndefined();
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('notifies once when the login needs renewing, and again after it recovers and lapses', async () => {
+    let expired = true;
+    const alive = new KeepAlive({
+      refresh: async () => {
+        if (expired) throw new AuthExpiredError();
+        return USER;
+      }
+    });
+    const messages: string[] = [];
+    alive.onReauthRequired(message => messages.push(message));
+
+    const first = await alive.refresh();
+    await alive.refresh();
+    expect(first).toMatchObject({ reauthRequired: true });
+    expect(first?.lastRefreshAt).toBeUndefined();
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toContain('focusmate_auth');
+
+    expired = false;
+    expect(await alive.refresh()).toMatchObject({ reauthRequired: false });
+    expired = true;
+    await alive.refresh();
+    expect(messages).toHaveLength(2);
+  });
+
+  it('keeps the last refresh when a visit fails for another reason', async () => {
+    let fail = false;
+    const alive = new KeepAlive({
+      refresh: async () => {
+        if (fail) throw new Error('net::ERR_INTERNET_DISCONNECTED');
+        return USER;
+      }
+    });
+    const ok = await alive.refresh();
+
+    fail = true;
+    const failed = await alive.refresh();
+    expect(failed).toMatchObject({ reauthRequired: false, lastRefreshAt: ok?.lastRefreshAt });
+    expect(failed?.lastError).toContain('ERR_INTERNET_DISCONNECTED');
+  });
+
+  it('skips a visit while the browser is busy', async () => {
+    const alive = new KeepAlive({ refresh: async () => { throw new BrowserBusyError(); } });
+
+    expect(await alive.refresh()).toBeUndefined();
+    expect(loadKeepAliveState()).toBeUndefined();
+  });
+
+  it('runs one visit at a time', async () => {
+    let resolve!: (user: FirebaseAuthUser) => void;
+    const refresh = vi.fn(() => new Promise<FirebaseAuthUser>(r => { resolve = r; }));
+    const alive = new KeepAlive({ refresh });
+
+    const first = alive.refresh();
+    const second = alive.refresh();
+    await vi.waitFor(() => expect(refresh).toHaveBeenCalled());
+    resolve(USER);
+
+    expect(await second).toEqual(await first);
+    expect(refresh).toHaveBeenCalledOnce();
+  });
+
+  it('visits on its interval until stopped', async () => {
+    vi.useFakeTimers();
+    const refresh = vi.fn(async () => USER);
+    const alive = new KeepAlive({ refresh });
+
+    alive.start(60_000);
+    await vi.advanceTimersByTimeAsync(120_000);
+    alive.stop();
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(refresh).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('getKeepAliveMinutes', () => {
+  it('is off unless configured, and at least 15 minutes', () => {
+    vi.stubEnv('FOCUSMATE_KEEP_ALIVE_MINUTES', '');
+    expect(getKeepAliveMinutes()).toBeUndefined();
+
+    vi.stubEnv('FOCUSMATE_KEEP_ALIVE_MINUTES', '240');
+    expect(getKeepAliveMinutes()).toBe(240);
+
+    vi.stubEnv('FOCUSMATE_KEEP_ALIVE_MINUTES', '1');
+    expect(getKeepAliveMinutes()).toBe(15);
+  });
+});
+
+describe('server', () => {
+  it('sends a warning log message when the keep-alive finds the login expired', async () => {
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const messages: Array<{ level: string; logger?: string; data: unknown }> = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      messages.push(notification.params);
+    });
+    await client.connect(clientTransport);
+
+    // Stands in for the shared keep-alive's browser visit
+    const visit = vi.spyOn(keepAlive as unknown as { refreshLogin: () => Promise<FirebaseAuthUser | null> }, 'refreshLogin')
+      .mockRejectedValue(new AuthExpiredError());
+    try {
+      await keepAlive.refresh();
+      await vi.waitFor(() => expect(messages).toHaveLength(1));
+      expect(messages[0]).toMatchObject({ level: 'warning', logger: 'auth' });
+    } finally {
+      visit.mockRestore();
+      await client.close();
+    }
+  });
+
+  it('stops listening to the keep-alive and browser pool once closed', async () => {
+    const stopReauth = vi.fn();
+    const stopWait = vi.fn();
+    vi.spyOn(keepAlive, 'onReauthRequired').mockReturnValue(stopReauth);
+    vi.spyOn(browserPool, 'onWait').mockReturnValue(stopWait);
+    try {
+      const server = createServer();
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(clientTransport);
+
+      await client.close();
+
+      expect(stopReauth).toHaveBeenCalledTimes(1);
+      expect(stopWait).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Browser, BrowserContext, Page } from 'playwright';
+import { getLoginCredentials } from '../src/api/config.js';
+import { hasAuthData, readFirebaseAuth, replaceAuthData } from '../src/automation/browser.js';
+import { LoginPage } from '../src/automation/pages/login.js';
+import { applyStorageState, parseStorageState, type StorageState } from '../src/automation/storage-state.js';
+import { LoginFailedError } from '../src/utils/errors.js';
+import { startFakeApp, type FakeFocusmateApp } from './fake-app/server.js';
+import { hasChromium, launchBrowser } from './fake-app/browser.js';
+
+describe('getLoginCredentials', () => {
+  const credentialsPath = path.join(configDir, 'credentials.json');
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(credentialsPath, { force: true });
+  });
+
+  it('is undefined when nothing is configured', () => {
+    vi.stubEnv('FOCUSMATE_EMAIL', '');
+    vi.stubEnv('FOCUSMATE_PASSWORD', '');
+    expect(getLoginCredentials()).toBeUndefined();
+  });
+
+  it('reads credentials.json in the config directory', () => {
+    vi.stubEnv('FOCUSMATE_EMAIL', '');
+    fs.writeFileSync(credentialsPath, JSON.stringify({ email: 'file@example.com', password: 'from-file' }));
+
+    expect(getLoginCredentials()).toEqual({ email: 'file@example.com', password: 'from-file' });
+  });
+
+  it('prefers the environment over the file', () => {
+    vi.stubEnv('FOCUSMATE_EMAIL', 'env@example.com');
+    vi.stubEnv('FOCUSMATE_PASSWORD', 'from-env');
+    fs.writeFileSync(credentialsPath, JSON.stringify({ email: 'file@example.com', password: 'from-file' }));
+
+    expect(getLoginCredentials()).toEqual({ email: 'env@example.com', password: 'from-env' });
+  });
+
+  it('reads the file named by FOCUSMATE_CREDENTIALS_FILE', () => {
+    const elsewhere = path.join(configDir, 'elsewhere.json');
+    fs.writeFileSync(elsewhere, JSON.stringify({ email: 'other@example.com', password: 'other' }));
+    vi.stubEnv('FOCUSMATE_EMAIL', '');
+    vi.stubEnv('FOCUSMATE_CREDENTIALS_FILE', elsewhere);
+
+    expect(getLoginCredentials()).toEqual({ email: 'other@example.com', password: 'other' });
+  });
+});
+
+describe('replaceAuthData', () => {
+  const profileDir = path.join(configDir, 'browser-data');
+  const savedFile = path.join(profileDir, 'Default', 'Cookies');
+
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(savedFile), { recursive: true });
+    fs.writeFileSync(savedFile, 'saved login');
+  });
+
+  afterEach(() => {
+    fs.rmSync(profileDir, { recursive: true, force: true });
+  });
+
+  it('keeps the saved login when the new one fails', async () => {
+    let staging = '';
+    const failing = replaceAuthData(async userDataDir => {
+      staging = userDataDir;
+      fs.mkdirSync(path.join(userDataDir, 'Default'));
+      throw new LoginFailedError();
+    });
+
+    await expect(failing).rejects.toThrow(LoginFailedError);
+    expect(fs.readFileSync(savedFile, 'utf-8')).toBe('saved login');
+    expect(fs.existsSync(staging)).toBe(false);
+  });
+
+  it('swaps the new login in once it works', async () => {
+    const result = await replaceAuthData(async userDataDir => {
+      fs.mkdirSync(path.join(userDataDir, 'Default'));
+      fs.writeFileSync(path.join(userDataDir, 'Default', 'Cookies'), 'new login');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(hasAuthData()).toBe(true);
+    expect(fs.readFileSync(savedFile, 'utf-8')).toBe('new login');
+    expect(fs.readdirSync(configDir).filter(name => name.startsWith('browser-data'))).toEqual(['browser-data']);
+  });
+});
+
+describe('parseStorageState', () => {
+  it('keeps a Playwright storageState as it is', () => {
+    const state: StorageState = {
+      cookies: [{
+        name: 'sid', value: 'abc', domain: '.focusmate.com', path: '/',
+        expires: 1900000000, httpOnly: true, secure: true, sameSite: 'Lax'
+      }],
+      origins: [{ origin: 'https://app.focusmate.com', localStorage: [{ name: 'k', value: 'v' }] }]
+    };
+
+    expect(parseStorageState(state)).toEqual(state);
+  });
+
+  it('converts a cookie array from a browser extension', () => {
+    const state = parseStorageState([
+      { name: 'sid', value: 'abc', domain: '.focusmate.com', path: '/', expirationDate: 1900000000.5, sameSite: 'no_restriction', secure: true },
+      { name: 'pref', value: '1', domain: 'app.focusmate.com', session: true, sameSite: 'unspecified' }
+    ]);
+
+    expect(state.origins).toEqual([]);
+    expect(state.cookies).toEqual([
+      { name: 'sid', value: 'abc', domain: '.focusmate.com', path: '/', expires: 1900000000, httpOnly: false, secure: true, sameSite: 'None' },
+      { name: 'pref', value: '1', domain: 'app.focusmate.com', path: '/', expires: -1, httpOnly: false, secure: false, sameSite: 'Lax' }
+    ]);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseStorageState({ hello: 'world' })).toThrow(/storageState/);
+    expect(() => parseStorageState([{ value: 'no name' }])).toThrow(/name, value and domain/);
+  });
+});
+
+describe.skipIf(!hasChromium)('logging in without a window', { timeout: 30000 }, () => {
+  let app: FakeFocusmateApp;
+  let browser: Browser;
+
+  beforeAll(async () => {
+    app = await startFakeApp();
+    browser = await launchBrowser();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    await app?.close();
+  });
+
+  describe('LoginPage.login', () => {
+    let page: Page;
+
+    beforeEach(async () => {
+      page = await browser.newPage();
+    });
+
+    afterEach(async () => {
+      await page.close();
+    });
+
+    it('signs in and leaves the login page', async () => {
+      const loginPage = new LoginPage(page, `${app.url}/login`);
+      await loginPage.goto();
+      await loginPage.login('me@example.com', 'correct-horse');
+
+      expect(page.url()).toBe(`${app.url}/dashboard`);
+      expect(await readFirebaseAuth(page)).toMatchObject({ uid: 'fixture-uid', email: 'me@example.com' });
+    });
+
+    it('fills in the password after continuing past a separate email step', async () => {
+      const loginPage = new LoginPage(page, `${app.url}/login?steps=2`);
+      await loginPage.goto();
+      await loginPage.login('me@example.com', 'correct-horse');
+
+      expect(page.url()).toBe(`${app.url}/dashboard`);
+    });
+
+    it('throws LoginFailedError with the form\'s error', async () => {
+      const loginPage = new LoginPage(page, `${app.url}/login`);
+      await loginPage.goto();
+
+      const error = await loginPage.login('me@example.com', 'wrong').catch(e => e);
+      expect(error).toBeInstanceOf(LoginFailedError);
+      expect(error.message).toContain('Invalid email or password.');
+    });
+  });
+
+  describe('applyStorageState', () => {
+    let context: BrowserContext;
+
+    beforeEach(async () => {
+      context = await browser.newContext();
+    });
+
+    afterEach(async () => {
+      await context.close();
+    });
+
+    it('restores cookies, localStorage and the Firebase user without running the app', async () => {
+      await applyStorageState(context, {
+        cookies: [{
+          name: 'sid', value: 'abc', domain: '127.0.0.1', path: '/',
+          expires: -1, httpOnly: false, secure: false, sameSite: 'Lax'
+        }],
+        origins: [{
+          origin: app.url,
+          localStorage: [{ name: 'theme', value: 'dark' }],
+          indexedDB: [{
+            name: 'firebaseLocalStorageDb',
+            version: 1,
+            stores: [{
+              name: 'firebaseLocalStorage',
+              autoIncrement: false,
+              keyPath: 'fbase_key',
+              records: [{
+                value: {
+                  fbase_key: 'firebase:authUser:key:[DEFAULT]',
+                  value: { uid: 'imported-uid', stsTokenManager: { expirationTime: Date.UTC(2030, 0, 1) } }
+                }
+              }]
+            }]
+          }]
+        }]
+      });
+
+      expect(app.apiRequests).toEqual([]);
+      const page = await context.newPage();
+      await page.goto(`${app.url}/dashboard`);
+
+      expect(await readFirebaseAuth(page)).toMatchObject({ uid: 'imported-uid', expiresAt: '2030-01-01T00:00:00.000Z' });
+      expect(await page.evaluate('localStorage.getItem("theme")')).toBe('dark');
+      expect((await context.cookies()).map(cookie => cookie.name)).toEqual(['sid']);
+    });
+  });
+});
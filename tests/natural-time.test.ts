@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeInterpretation,
+  isAbsoluteTime,
+  isInWindow,
+  parseDayLabel,
+  parseTimePoint,
+  parseTimeRange
+} from '../src/utils/natural-time.js';
+
+const timeZone = 'America/New_York';
+// Wednesday April 1 2026, 10:00 in New York (EDT, UTC-4)
+const now = new Date('2026-04-01T14:00:00.000Z');
+
+const point = (text: string): string | undefined => parseTimePoint(text, now, timeZone)?.toISOString();
+
+function range(text: string): { start: string; end: string; window?: unknown } | undefined {
+  const parsed = parseTimeRange(text, now, timeZone);
+  return parsed && { start: parsed.start.toISOString(), end: parsed.end.toISOString(), window: parsed.window };
+}
+
+describe('parseTimePoint', () => {
+  it('reads days and times relative to now in the time zone', () => {
+    expect(point('tomorrow 9am')).toBe('2026-04-02T13:00:00.000Z');
+    expect(point('Tomorrow at 9:30 PM')).toBe('2026-04-03T01:30:00.000Z');
+    expect(point('friday noon')).toBe('2026-04-03T16:00:00.000Z');
+    expect(point('at 14:30 on saturday')).toBe('2026-04-04T18:30:00.000Z');
+    expect(point('in 2 days at 8am')).toBe('2026-04-03T12:00:00.000Z');
+  });
+
+  it('treats "next" weekdays as the first one after today', () => {
+    expect(point('next Tuesday at 14:30')).toBe('2026-04-07T18:30:00.000Z');
+    expect(point('next wed 9am')).toBe('2026-04-08T13:00:00.000Z');
+    expect(point('wednesday 3pm')).toBe('2026-04-01T19:00:00.000Z');
+  });
+
+  it('uses the next occurrence of a time without a day', () => {
+    expect(point('3pm')).toBe('2026-04-01T19:00:00.000Z');
+    expect(point('9am')).toBe('2026-04-02T13:00:00.000Z');
+  });
+
+  it('reads calendar dates', () => {
+    expect(point('April 7 at 9:30am')).toBe('2026-04-07T13:30:00.000Z');
+    expect(point('7th apr 2027 10am')).toBe('2027-04-07T14:00:00.000Z');
+    // Dates already past this year mean next year
+    expect(point('march 3 9am')).toBe('2027-03-03T14:00:00.000Z');
+    expect(point('2026-04-07 14:00')).toBe('2026-04-07T18:00:00.000Z');
+  });
+
+  it('reads ISO 8601, with offsets as given and without in the time zone', () => {
+    expect(point('2026-04-07T14:00:00.000Z')).toBe('2026-04-07T14:00:00.000Z');
+    expect(point('2026-04-07T14:00:00+02:00')).toBe('2026-04-07T12:00:00.000Z');
+    expect(point('2026-04-07T14:00')).toBe('2026-04-07T18:00:00.000Z');
+  });
+
+  it('reads relative offsets', () => {
+    expect(point('in 90 minutes')).toBe('2026-04-01T15:30:00.000Z');
+    expect(point('in 2 hours')).toBe('2026-04-01T16:00:00.000Z');
+  });
+
+  it('returns undefined for text it does not understand', () => {
+    expect(point('whenever')).toBeUndefined();
+    expect(point('tomorrow')).toBeUndefined();
+    expect(point('tomorrow 25:00')).toBeUndefined();
+    expect(point('13pm')).toBeUndefined();
+    expect(point('february 30 9am')).toBeUndefined();
+    expect(point('someday 9am')).toBeUndefined();
+  });
+});
+
+describe('parseTimeRange', () => {
+  it('reads single days as local midnight to midnight', () => {
+    expect(range('today')).toEqual({ start: '2026-04-01T04:00:00.000Z', end: '2026-04-02T04:00:00.000Z' });
+    expect(range('next tuesday')).toEqual({ start: '2026-04-07T04:00:00.000Z', end: '2026-04-08T04:00:00.000Z' });
+  });
+
+  it('reads weeks starting on Monday', () => {
+    expect(range('this week')).toEqual({ start: '2026-03-30T04:00:00.000Z', end: '2026-04-06T04:00:00.000Z' });
+    expect(range('next week')).toEqual({ start: '2026-04-06T04:00:00.000Z', end: '2026-04-13T04:00:00.000Z' });
+    expect(range('this weekend')).toEqual({ start: '2026-04-04T04:00:00.000Z', end: '2026-04-06T04:00:00.000Z' });
+  });
+
+  it('reads months across a DST change', () => {
+    // New York moved from EST to EDT on March 8
+    expect(range('last month')).toEqual({ start: '2026-03-01T05:00:00.000Z', end: '2026-04-01T04:00:00.000Z' });
+  });
+
+  it('reads rolling spans of days and weeks', () => {
+    expect(range('next 14 days')).toEqual({ start: '2026-04-01T04:00:00.000Z', end: '2026-04-15T04:00:00.000Z' });
+    expect(range('last 2 weeks')).toEqual({ start: '2026-03-19T04:00:00.000Z', end: '2026-04-02T04:00:00.000Z' });
+  });
+
+  it('narrows a single day to a time span', () => {
+    expect(range('tomorrow 9am-noon')).toEqual({ start: '2026-04-02T13:00:00.000Z', end: '2026-04-02T16:00:00.000Z' });
+    expect(range('tomorrow 11–1pm')).toEqual({ start: '2026-04-02T15:00:00.000Z', end: '2026-04-02T17:00:00.000Z' });
+  });
+
+  it('narrows a day with a DST change by its wall clock', () => {
+    // March 8 2026 was 23 hours long in New York
+    const parsed = parseTimeRange('tomorrow 9am-noon', new Date('2026-03-07T15:00:00.000Z'), timeZone);
+
+    expect(parsed?.start.toISOString()).toBe('2026-03-08T13:00:00.000Z');
+    expect(parsed?.end.toISOString()).toBe('2026-03-08T16:00:00.000Z');
+  });
+
+  it('returns a daily window for recurring days and times', () => {
+    expect(range('weekdays 8–11am')).toEqual({
+      start: '2026-04-01T04:00:00.000Z',
+      end: '2026-04-08T04:00:00.000Z',
+      window: { weekdays: [1, 2, 3, 4, 5], startMinutes: 480, endMinutes: 660 }
+    });
+    expect(range('mondays and fridays next week')?.window).toEqual({
+      weekdays: [1, 5], startMinutes: 0, endMinutes: 1440
+    });
+    expect(range('14:00 to 16:30 this week')?.window).toEqual({
+      weekdays: [0, 1, 2, 3, 4, 5, 6], startMinutes: 840, endMinutes: 990
+    });
+  });
+
+  it('returns undefined for points and text it does not understand', () => {
+    expect(range('tomorrow 9am')).toBeUndefined();
+    expect(range('whenever')).toBeUndefined();
+    expect(range('weekdays someday')).toBeUndefined();
+    expect(range('tomorrow 11am-9am')).toBeUndefined();
+  });
+});
+
+describe('parseDayLabel', () => {
+  it('reads dashboard day labels as dates in the time zone', () => {
+    expect(parseDayLabel('Today', now, timeZone)).toBe('2026-04-01');
+    expect(parseDayLabel('Tomorrow', now, timeZone)).toBe('2026-04-02');
+    expect(parseDayLabel('Fri, Apr 3', now, timeZone)).toBe('2026-04-03');
+    expect(parseDayLabel('Jane D.', now, timeZone)).toBeUndefined();
+  });
+});
+
+describe('isInWindow', () => {
+  const window = { weekdays: [1, 2, 3, 4, 5], startMinutes: 480, endMinutes: 660 };
+
+  it('checks the weekday and time of day in the time zone', () => {
+    expect(isInWindow(new Date('2026-04-01T12:00:00.000Z'), window, timeZone)).toBe(true); // Wed 08:00
+    expect(isInWindow(new Date('2026-04-01T15:00:00.000Z'), window, timeZone)).toBe(false); // Wed 11:00
+    expect(isInWindow(new Date('2026-04-04T13:00:00.000Z'), window, timeZone)).toBe(false); // Sat 09:00
+  });
+});
+
+describe('describeInterpretation', () => {
+  it('describes a point in the time zone', () => {
+    const interpretation = describeInterpretation('tomorrow 9am', new Date('2026-04-02T13:00:00.000Z'), timeZone);
+    expect(interpretation).toEqual({
+      input: 'tomorrow 9am',
+      startTime: '2026-04-02T13:00:00.000Z',
+      startTimeLocal: '2026-04-02T09:00:00-04:00',
+      description: 'Thu, Apr 2, 2026, 9:00 AM (America/New_York)'
+    });
+  });
+
+  it('describes a range with its daily window', () => {
+    const interpretation = describeInterpretation('weekdays 8-11am', parseTimeRange('weekdays 8-11am', now, timeZone)!, timeZone);
+    expect(interpretation.endTimeLocal).toBe('2026-04-08T00:00:00-04:00');
+    expect(interpretation.weekdays).toEqual(['monday', 'tuesday', 'wednesday', 'thursday', 'friday']);
+    expect(interpretation.timeOfDay).toEqual({ start: '08:00', end: '11:00' });
+    expect(interpretation.description).toMatch(/weekdays 08:00-11:00 only$/);
+  });
+});
+
+describe('isAbsoluteTime', () => {
+  it('is true only for ISO datetimes with an offset', () => {
+    expect(isAbsoluteTime('2026-04-07T14:00:00.000Z')).toBe(true);
+    expect(isAbsoluteTime('2026-04-07T14:00:00-05:00')).toBe(true);
+    expect(isAbsoluteTime('2026-04-07T14:00:00')).toBe(false);
+    expect(isAbsoluteTime('tomorrow 9am')).toBe(false);
+  });
+});
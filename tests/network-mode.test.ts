@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Browser, Page } from 'playwright';
+import {
+  buildBookingRequest,
+  learnBookingTemplate,
+  learnCancelTemplate,
+  rememberBookingRequest,
+  replayBooking,
+  type CapturedRequest
+} from '../src/automation/network-mode.js';
+import { BookingPage } from '../src/automation/pages/booking.js';
+import { CancelSessionPage } from '../src/automation/pages/cancel.js';
+import { startFakeApp, type FakeFocusmateApp } from './fake-app/server.js';
+import { hasChromium, launchBrowser } from './fake-app/browser.js';
+
+const templatesFile = path.join(configDir, 'network-requests.json');
+const start = new Date('2026-04-02T13:00:00.000Z');
+
+function captured(overrides: Partial<CapturedRequest>): CapturedRequest {
+  return {
+    url: 'https://api.focusmate.com/v1/sessions',
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      authorization: 'Bearer secret',
+      cookie: 'sid=1',
+      'content-length': '42'
+    },
+    body: null,
+    responseStatus: 200,
+    responseBody: '{}',
+    ...overrides
+  };
+}
+
+describe('learnBookingTemplate', () => {
+  it('finds the start time and duration fields in a single-slot booking', () => {
+    const learned = learnBookingTemplate([
+      captured({ method: 'GET', url: 'https://api.focusmate.com/v1/me' }),
+      captured({ body: JSON.stringify({ duration: 50, slots: [start.toISOString()] }) })
+    ], start, 50);
+
+    expect(learned?.template).toMatchObject({
+      method: 'POST',
+      startTimePath: ['slots', 0],
+      startTimeEncoding: 'iso',
+      durationPath: ['duration'],
+      durationEncoding: 'minutes'
+    });
+  });
+
+  it('keeps credentials out of the stored headers', () => {
+    const learned = learnBookingTemplate([
+      captured({ body: JSON.stringify({ slots: [start.toISOString()] }) })
+    ], start, 50);
+
+    expect(learned?.template.headers).toEqual({ 'content-type': 'application/json' });
+    expect(learned?.secret).toEqual({ authorization: 'Bearer secret' });
+  });
+
+  it('reads epoch times and durations in milliseconds', () => {
+    const learned = learnBookingTemplate([
+      captured({ body: JSON.stringify({ session: { start: start.getTime(), length: 25 * 60 * 1000 } }) })
+    ], start, 25);
+
+    expect(learned?.template).toMatchObject({
+      startTimePath: ['session', 'start'],
+      startTimeEncoding: 'epoch-ms',
+      durationPath: ['session', 'length'],
+      durationEncoding: 'milliseconds'
+    });
+  });
+
+  it('ignores failed requests and ones booking several slots', () => {
+    const later = new Date(start.getTime() + 60 * 60 * 1000).toISOString();
+    expect(learnBookingTemplate([
+      captured({ body: JSON.stringify({ slots: [start.toISOString()] }), responseStatus: 409 }),
+      captured({ body: JSON.stringify({ slots: [start.toISOString(), start.toISOString()] }) }),
+      captured({ body: JSON.stringify({ slots: [later] }) })
+    ], start, 50)).toBeUndefined();
+  });
+});
+
+describe('buildBookingRequest', () => {
+  it('fills the learned fields in for another slot', () => {
+    const { template } = learnBookingTemplate([
+      captured({ body: JSON.stringify({ duration: 50, slots: [start.toISOString()], source: 'web' }) })
+    ], start, 50)!;
+    const next = new Date('2026-04-03T09:15:00.000Z');
+
+    const request = buildBookingRequest(template, next, 25);
+
+    expect(JSON.parse(request.body)).toEqual({ duration: 25, slots: [next.toISOString()], source: 'web' });
+    // The template itself is left alone
+    expect(template.body).toEqual({ duration: 50, slots: [start.toISOString()], source: 'web' });
+  });
+});
+
+describe('replayBooking', () => {
+  const booking = captured({ body: JSON.stringify({ duration: 50, slots: [start.toISOString()] }) });
+  const next = new Date('2026-04-03T09:15:00.000Z');
+
+  // A page whose API requests all get `status` and `body`
+  function fakePage(status: number, body: string): { page: Page; fetch: ReturnType<typeof vi.fn> } {
+    const fetch = vi.fn(async () => ({ status: () => status, text: async () => body }));
+    return { page: { request: { fetch } } as unknown as Page, fetch };
+  }
+
+  afterEach(() => {
+    fs.rmSync(templatesFile, { force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('skips a template saved by an earlier process, whose credentials are gone', async () => {
+    const { template } = learnBookingTemplate([booking], start, 50)!;
+    fs.writeFileSync(templatesFile, JSON.stringify({ booking: template }));
+    const { page, fetch } = fakePage(200, JSON.stringify({ sessionId: 'sess-new' }));
+
+    expect(await replayBooking(page, next, 50)).toBeUndefined();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('reports an accepted replay as booked even when the response does not name the session', async () => {
+    rememberBookingRequest([booking], start, 50);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await replayBooking(fakePage(200, JSON.stringify({ sessionId: 'sess-new' })).page, next, 50))
+      .toEqual({ sessionId: 'sess-new' });
+    expect(await replayBooking(fakePage(201, 'OK').page, next, 50)).toEqual({});
+    expect(await replayBooking(fakePage(409, '{}').page, next, 50)).toBeUndefined();
+  });
+});
+
+describe('learnCancelTemplate', () => {
+  it('puts a placeholder where the session ID was', () => {
+    const learned = learnCancelTemplate([
+      captured({ method: 'DELETE', url: 'https://api.focusmate.com/v1/sessions/sess-9' })
+    ], 'sess-9');
+
+    expect(learned?.template).toEqual({
+      url: 'https://api.focusmate.com/v1/sessions/{sessionId}',
+      method: 'DELETE',
+      headers: { 'content-type': 'application/json' },
+      body: null
+    });
+  });
+
+  it('ignores requests that do not name the session', () => {
+    expect(learnCancelTemplate([
+      captured({ method: 'DELETE', url: 'https://api.focusmate.com/v1/sessions/other' })
+    ], 'sess-9')).toBeUndefined();
+  });
+});
+
+describe.skipIf(!hasChromium)('network mode against the dashboard fixture', { timeout: 30000 }, () => {
+  let app: FakeFocusmateApp;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    app = await startFakeApp();
+    browser = await launchBrowser();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    await app?.close();
+  });
+
+  beforeEach(async () => {
+    process.env.FOCUSMATE_BOOKING_MODE = 'network';
+    fs.rmSync(templatesFile, { force: true });
+    app.apiRequests.length = 0;
+    page = await browser.newPage();
+    await page.goto(`${app.url}/dashboard`, { waitUntil: 'networkidle' });
+  });
+
+  afterEach(async () => {
+    delete process.env.FOCUSMATE_BOOKING_MODE;
+    await page.close();
+  });
+
+  // Local wall-clock time `daysAhead` days from now; the fixture renders in the same zone
+  function localTime(daysAhead: number, hours: number, minutes = 0): Date {
+    const date = new Date();
+    date.setDate(date.getDate() + daysAhead);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  }
+
+  function clickedSlots(): Promise<string[]> {
+    return page.evaluate('window.__clicks') as Promise<string[]>;
+  }
+
+  // Book the way the tools do, capturing the app's requests
+  async function book(startTime: Date, duration: '25' | '50' = '50'): Promise<{ sessionId?: string }> {
+    const bookingPage = new BookingPage(page);
+    await bookingPage.startRequestCapture();
+    try {
+      return await bookingPage.bookSlot(startTime, duration);
+    } finally {
+      bookingPage.stopRequestCapture();
+    }
+  }
+
+  it('learns the booking request from the calendar, then replays it without clicking', async () => {
+    await book(localTime(1, 10));
+    expect(fs.existsSync(templatesFile)).toBe(true);
+
+    await page.reload({ waitUntil: 'networkidle' });
+    const next = localTime(2, 11, 15);
+    const result = await book(next, '25');
+
+    expect(result.sessionId).toMatch(/^fixture-/);
+    expect(await clickedSlots()).toEqual([]);
+    expect(JSON.parse(app.apiRequests[app.apiRequests.length - 1].body)).toEqual({
+      duration: 25,
+      slots: [next.toISOString()]
+    });
+  });
+
+  it('falls back to the calendar when the replay is rejected', async () => {
+    await book(localTime(1, 10));
+    const templates = JSON.parse(fs.readFileSync(templatesFile, 'utf-8'));
+    templates.booking.url = `${app.url}/api/moved`;
+    fs.writeFileSync(templatesFile, JSON.stringify(templates));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await page.reload({ waitUntil: 'networkidle' });
+    const result = await book(localTime(2, 9));
+
+    expect(result.sessionId).toMatch(/^fixture-/);
+    expect(await clickedSlots()).toEqual([localTime(2, 9).toISOString()]);
+  });
+
+  it('learns the cancel request from the dashboard, then replays it for other sessions', async () => {
+    await new CancelSessionPage(page, app.url).cancelSession('sess-card');
+    expect(JSON.parse(fs.readFileSync(templatesFile, 'utf-8')).cancel.url).toBe(`${app.url}/api/sessions/{sessionId}`);
+
+    await new CancelSessionPage(page, app.url).cancelSession('sess-menu');
+
+    expect(await page.evaluate('window.__cancelled')).toEqual(['sess-card']);
+    expect(app.apiRequests.map(r => `${r.method} ${r.path}`)).toEqual([
+      'DELETE /api/sessions/sess-card',
+      'DELETE /api/sessions/sess-menu'
+    ]);
+  });
+
+  it('learns nothing when network mode is off', async () => {
+    delete process.env.FOCUSMATE_BOOKING_MODE;
+
+    await book(localTime(1, 10));
+
+    expect(fs.existsSync(templatesFile)).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRule, expandRule, loadRules } from '../src/recurrence/rules.js';
+import { CreateRecurrenceRuleInput, type RecurrenceRule } from '../src/schemas/recurrence.js';
+
+function makeRule(overrides: Partial<RecurrenceRule> = {}): RecurrenceRule {
+  return {
+    id: 'rule-1',
+    weekdays: ['MO', 'TU', 'WE', 'TH', 'FR'],
+    times: ['09:00'],
+    duration: '50',
+    startDate: '2026-04-01',
+    exceptions: [],
+    createdAt: '2026-03-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('expandRule', () => {
+  // 2026-04-06 is a Monday
+  const from = new Date(2026, 3, 6, 0, 0);
+  const to = new Date(2026, 3, 13, 0, 0);
+
+  it('expands weekdays within the window', () => {
+    const occurrences = expandRule(makeRule(), from, to);
+    expect(occurrences.map(o => o.startTime.getDate())).toEqual([6, 7, 8, 9, 10]);
+    expect(occurrences[0].startTime.getHours()).toBe(9);
+    expect(occurrences[0].duration).toBe('50');
+    expect(occurrences[0].ruleId).toBe('rule-1');
+  });
+
+  it('emits one occurrence per time on matching days', () => {
+    const occurrences = expandRule(makeRule({ weekdays: ['WE'], times: ['09:00', '14:30'] }), from, to);
+    expect(occurrences).toHaveLength(2);
+    expect(occurrences[1].startTime.getHours()).toBe(14);
+    expect(occurrences[1].startTime.getMinutes()).toBe(30);
+  });
+
+  it('skips exception dates', () => {
+    const occurrences = expandRule(makeRule({ exceptions: ['2026-04-08'] }), from, to);
+    expect(occurrences.map(o => o.startTime.getDate())).toEqual([6, 7, 9, 10]);
+  });
+
+  it('respects the rule start and end dates', () => {
+    const occurrences = expandRule(makeRule({ startDate: '2026-04-07', endDate: '2026-04-09' }), from, to);
+    expect(occurrences.map(o => o.startTime.getDate())).toEqual([7, 8, 9]);
+  });
+
+  it('excludes times earlier on the first day of the window', () => {
+    const occurrences = expandRule(makeRule(), new Date(2026, 3, 6, 10, 0), to);
+    expect(occurrences[0].startTime.getDate()).toBe(7);
+  });
+
+  it('returns nothing for a rule that ended before the window', () => {
+    expect(expandRule(makeRule({ endDate: '2026-04-02' }), from, to)).toEqual([]);
+  });
+
+  it('interprets dates and times in the given time zone', () => {
+    const occurrences = expandRule(
+      makeRule({ weekdays: ['MO'] }),
+      new Date('2026-04-06T00:00:00Z'),
+      new Date('2026-04-13T00:00:00Z'),
+      'America/New_York'
+    );
+    expect(occurrences.map(o => o.startTime.toISOString())).toEqual(['2026-04-06T13:00:00.000Z']);
+  });
+
+  it('uses the zone\'s weekday when it differs from UTC', () => {
+    // 09:00 on Tuesday in Tokyo is still Monday in UTC
+    const occurrences = expandRule(
+      makeRule({ weekdays: ['TU'] }),
+      new Date('2026-04-06T00:00:00Z'),
+      new Date('2026-04-08T00:00:00Z'),
+      'Asia/Tokyo'
+    );
+    expect(occurrences.map(o => o.startTime.toISOString())).toEqual(['2026-04-07T00:00:00.000Z']);
+  });
+});
+
+describe('loadRules', () => {
+  const rulesPath = path.join(configDir, 'recurrence-rules.json');
+
+  it('moves an unreadable rules file aside instead of overwriting it', () => {
+    fs.writeFileSync(rulesPath, '{"rules": [');
+    const warn = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      expect(loadRules()).toEqual([]);
+      createRule(CreateRecurrenceRuleInput.parse({ weekdays: ['MO'], times: ['09:00'] }));
+
+      const aside = fs.readdirSync(configDir).filter(file => file.startsWith('recurrence-rules.json.corrupt-'));
+      expect(aside).toHaveLength(1);
+      expect(fs.readFileSync(path.join(configDir, aside[0]), 'utf-8')).toBe('{"rules": [');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining(aside[0]), expect.any(SyntaxError));
+      expect(loadRules()).toHaveLength(1);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('CreateRecurrenceRuleInput', () => {
+  it('applies defaults', () => {
+    const input = CreateRecurrenceRuleInput.parse({ weekdays: ['MO'], times: ['09:00'] });
+    expect(input.duration).toBe('50');
+    expect(input.exceptions).toEqual([]);
+  });
+
+  it('rejects times off the 15-minute grid', () => {
+    expect(() => CreateRecurrenceRuleInput.parse({ weekdays: ['MO'], times: ['09:10'] })).toThrow();
+  });
+
+  it('rejects unknown weekday codes', () => {
+    expect(() => CreateRecurrenceRuleInput.parse({ weekdays: ['Monday'], times: ['09:00'] })).toThrow();
+  });
+});
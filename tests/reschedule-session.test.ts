@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { BookSlotResult, RescheduleSessionOutput, Session } from '../src/schemas/session.js';
+import { createServer } from '../src/server.js';
+import { recordSessions } from '../src/store/session-store.js';
+import { bookSessions } from '../src/tools/book-sessions.js';
+import { cancelSession } from '../src/tools/cancel-session.js';
+import { SessionNotFoundError } from '../src/utils/errors.js';
+
+// The browser steps are stubbed; these tests cover their ordering and recovery
+vi.mock('../src/tools/book-sessions.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/tools/book-sessions.js')>(),
+  bookSessions: vi.fn()
+}));
+
+vi.mock('../src/tools/cancel-session.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/tools/cancel-session.js')>(),
+  cancelSession: vi.fn()
+}));
+
+const HOUR = 60 * 60 * 1000;
+// A quarter hour a day or more ahead
+const newStart = new Date(Math.ceil((Date.now() + 24 * HOUR) / (15 * 60 * 1000)) * 15 * 60 * 1000);
+
+function bookedResult(id: string): BookSlotResult {
+  return {
+    startTime: newStart.toISOString(),
+    duration: '50',
+    success: true,
+    session: {
+      id,
+      startTime: newStart.toISOString(),
+      endTime: new Date(newStart.getTime() + 50 * 60 * 1000).toISOString(),
+      duration: 50,
+      status: 'pending',
+      partnerId: null,
+      partnerName: null
+    }
+  };
+}
+
+describe('reschedule_session tool', () => {
+  let client: Client;
+  const calls: string[] = [];
+
+  beforeAll(() => {
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({ timeZone: 'UTC' }));
+  });
+
+  beforeEach(async () => {
+    calls.length = 0;
+    vi.mocked(bookSessions).mockReset().mockImplementation(async requests => {
+      calls.push(`book ${requests[0].startTime}`);
+      return [bookedResult('sess-new')];
+    });
+    vi.mocked(cancelSession).mockReset().mockImplementation(async sessionId => {
+      calls.push(`cancel ${sessionId}`);
+    });
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    vi.restoreAllMocks();
+  });
+
+  async function reschedule(args: Record<string, unknown>): Promise<RescheduleSessionOutput> {
+    const result = await client.callTool({
+      name: 'reschedule_session',
+      arguments: { sessionId: 'sess-old', newStartTime: newStart.toISOString(), ...args }
+    });
+    const content = result.content as Array<{ type: string; text: string }>;
+    return JSON.parse(content[0].text);
+  }
+
+  it('books the new slot before cancelling the original', async () => {
+    const output = await reschedule({});
+
+    expect(calls).toEqual([`book ${newStart.toISOString()}`, 'cancel sess-old']);
+    expect(output.success).toBe(true);
+    expect(output.newSession?.id).toBe('sess-new');
+    expect(output.failedStep).toBeUndefined();
+  });
+
+  it('leaves the original untouched when the booking fails', async () => {
+    vi.mocked(bookSessions).mockResolvedValue([{
+      startTime: newStart.toISOString(),
+      duration: '50',
+      success: false,
+      error: 'The requested time slot is not available.',
+      errorCode: 'SLOT_UNAVAILABLE'
+    }]);
+
+    const output = await reschedule({});
+
+    expect(cancelSession).not.toHaveBeenCalled();
+    expect(output).toMatchObject({ success: false, failedStep: 'book', errorCode: 'SLOT_UNAVAILABLE' });
+    expect(output.message).toMatch(/left untouched/);
+  });
+
+  it('cancels the new booking again when the original cannot be cancelled', async () => {
+    vi.mocked(cancelSession).mockImplementation(async sessionId => {
+      calls.push(`cancel ${sessionId}`);
+      if (sessionId === 'sess-old') throw new SessionNotFoundError(sessionId);
+    });
+
+    const output = await reschedule({});
+
+    expect(calls).toEqual([`book ${newStart.toISOString()}`, 'cancel sess-old', 'cancel sess-new']);
+    expect(output).toMatchObject({
+      success: false,
+      failedStep: 'cancel',
+      rolledBack: true,
+      errorCode: 'SESSION_NOT_FOUND'
+    });
+  });
+
+  it('reports both sessions booked when the rollback fails too', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(cancelSession).mockRejectedValue(new Error('Dashboard did not load'));
+
+    const output = await reschedule({});
+
+    expect(output).toMatchObject({ success: false, failedStep: 'cancel', rolledBack: false, errorCode: 'AUTOMATION_FAILED' });
+    expect(output.message).toMatch(/Both sessions are booked/);
+  });
+
+  it('refuses new times overlapping the original without changing anything', async () => {
+    const original: Session = {
+      id: 'sess-old',
+      startTime: new Date(newStart.getTime() - 30 * 60 * 1000).toISOString(),
+      endTime: new Date(newStart.getTime() + 20 * 60 * 1000).toISOString(),
+      duration: 50,
+      status: 'matched',
+      partnerId: null,
+      partnerName: null
+    };
+    recordSessions([original]);
+
+    const output = await reschedule({});
+
+    expect(bookSessions).not.toHaveBeenCalled();
+    expect(output).toMatchObject({ failedStep: 'validate', errorCode: 'SESSION_CONFLICT' });
+    fs.rmSync(path.join(configDir, 'sessions.json'), { force: true });
+  });
+
+  it('rejects times it cannot understand or book', async () => {
+    expect(await reschedule({ newStartTime: 'whenever' })).toMatchObject({ failedStep: 'validate', errorCode: 'INVALID_TIME' });
+    expect(await reschedule({ newStartTime: 'yesterday 9am' })).toMatchObject({ failedStep: 'validate', errorCode: 'INVALID_TIME' });
+    expect(bookSessions).not.toHaveBeenCalled();
+  });
+});
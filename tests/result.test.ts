@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { describeError, errorDetails, toolResult } from '../src/tools/result.js';
+import {
+  AmbiguousSessionError,
+  ApiError,
+  ApiKeyMissingError,
+  AuthExpiredError,
+  AuthRequiredError,
+  AutomationFailedError,
+  BrowserBusyError,
+  FocusmateError,
+  InvalidApiKeyError,
+  LoginFailedError,
+  RateLimitedError,
+  SessionConflictError,
+  SessionNotFoundError,
+  SlotUnavailableError
+} from '../src/utils/errors.js';
+import { startFakeApi, type FakeFocusmateApi } from './fake-api/server.js';
+import { FAKE_API_KEY } from './fake-api/fixtures.js';
+
+describe('describeError', () => {
+  it.each<[FocusmateError, string, boolean, number | undefined]>([
+    [new AuthExpiredError(), 'AUTH_EXPIRED', false, undefined],
+    [new AuthRequiredError(), 'AUTH_REQUIRED', false, undefined],
+    [new SlotUnavailableError(), 'SLOT_UNAVAILABLE', false, undefined],
+    [new SessionConflictError(), 'SESSION_CONFLICT', false, undefined],
+    [new SessionNotFoundError('s1'), 'SESSION_NOT_FOUND', false, undefined],
+    [new AmbiguousSessionError('Two sessions start then.', []), 'AMBIGUOUS_SESSION', false, undefined],
+    [new RateLimitedError(), 'RATE_LIMITED', true, 60],
+    [new AutomationFailedError('Button not found'), 'AUTOMATION_FAILED', true, undefined],
+    [new BrowserBusyError(), 'BROWSER_BUSY', true, 30],
+    [new LoginFailedError(), 'LOGIN_FAILED', false, undefined],
+    [new ApiKeyMissingError(), 'CONFIG_ERROR', false, undefined],
+    [new InvalidApiKeyError(), 'INVALID_API_KEY', false, undefined]
+  ])('describes %s by its code', (error, errorCode, retryable, retryAfterSeconds) => {
+    expect(describeError(error)).toEqual({
+      message: error.message,
+      errorCode,
+      retryable,
+      retryAfterSeconds,
+      screenshotPath: undefined
+    });
+  });
+
+  it('includes the screenshot of a failed automation step', () => {
+    const error = new AutomationFailedError('book-session failed', '/tmp/screenshots/book-session.png');
+
+    expect(describeError(error)).toMatchObject({
+      errorCode: 'AUTOMATION_FAILED',
+      retryable: true,
+      screenshotPath: '/tmp/screenshots/book-session.png'
+    });
+  });
+
+  it('retries API errors only for server errors and failed requests', () => {
+    expect(describeError(new ApiError('Focusmate API error: 503 Service Unavailable', 503)))
+      .toMatchObject({ errorCode: 'API_ERROR', retryable: true });
+    expect(describeError(new ApiError('Could not reach the Focusmate API: fetch failed')))
+      .toMatchObject({ errorCode: 'API_ERROR', retryable: true });
+    expect(describeError(new ApiError('Focusmate API error: 404 Not Found', 404)))
+      .toMatchObject({ errorCode: 'API_ERROR', retryable: false });
+  });
+
+  it('uses the fallback code for errors that are not FocusmateErrors', () => {
+    expect(describeError(new Error('socket hang up'), 'API_ERROR'))
+      .toMatchObject({ message: 'socket hang up', errorCode: 'API_ERROR', retryable: true });
+    expect(describeError('thrown string'))
+      .toMatchObject({ message: 'Unknown error occurred', errorCode: 'AUTOMATION_FAILED' });
+  });
+});
+
+describe('errorDetails', () => {
+  it('marks rejected input as not worth retrying', () => {
+    expect(errorDetails('INVALID_TIME')).toEqual({ errorCode: 'INVALID_TIME', retryable: false });
+    expect(errorDetails('CONFIG_ERROR')).toMatchObject({ retryable: false });
+  });
+});
+
+describe('toolResult', () => {
+  it('returns the output as text and structured content, flagging failures', () => {
+    const ok = toolResult({ success: true });
+    const failed = toolResult({ success: false, error: 'Nope', ...errorDetails('INVALID_INPUT') });
+
+    expect(ok).toMatchObject({ structuredContent: { success: true }, isError: false });
+    expect(failed.isError).toBe(true);
+    expect(JSON.parse((failed.content[0] as { text: string }).text)).toEqual(failed.structuredContent);
+  });
+});
+
+describe('tool results', () => {
+  let fake: FakeFocusmateApi;
+  let client: Client;
+
+  beforeAll(async () => {
+    fake = await startFakeApi();
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  beforeEach(async () => {
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({
+      apiKey: FAKE_API_KEY,
+      apiBaseUrl: fake.baseUrl
+    }));
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('declares an output schema for every tool', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.filter(tool => !tool.outputSchema).map(tool => tool.name)).toEqual([]);
+  });
+
+  it('returns structured content that passes the output schema', async () => {
+    const result = await client.callTool({
+      name: 'get_session_stats',
+      arguments: { startDate: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString() }
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toMatchObject({ success: true, stats: expect.any(Object) });
+  });
+
+  it('flags failures with isError and retry hints from the error class', async () => {
+    fake.failNext(429, { path: '/sessions', times: 5 });
+
+    const result = await client.callTool({ name: 'get_session_stats', arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({
+      success: false,
+      errorCode: 'RATE_LIMITED',
+      retryable: true,
+      retryAfterSeconds: 60
+    });
+  });
+
+  it('flags rejected input as not retryable', async () => {
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({}));
+
+    const result = await client.callTool({ name: 'get_partner_profile', arguments: { userId: 'u1' } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ errorCode: 'CONFIG_ERROR', retryable: false });
+  });
+
+  it('flags a rejected API key as not retryable', async () => {
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({ apiKey: 'wrong-key', apiBaseUrl: fake.baseUrl }));
+
+    const result = await client.callTool({ name: 'get_partner_profile', arguments: { userId: 'user-jane' } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ errorCode: 'INVALID_API_KEY', retryable: false });
+  });
+
+  it('rejects cancel_session calls with neither or both of sessionId and startTime', async () => {
+    for (const args of [{}, { sessionId: 's1', startTime: 'tomorrow 3pm' }]) {
+      const result = await client.callTool({ name: 'cancel_session', arguments: args });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toMatchObject({ success: false, errorCode: 'INVALID_INPUT', retryable: false });
+    }
+  });
+
+  it('declares list_sessions errors in its output', async () => {
+    const result = await client.callTool({ name: 'list_sessions', arguments: { startDate: 'whenever' } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({
+      sessions: [],
+      error: expect.stringContaining('whenever'),
+      errorCode: 'INVALID_TIME',
+      retryable: false
+    });
+  });
+});
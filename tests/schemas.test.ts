@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   BookSessionInput,
+  BookSessionsInput,
   CancelSessionInput,
   ListSessionsInput,
   SessionDuration,
@@ -38,11 +39,13 @@ describe('BookSessionInput', () => {
     expect(result.duration).toBe('50');
   });
 
-  it('rejects non-ISO datetime', () => {
-    expect(() => BookSessionInput.parse({
-      startTime: 'next tuesday',
-      duration: '50'
-    })).toThrow();
+  it('accepts natural-language start times', () => {
+    const result = BookSessionInput.parse({ startTime: 'next tuesday 9am' });
+    expect(result.startTime).toBe('next tuesday 9am');
+  });
+
+  it('rejects an empty start time', () => {
+    expect(() => BookSessionInput.parse({ startTime: '', duration: '50' })).toThrow();
   });
 
   it('rejects invalid duration', () => {
@@ -53,6 +56,33 @@ describe('BookSessionInput', () => {
   });
 });
 
+describe('BookSessionsInput', () => {
+  it('accepts a list of slots and defaults each duration', () => {
+    const result = BookSessionsInput.parse({
+      sessions: [
+        { startTime: '2026-04-01T09:00:00.000Z', duration: '25' },
+        { startTime: '2026-04-02T09:00:00.000Z' }
+      ]
+    });
+    expect(result.sessions).toHaveLength(2);
+    expect(result.sessions[0].duration).toBe('25');
+    expect(result.sessions[1].duration).toBe('50');
+  });
+
+  it('rejects an empty list', () => {
+    expect(() => BookSessionsInput.parse({ sessions: [] })).toThrow();
+  });
+
+  it('rejects an invalid slot anywhere in the list', () => {
+    expect(() => BookSessionsInput.parse({
+      sessions: [
+        { startTime: '2026-04-01T09:00:00.000Z' },
+        { startTime: 'tomorrow', duration: '50' }
+      ]
+    })).toThrow();
+  });
+});
+
 describe('ListSessionsInput', () => {
   it('accepts valid date range', () => {
     const result = ListSessionsInput.parse({
@@ -77,8 +107,14 @@ describe('CancelSessionInput', () => {
     expect(result.sessionId).toBe('abc-123');
   });
 
-  it('rejects missing session ID', () => {
-    expect(() => CancelSessionInput.parse({})).toThrow();
+  it('accepts a start time and duration instead of a session ID', () => {
+    const result = CancelSessionInput.parse({ startTime: 'tomorrow 3pm', duration: '25' });
+    expect(result.startTime).toBe('tomorrow 3pm');
+    expect(result.duration).toBe('25');
+  });
+
+  it('rejects an empty start time', () => {
+    expect(() => CancelSessionInput.parse({ startTime: '' })).toThrow();
   });
 });
 
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { computeSessionStats } from '../src/stats/session-stats.js';
+import type { Session, SessionStatus } from '../src/schemas/session.js';
+
+let nextId = 1;
+
+/** A session starting at local `day` (2026-04-xx) and `hour`. */
+function session(
+  day: number,
+  hour: number,
+  status: SessionStatus,
+  extra: Partial<Session> = {}
+): Session {
+  const start = new Date(2026, 3, day, hour, 0);
+  const duration = extra.duration ?? 50;
+  return {
+    id: `sess-${nextId++}`,
+    startTime: start.toISOString(),
+    endTime: new Date(start.getTime() + duration * 60000).toISOString(),
+    duration,
+    status,
+    partnerId: null,
+    partnerName: null,
+    ...extra
+  };
+}
+
+const RANGE_START = new Date(2026, 3, 1);
+const RANGE_END = new Date(2026, 4, 1);
+const NOW = new Date(2026, 3, 15, 18, 0); // Wed 15 April
+
+describe('computeSessionStats', () => {
+  it('counts totals, focus minutes and rates', () => {
+    const stats = computeSessionStats([
+      session(13, 9, 'completed'),
+      session(13, 14, 'completed', { duration: 25 }),
+      session(14, 9, 'no_show', { noShowBy: 'me' }),
+      session(14, 11, 'no_show', { noShowBy: 'partner' }),
+      session(16, 9, 'matched'),
+      session(16, 10, 'cancelled')
+    ], RANGE_START, RANGE_END, NOW);
+
+    expect(stats.totalSessions).toBe(5);
+    expect(stats.completedSessions).toBe(2);
+    expect(stats.noShowSessions).toBe(2);
+    expect(stats.upcomingSessions).toBe(1);
+    expect(stats.focusMinutes).toBe(75);
+    expect(stats.completionRate).toBe(0.5);
+    expect(stats.noShowRate).toBe(0.5);
+    expect(stats.noShowsByMe).toBe(1);
+    expect(stats.noShowsByPartner).toBe(1);
+  });
+
+  it('ignores sessions outside the range', () => {
+    const stats = computeSessionStats([
+      session(1, 9, 'completed'),
+      session(30, 23, 'completed')
+    ], new Date(2026, 3, 2), new Date(2026, 3, 30), NOW);
+
+    expect(stats.totalSessions).toBe(0);
+    expect(stats.completionRate).toBeNull();
+  });
+
+  it('tracks the current and longest daily streaks', () => {
+    const stats = computeSessionStats([
+      session(3, 9, 'completed'),
+      session(4, 9, 'completed'),
+      session(5, 9, 'completed'),
+      session(6, 9, 'completed'),
+      session(10, 9, 'no_show', { noShowBy: 'me' }),
+      session(13, 9, 'completed'),
+      session(14, 9, 'completed'),
+      session(14, 15, 'completed')
+    ], RANGE_START, RANGE_END, NOW);
+
+    // No session yet today (15th), so the streak ending yesterday still counts
+    expect(stats.currentStreakDays).toBe(2);
+    expect(stats.longestStreakDays).toBe(4);
+  });
+
+  it('resets the current streak after a missed day', () => {
+    const stats = computeSessionStats([
+      session(12, 9, 'completed'),
+      session(13, 9, 'completed')
+    ], RANGE_START, RANGE_END, NOW);
+
+    expect(stats.currentStreakDays).toBe(0);
+    expect(stats.longestStreakDays).toBe(2);
+  });
+
+  it('breaks sessions down by weekday, hour and duration', () => {
+    const stats = computeSessionStats([
+      session(13, 9, 'completed'),                  // Monday
+      session(20, 9, 'completed', { duration: 75 }), // Monday
+      session(15, 14, 'no_show', { duration: 25 })   // Wednesday
+    ], RANGE_START, RANGE_END, new Date(2026, 3, 25));
+
+    expect(stats.byWeekday.Mon).toEqual({ sessions: 2, completed: 2, focusMinutes: 125 });
+    expect(stats.byWeekday.Wed).toEqual({ sessions: 1, completed: 0, focusMinutes: 0 });
+    expect(stats.byWeekday.Sun.sessions).toBe(0);
+    expect(Object.keys(stats.byHour)).toEqual(['09:00', '14:00']);
+    expect(stats.byHour['09:00'].sessions).toBe(2);
+    expect(stats.byDuration['25']).toEqual({ sessions: 1, completed: 0, focusMinutes: 0 });
+    expect(stats.byDuration['75'].focusMinutes).toBe(75);
+  });
+
+  it('buckets days and hours in the given time zone', () => {
+    const late = (iso: string): Session => ({
+      id: `sess-${nextId++}`,
+      startTime: iso,
+      endTime: new Date(new Date(iso).getTime() + 50 * 60000).toISOString(),
+      duration: 50,
+      status: 'completed',
+      partnerId: null,
+      partnerName: null
+    });
+    // 02:00 UTC on Thursday is 22:00 on Wednesday in New York
+    const stats = computeSessionStats(
+      [late('2026-04-16T02:00:00.000Z')],
+      new Date('2026-04-01T00:00:00Z'),
+      new Date('2026-05-01T00:00:00Z'),
+      new Date('2026-04-16T03:00:00Z'),
+      'America/New_York'
+    );
+
+    expect(stats.timeZone).toBe('America/New_York');
+    expect(stats.byWeekday.Wed.sessions).toBe(1);
+    expect(Object.keys(stats.byHour)).toEqual(['22:00']);
+    expect(stats.currentStreakDays).toBe(1);
+  });
+
+  it('reports week-over-week focus minute changes', () => {
+    const stats = computeSessionStats([
+      session(7, 9, 'completed'),   // week of Mon 6 April
+      session(8, 9, 'completed'),
+      session(14, 9, 'completed'),  // week of Mon 13 April
+      session(14, 11, 'completed'),
+      session(15, 9, 'completed')
+    ], RANGE_START, RANGE_END, NOW);
+
+    expect(stats.weekly.map(w => w.weekStart)).toEqual(['2026-04-06', '2026-04-13']);
+    expect(stats.weekly[0].focusMinutesChange).toBeNull();
+    expect(stats.weekly[1].focusMinutes).toBe(150);
+    expect(stats.weekly[1].focusMinutesChange).toBe(50);
+    expect(stats.weekly[1].focusMinutesChangePct).toBe(0.5);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { configDir } from './config-dir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Session } from '../src/schemas/session.js';
+
+const {
+  getStoredSessions,
+  getLastSyncedAt,
+  markCancelled,
+  recordSessions,
+  syncSessions
+} = await import('../src/store/session-store.js');
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const now = new Date('2026-04-15T12:00:00.000Z');
+const rangeStart = new Date(now.getTime() - 7 * DAY);
+const rangeEnd = new Date(now.getTime() + 7 * DAY);
+
+function makeSession(id: string, startTime: Date, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    startTime: startTime.toISOString(),
+    endTime: new Date(startTime.getTime() + 50 * 60 * 1000).toISOString(),
+    duration: 50,
+    status: startTime < now ? 'completed' : 'matched',
+    partnerId: 'user-jane',
+    partnerName: 'Jane D.',
+    ...overrides
+  };
+}
+
+const past = makeSession('past', new Date(now.getTime() - 3 * DAY));
+const upcoming = makeSession('upcoming', new Date(now.getTime() + 2 * DAY));
+
+/** Fake fetcher serving `sessions` and recording the ranges it was asked for. */
+function fetcher(sessions: Session[]) {
+  const calls: Array<{ start: Date; end: Date }> = [];
+  const fetch = vi.fn(async (start: Date, end: Date) => {
+    calls.push({ start, end });
+    return sessions.filter(s => new Date(s.startTime) < end && new Date(s.endTime) > start);
+  });
+  return { fetch, calls };
+}
+
+beforeEach(() => {
+  fs.rmSync(path.join(configDir, 'sessions.json'), { force: true });
+});
+
+describe('syncSessions', () => {
+  it('fetches the whole range on first sync and stores it', async () => {
+    const { fetch, calls } = fetcher([past, upcoming]);
+
+    const result = await syncSessions(rangeStart, rangeEnd, fetch, { now });
+
+    expect(calls).toEqual([{ start: rangeStart, end: rangeEnd }]);
+    expect(result.sessions.map(s => s.id)).toEqual(['past', 'upcoming']);
+    expect(result.syncedAt).toBe(now.toISOString());
+    expect(getStoredSessions(rangeStart, rangeEnd)).toEqual(result.sessions);
+    expect(getLastSyncedAt()).toBe(now.toISOString());
+  });
+
+  it('only fetches sessions after the cursor on later syncs', async () => {
+    const { fetch, calls } = fetcher([past, upcoming]);
+    await syncSessions(rangeStart, rangeEnd, fetch, { now });
+
+    const result = await syncSessions(rangeStart, rangeEnd, fetch, { now });
+
+    // Sessions that had finished at the last sync are settled
+    expect(calls[1].start).toEqual(new Date(now.getTime() - 2 * HOUR));
+    expect(result.sessions.map(s => s.id)).toEqual(['past', 'upcoming']);
+  });
+
+  it('answers settled ranges without fetching', async () => {
+    const { fetch } = fetcher([past, upcoming]);
+    await syncSessions(rangeStart, rangeEnd, fetch, { now });
+    fetch.mockClear();
+
+    const result = await syncSessions(rangeStart, new Date(now.getTime() - DAY), fetch, { now });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(result.fetchedFrom).toBeUndefined();
+    expect(result.sessions.map(s => s.id)).toEqual(['past']);
+  });
+
+  it('re-fetches the whole range with refresh', async () => {
+    const { fetch, calls } = fetcher([past, upcoming]);
+    await syncSessions(rangeStart, rangeEnd, fetch, { now });
+
+    await syncSessions(rangeStart, rangeEnd, fetch, { now, refresh: true });
+
+    expect(calls[1].start).toEqual(rangeStart);
+  });
+
+  it('fetches from the range start when it precedes the cursor', async () => {
+    const { fetch, calls } = fetcher([past, upcoming]);
+    await syncSessions(rangeStart, rangeEnd, fetch, { now });
+
+    const earlier = new Date(rangeStart.getTime() - 7 * DAY);
+    await syncSessions(earlier, rangeEnd, fetch, { now });
+
+    expect(calls[1].start).toEqual(earlier);
+  });
+
+  it('keeps sessions Focusmate stops returning as cancelled', async () => {
+    await syncSessions(rangeStart, rangeEnd, fetcher([past, upcoming]).fetch, { now });
+
+    const result = await syncSessions(rangeStart, rangeEnd, fetcher([past]).fetch, { now });
+
+    expect(result.sessions.find(s => s.id === 'upcoming')!.status).toBe('cancelled');
+  });
+
+  it('replaces a booking placeholder once the real session appears', async () => {
+    recordSessions([makeSession('temp-123', new Date(upcoming.startTime), { status: 'pending' })]);
+
+    const result = await syncSessions(rangeStart, rangeEnd, fetcher([past, upcoming]).fetch, { now });
+
+    expect(result.sessions.map(s => s.id)).toEqual(['past', 'upcoming']);
+  });
+
+  it('leaves the store untouched when the fetch fails', async () => {
+    await syncSessions(rangeStart, rangeEnd, fetcher([past, upcoming]).fetch, { now });
+
+    const failing = vi.fn(async () => { throw new Error('offline'); });
+    await expect(syncSessions(rangeStart, rangeEnd, failing, { now })).rejects.toThrow('offline');
+
+    expect(getStoredSessions(rangeStart, rangeEnd).map(s => s.id)).toEqual(['past', 'upcoming']);
+  });
+});
+
+describe('recordSessions and markCancelled', () => {
+  it('stores bookings and marks them cancelled', () => {
+    recordSessions([upcoming]);
+    expect(getStoredSessions(rangeStart, rangeEnd)).toEqual([upcoming]);
+
+    expect(markCancelled('upcoming')).toBe(true);
+    expect(getStoredSessions(rangeStart, rangeEnd)[0].status).toBe('cancelled');
+  });
+
+  it('returns false when cancelling an unknown session', () => {
+    expect(markCancelled('missing')).toBe(false);
+  });
+
+  it('updates sessions already stored', () => {
+    recordSessions([upcoming]);
+    recordSessions([{ ...upcoming, partnerName: 'Sam K.' }]);
+
+    const stored = getStoredSessions(rangeStart, rangeEnd);
+    expect(stored).toHaveLength(1);
+    expect(stored[0].partnerName).toBe('Sam K.');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatZonedDate,
+  formatZonedDateTime,
+  getZonedParts,
+  isValidTimeZone,
+  validateSlotStart,
+  zonedTimeToUtc
+} from '../src/utils/time.js';
+
+describe('getZonedParts', () => {
+  it('reads the wall-clock time and weekday in the given zone', () => {
+    // Wednesday 01:30 UTC is still Tuesday evening in New York
+    expect(getZonedParts(new Date('2026-04-01T01:30:00Z'), 'America/New_York')).toEqual({
+      year: 2026, month: 3, day: 31, hours: 21, minutes: 30, weekday: 2
+    });
+  });
+
+  it('uses 00 rather than 24 for midnight', () => {
+    expect(getZonedParts(new Date('2026-04-01T00:00:00Z'), 'UTC').hours).toBe(0);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock times on either side of a DST change', () => {
+    expect(zonedTimeToUtc(2026, 3, 7, 9, 0, 'America/New_York').toISOString()).toBe('2026-03-07T14:00:00.000Z');
+    expect(zonedTimeToUtc(2026, 3, 9, 9, 0, 'America/New_York').toISOString()).toBe('2026-03-09T13:00:00.000Z');
+  });
+
+  it('moves times skipped by a DST change past the gap', () => {
+    // New York skipped 2:00-3:00 on March 8 2026, and Berlin did on March 29
+    expect(zonedTimeToUtc(2026, 3, 8, 2, 30, 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(zonedTimeToUtc(2026, 3, 29, 2, 30, 'Europe/Berlin').toISOString()).toBe('2026-03-29T01:30:00.000Z');
+  });
+
+  it('reads repeated times as their first occurrence', () => {
+    // 1:30am happened twice in New York on November 1 2026, first in EDT
+    expect(zonedTimeToUtc(2026, 11, 1, 1, 30, 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+
+  it('handles zones with non-hour offsets', () => {
+    expect(zonedTimeToUtc(2026, 4, 1, 9, 0, 'Asia/Kathmandu').toISOString()).toBe('2026-04-01T03:15:00.000Z');
+  });
+
+  it('throws for unknown zones', () => {
+    expect(() => zonedTimeToUtc(2026, 4, 1, 9, 0, 'Mars/Olympus_Mons')).toThrow(RangeError);
+  });
+});
+
+describe('formatZonedDateTime', () => {
+  it('includes the UTC offset in effect at that instant', () => {
+    expect(formatZonedDateTime(new Date('2026-01-15T14:00:00Z'), 'Europe/London')).toBe('2026-01-15T14:00:00+00:00');
+    expect(formatZonedDateTime(new Date('2026-07-15T14:00:00Z'), 'Europe/London')).toBe('2026-07-15T15:00:00+01:00');
+    expect(formatZonedDateTime(new Date('2026-07-15T14:00:00Z'), 'America/Los_Angeles')).toBe('2026-07-15T07:00:00-07:00');
+    expect(formatZonedDateTime(new Date('2026-04-01T03:15:00Z'), 'Asia/Kathmandu')).toBe('2026-04-01T09:00:00+05:45');
+  });
+
+  it('formats calendar dates in the zone', () => {
+    expect(formatZonedDate(new Date('2026-04-01T20:00:00Z'), 'Asia/Tokyo')).toBe('2026-04-02');
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names and rejects others', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Pacific Standard Time')).toBe(false);
+  });
+});
+
+describe('validateSlotStart in the account zone', () => {
+  const now = new Date('2026-04-01T00:00:00Z');
+
+  it('accepts quarter hours in half-hour offset zones', () => {
+    expect(validateSlotStart(new Date('2026-04-02T04:00:00Z'), now, 'Asia/Kolkata')).toBeUndefined();
+  });
+
+  it('suggests times in the account zone', () => {
+    // 14:10 UTC is 10:10 in New York
+    const error = validateSlotStart(new Date('2026-04-02T14:10:00Z'), now, 'America/New_York');
+    expect(error).toContain('10:00, 10:15, 10:30, or 10:45');
+    expect(error).toContain('America/New_York');
+  });
+});
@@ -1,26 +1,9 @@
 import { describe, it, expect } from 'vitest';
-
-/**
- * Tests for the booking validation logic (extracted from book-session.ts).
- */
+import { validateSlotStart } from '../src/utils/time.js';
 
 function validateBookingTime(startTime: string): { valid: boolean; error?: string } {
-  const targetDate = new Date(startTime);
-
-  if (isNaN(targetDate.getTime())) {
-    return { valid: false, error: 'Invalid date' };
-  }
-
-  if (targetDate <= new Date()) {
-    return { valid: false, error: 'Cannot book in the past' };
-  }
-
-  const minutes = targetDate.getMinutes();
-  if (minutes % 15 !== 0) {
-    return { valid: false, error: 'Must be on 15-minute boundary' };
-  }
-
-  return { valid: true };
+  const error = validateSlotStart(new Date(startTime));
+  return { valid: !error, error };
 }
 
 describe('Booking time validation', () => {